@@ -0,0 +1,49 @@
+/**
+ * Replays the recorded Stripe events in supabase/functions/crm_stripe-webhook/fixtures against a
+ * running crm_stripe-webhook, signed with the local secret and the current timestamp so the
+ * function's signature and tolerance checks run exactly as for Stripe.
+ *
+ *   supabase functions serve crm_stripe-webhook --env-file .env --no-verify-jwt
+ *   CRM_STRIPE_WEBHOOK_SECRET=whsec_local npm run replay:stripe-webhook [-- invoice.paid ...]
+ *
+ * CRM_STRIPE_WEBHOOK_SECRET must match the secret the function was served with;
+ * CRM_STRIPE_WEBHOOK_URL defaults to the local Supabase functions endpoint.
+ */ import { createHmac } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { fileURLToPath } from "node:url";
+const FIXTURES_DIR = fileURLToPath(new URL("../supabase/functions/crm_stripe-webhook/fixtures/", import.meta.url));
+const WEBHOOK_URL = process.env.CRM_STRIPE_WEBHOOK_URL || "http://localhost:54321/functions/v1/crm_stripe-webhook";
+const SECRET = process.env.CRM_STRIPE_WEBHOOK_SECRET;
+if (!SECRET) {
+  console.error("CRM_STRIPE_WEBHOOK_SECRET is required");
+  process.exit(1);
+}
+// Same scheme as Stripe: v1 = HMAC-SHA256 of "<timestamp>.<raw body>"
+function signatureHeader(payload) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", SECRET).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+const requested = process.argv.slice(2).map((name)=>basename(name, ".json"));
+const fixtures = (await readdir(FIXTURES_DIR)).filter((file)=>file.endsWith(".json")).filter((file)=>requested.length === 0 || requested.includes(basename(file, ".json"))).sort();
+if (fixtures.length === 0) {
+  console.error(`No fixtures matched in ${FIXTURES_DIR}`);
+  process.exit(1);
+}
+let failed = 0;
+for (const file of fixtures){
+  const payload = await readFile(join(FIXTURES_DIR, file), "utf8");
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": signatureHeader(payload)
+    },
+    body: payload
+  });
+  const body = await response.text();
+  console.log(`${response.ok ? "ok  " : "FAIL"} ${file} -> ${response.status} ${body}`);
+  if (!response.ok) failed++;
+}
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Writes to crm_audit_log (supabase/migrations/00012_audit_log.sql).
+ * Auditing is best-effort: a failed insert is logged and never fails the mutation itself.
+ */ export interface AuditActor {
+  id: string | null;
+  role: "admin" | "partner" | "user" | "system";
+}
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  metadata?: Record<string, unknown>;
+}
+/**
+ * Actor from a verified CRM JWT payload (sub/role)
+ */ export function auditActorFromPayload(payload: { sub?: string; role?: unknown }): AuditActor {
+  const role = payload.role === "admin" || payload.role === "partner" || payload.role === "user" ? payload.role : "system";
+  return {
+    id: payload.sub ?? null,
+    role
+  };
+}
+// Header the client IP is read from. Only name a header the proxy in front of the functions
+// overwrites on every request (e.g. cf-connecting-ip behind Cloudflare); clients can set any other.
+const CLIENT_IP_HEADER = Deno.env.get("CRM_CLIENT_IP_HEADER")?.trim().toLowerCase() || "x-forwarded-for";
+/**
+ * Client IP (from CRM_CLIENT_IP_HEADER) and user agent of a request. A list such as
+ * X-Forwarded-For is read from its last hop, the one the Supabase gateway appends; earlier hops
+ * are whatever the client sent.
+ */ export function getRequestContext(req: Request) {
+  const ipAddress = req.headers.get(CLIENT_IP_HEADER)?.split(",").pop()?.trim() || null;
+  return {
+    ip_address: ipAddress,
+    user_agent: req.headers.get("user-agent")
+  };
+}
+/**
+ * Field-level diff between two records, limited to `fields`
+ */ export function diffChanges(before: Record<string, unknown> | null, after: Record<string, unknown>, fields: string[]) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of fields){
+    if (!(field in after)) continue;
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = {
+        from,
+        to
+      };
+    }
+  }
+  return changes;
+}
+export async function recordAuditLog(supabase: SupabaseClient, req: Request, actor: AuditActor, entry: AuditEntry) {
+  const { error } = await supabase.from("crm_audit_log").insert({
+    actor_id: actor.id,
+    actor_role: actor.role,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId ?? null,
+    changes: entry.changes ?? {},
+    metadata: entry.metadata ?? {},
+    ...getRequestContext(req)
+  });
+  if (error) {
+    console.error(`Failed to write audit log (${entry.action}):`, error.message);
+  }
+}
@@ -0,0 +1,111 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jwtVerify } from "https://esm.sh/jose@4.14.4";
+import { ERROR_CODES } from "./http.ts";
+import { checkSession } from "./session.ts";
+import { getJWTSecret, type PrincipalRole, tokenKeyForRole } from "./tokens.ts";
+/**
+ * Admin-Token/Partner-Token authentication for crm_* functions: header lookup, JWT
+ * verification, role check and session (jti) check, with every failure mapped to a stable code.
+ * Permission checks stay in the functions (checkPermission from ./permissions.ts).
+ */ export interface AuthError {
+  message: string;
+  status: number;
+  code: string;
+}
+export interface AuthPayload {
+  sub: string;
+  role: PrincipalRole;
+  jti?: string;
+  exp?: number;
+  permissions?: string[];
+  admin_role?: string | null;
+  [claim: string]: unknown;
+}
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+const ROLE_LABELS: Record<PrincipalRole, string> = {
+  admin: "Admin",
+  partner: "Partner"
+};
+function authError(message: string, status: number, code: string) {
+  return {
+    error: {
+      message,
+      status,
+      code
+    }
+  };
+}
+/**
+ * Maps jose verification failures; anything else is not a token problem and is rethrown
+ */ function tokenError(error: { code?: string }) {
+  switch(error?.code){
+    case "ERR_JWT_EXPIRED":
+      return authError("Token has expired", 401, ERROR_CODES.TOKEN_EXPIRED);
+    case "ERR_JWT_CLAIM_VALIDATION_FAILED":
+      return authError("Token claims are invalid", 401, ERROR_CODES.INVALID_TOKEN);
+    case "ERR_JWS_SIGNATURE_VERIFICATION_FAILED":
+      return authError("Invalid token signature", 401, ERROR_CODES.INVALID_TOKEN);
+    case "ERR_JWS_INVALID":
+    case "ERR_JWT_INVALID":
+    case "ERR_JOSE_ALG_NOT_ALLOWED":
+      return authError("Invalid token format", 401, ERROR_CODES.INVALID_TOKEN);
+    default:
+      return null;
+  }
+}
+/**
+ * Authenticates the request as one of `roles`. The token is read from the header of each
+ * allowed role (Admin-Token before Partner-Token) and must carry one of those roles.
+ * skipSessionCheck is for crm_logout, where an already revoked session is not an error.
+ */ export async function authenticate(req: Request, options: {
+  roles: PrincipalRole[];
+  skipSessionCheck?: boolean;
+}): Promise<{
+  payload: AuthPayload;
+  principal: { id: string; role: PrincipalRole };
+} | {
+  error: AuthError;
+}> {
+  const headerNames = options.roles.map(tokenKeyForRole);
+  const token = headerNames.map((name)=>req.headers.get(name)).find(Boolean);
+  if (!token) {
+    return authError(`${headerNames.join(" or ")} header required`, 401, ERROR_CODES.UNAUTHORIZED);
+  }
+  let secret;
+  try {
+    secret = getJWTSecret();
+  } catch  {
+    return authError("JWT secret configuration error", 500, ERROR_CODES.JWT_SECRET_ERROR);
+  }
+  let payload;
+  try {
+    ({ payload } = await jwtVerify(token, secret, {
+      algorithms: [
+        "HS256"
+      ],
+      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
+      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    }));
+  } catch (error) {
+    const mapped = tokenError(error);
+    if (!mapped) throw error;
+    return mapped;
+  }
+  if (!options.roles.includes(payload.role as PrincipalRole) || !payload.sub) {
+    return authError(`${options.roles.map((role)=>ROLE_LABELS[role]).join(" or ")} access required`, 403, ERROR_CODES.FORBIDDEN);
+  }
+  // Validate session (jti) has not been revoked
+  if (!options.skipSessionCheck) {
+    const sessionError = await checkSession(supabase, payload);
+    if (sessionError) {
+      return authError(sessionError.message, 401, sessionError.code);
+    }
+  }
+  return {
+    payload: payload as AuthPayload,
+    principal: {
+      id: payload.sub,
+      role: payload.role as PrincipalRole
+    }
+  };
+}
@@ -0,0 +1,133 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+/**
+ * CORS and the standard error envelope shared by every crm_* function.
+ * Errors are always `{ error, code, details? }`: `code` is a stable identifier clients can
+ * branch on, `error` is a human-readable message that may change.
+ */ export const ERROR_CODES = {
+  BAD_REQUEST: "BAD_REQUEST",
+  INVALID_JSON: "INVALID_JSON",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  INVALID_TOKEN: "INVALID_TOKEN",
+  TOKEN_EXPIRED: "TOKEN_EXPIRED",
+  FORBIDDEN: "FORBIDDEN",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+  NOT_FOUND: "NOT_FOUND",
+  METHOD_NOT_ALLOWED: "METHOD_NOT_ALLOWED",
+  CONFLICT: "CONFLICT",
+  RATE_LIMITED: "RATE_LIMITED",
+  JWT_SECRET_ERROR: "JWT_SECRET_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR"
+} as const;
+export type CorsHeaders = Record<string, string>;
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+/**
+ * Comma-separated origins from the environment, falling back to the built-in list when unset
+ */ function originsFromEnv(name: string, fallback: string[]) {
+  const raw = Deno.env.get(name);
+  if (!raw?.trim()) return fallback;
+  return raw.split(",").map((origin)=>origin.trim().replace(/\/+$/, "")).filter(Boolean);
+}
+// CRM front ends (every crm_* function)
+const crmOrigins = originsFromEnv("CRM_ALLOWED_ORIGINS", [
+  "https://fxlabsprime-crm-qa.netlify.app",
+  "https://fxlabsprime-crm-dev.netlify.app",
+  "https://crm.fxlabsprime.com"
+]);
+// Main site, for functions its users call directly (e.g. crm_complete-password-setup)
+const siteOrigins = originsFromEnv("CRM_SITE_ALLOWED_ORIGINS", [
+  "https://fxlabsprime.com"
+]);
+// Base CORS headers (without origin and methods)
+const baseCorsHeaders = {
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, admin-token, partner-token, mfa-token, password-change-token",
+  "Access-Control-Max-Age": "86400",
+  "Access-Control-Allow-Credentials": "true",
+  "Vary": "Origin"
+};
+/**
+ * CORS headers for the request. `methods` are the ones the function serves (OPTIONS is added);
+ * Access-Control-Allow-Origin is only set for allowed origins.
+ */ export function getCorsHeaders(req: Request, options: {
+  methods: HttpMethod[];
+  allowSiteOrigins?: boolean;
+}): CorsHeaders {
+  const headers: CorsHeaders = {
+    ...baseCorsHeaders,
+    "Access-Control-Allow-Methods": [
+      ...options.methods,
+      "OPTIONS"
+    ].join(", ")
+  };
+  const origin = req.headers.get("Origin");
+  if (origin && (crmOrigins.includes(origin) || options.allowSiteOrigins && siteOrigins.includes(origin))) {
+    headers["Access-Control-Allow-Origin"] = origin;
+  }
+  return headers;
+}
+export function createPreflightResponse(corsHeaders: CorsHeaders) {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders
+  });
+}
+function codeForStatus(status: number) {
+  switch(status){
+    case 400:
+      return ERROR_CODES.BAD_REQUEST;
+    case 401:
+      return ERROR_CODES.UNAUTHORIZED;
+    case 403:
+      return ERROR_CODES.FORBIDDEN;
+    case 404:
+      return ERROR_CODES.NOT_FOUND;
+    case 405:
+      return ERROR_CODES.METHOD_NOT_ALLOWED;
+    case 409:
+      return ERROR_CODES.CONFLICT;
+    case 429:
+      return ERROR_CODES.RATE_LIMITED;
+    default:
+      return ERROR_CODES.INTERNAL_ERROR;
+  }
+}
+/**
+ * Standard error response; without an explicit code the generic one for the status is used
+ */ export function createErrorResponse(message: string, status = 500, code: string | null = null, details: ErrorDetail[] = [], corsHeaders: CorsHeaders = {}) {
+  const errorResponse: {
+    error: string;
+    code: string;
+    details?: ErrorDetail[];
+  } = {
+    error: message,
+    code: code ?? codeForStatus(status)
+  };
+  if (details.length > 0) errorResponse.details = details;
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders
+    }
+  });
+}
+export function createValidationErrorResponse(zodError: z.ZodError, corsHeaders: CorsHeaders = {}) {
+  const details = zodError.issues.map((issue)=>({
+      field: issue.path.join("."),
+      message: issue.message
+    }));
+  return createErrorResponse("Validation error", 400, ERROR_CODES.VALIDATION_ERROR, details, corsHeaders);
+}
+/**
+ * Last-resort handler for a function's outer catch: Zod errors become 400s, anything else is logged and a 500
+ */ export function createUnexpectedErrorResponse(error: unknown, corsHeaders: CorsHeaders = {}) {
+  if (error instanceof z.ZodError) {
+    return createValidationErrorResponse(error, corsHeaders);
+  }
+  console.error("Unexpected error:", error);
+  return createErrorResponse("Internal server error", 500, ERROR_CODES.INTERNAL_ERROR, [], corsHeaders);
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Brute-force protection for crm_custom-login, backed by crm_login_attempt / crm_login_lockout
+ * (supabase/migrations/00015_login_attempts.sql). Thresholds are read from CRM_LOGIN_* env vars.
+ */ function envInt(name: string, fallback: number) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+export const LOGIN_THROTTLE = {
+  maxEmailFailures: Math.max(envInt("CRM_LOGIN_MAX_FAILED_ATTEMPTS", 5), 1),
+  maxIpFailures: Math.max(envInt("CRM_LOGIN_MAX_FAILED_ATTEMPTS_PER_IP", 20), 1),
+  windowMinutes: Math.max(envInt("CRM_LOGIN_FAILURE_WINDOW_MINUTES", 15), 1),
+  lockoutMinutes: Math.max(envInt("CRM_LOGIN_LOCKOUT_MINUTES", 15), 1),
+  delayBaseMs: envInt("CRM_LOGIN_DELAY_BASE_MS", 500),
+  delayMaxMs: envInt("CRM_LOGIN_DELAY_MAX_MS", 8000)
+};
+export type LoginRole = "admin" | "partner";
+/**
+ * Active lockout end (null when not locked) and the failures counted for the email so far
+ */ export async function checkLoginLockout(supabase: SupabaseClient, email: string, role: LoginRole, ipAddress: string | null) {
+  const { data, error } = await supabase.rpc("crm_check_login_lockout", {
+    p_email: email,
+    p_role: role,
+    p_ip_address: ipAddress,
+    p_window_minutes: LOGIN_THROTTLE.windowMinutes
+  });
+  if (error) {
+    throw new Error(`Failed to check login lockout: ${error.message}`);
+  }
+  const row = data?.[0];
+  return {
+    lockedUntil: row?.locked_until ? new Date(row.locked_until) : null,
+    emailFailures: row?.email_failures ?? 0
+  };
+}
+/**
+ * Records an attempt; returns the lockout end when this failure opened one
+ */ export async function recordLoginAttempt(supabase: SupabaseClient, attempt: {
+  email: string;
+  role: LoginRole;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+}) {
+  const { data, error } = await supabase.rpc("crm_record_login_attempt", {
+    p_email: attempt.email,
+    p_role: attempt.role,
+    p_ip_address: attempt.ipAddress,
+    p_user_agent: attempt.userAgent,
+    p_success: attempt.success,
+    p_max_email_failures: LOGIN_THROTTLE.maxEmailFailures,
+    p_max_ip_failures: LOGIN_THROTTLE.maxIpFailures,
+    p_window_minutes: LOGIN_THROTTLE.windowMinutes,
+    p_lockout_minutes: LOGIN_THROTTLE.lockoutMinutes
+  });
+  if (error) {
+    throw new Error(`Failed to record login attempt: ${error.message}`);
+  }
+  const row = data?.[0];
+  return row?.locked_until ? new Date(row.locked_until) : null;
+}
+/**
+ * Exponential back-off before answering: base * 2^(failures - 1), capped at delayMaxMs
+ */ export async function progressiveDelay(failures: number) {
+  if (failures <= 0 || LOGIN_THROTTLE.delayBaseMs === 0) return;
+  const delay = Math.min(LOGIN_THROTTLE.delayBaseMs * 2 ** Math.min(failures - 1, 16), LOGIN_THROTTLE.delayMaxMs);
+  await new Promise((r)=>setTimeout(r, delay));
+}
+export function retryAfterSeconds(lockedUntil: Date) {
+  return Math.max(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000), 1);
+}
@@ -0,0 +1,152 @@
+import { SignJWT, jwtVerify } from "https://esm.sh/jose@4.14.4";
+import { authenticate } from "./auth.ts";
+import { getJWTSecret } from "./tokens.ts";
+/**
+ * MFA storage and challenge helpers (supabase/migrations/00016_mfa.sql).
+ * TOTP secrets are AES-GCM encrypted with CRM_MFA_ENCRYPTION_KEY; recovery codes are SHA-256 hashed.
+ */ export const MFA_ISSUER = Deno.env.get("CRM_MFA_ISSUER") || "FXLabs Prime CRM";
+export const MFA_CHALLENGE_TTL_SECONDS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MFA_CHALLENGE_TTL_SECONDS") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 5 * 60;
+})();
+export const RECOVERY_CODE_COUNT = 10;
+export type MfaPurpose = "verify" | "enroll";
+export type PrincipalRole = "admin" | "partner";
+async function getEncryptionKey() {
+  const raw = Deno.env.get("CRM_MFA_ENCRYPTION_KEY");
+  if (!raw) throw new Error("CRM_MFA_ENCRYPTION_KEY environment variable is not set");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(raw));
+  return crypto.subtle.importKey("raw", digest, {
+    name: "AES-GCM"
+  }, false, [
+    "encrypt",
+    "decrypt"
+  ]);
+}
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (c)=>c.charCodeAt(0));
+}
+/**
+ * "iv.ciphertext" (both base64)
+ */ export async function encryptMfaSecret(secret: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({
+    name: "AES-GCM",
+    iv
+  }, await getEncryptionKey(), new TextEncoder().encode(secret)));
+  return `${toBase64(iv)}.${toBase64(ciphertext)}`;
+}
+export async function decryptMfaSecret(stored: string) {
+  const [iv, ciphertext] = stored.split(".");
+  const plaintext = await crypto.subtle.decrypt({
+    name: "AES-GCM",
+    iv: fromBase64(iv)
+  }, await getEncryptionKey(), fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+/**
+ * Recovery codes look like "k3f9-x2mq-8wz4"; only their hashes are stored
+ */ export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT) {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  return Array.from({
+    length: count
+  }, ()=>{
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    const chars = Array.from(bytes, (b)=>alphabet[b % alphabet.length]).join("");
+    return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+  });
+}
+export async function hashRecoveryCode(code: string) {
+  const normalized = code.trim().toLowerCase().replace(/[\s-]/g, "");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest)).map((b)=>b.toString(16).padStart(2, "0")).join("");
+}
+/**
+ * Short-lived token proving the password step passed. Its role is "mfa_challenge", so
+ * no function accepting Admin-Token/Partner-Token will take it, and it has no crm_session row.
+ */ export async function signMfaChallenge(principal: {
+  id: string;
+  role: PrincipalRole;
+  purpose: MfaPurpose;
+}) {
+  return await new SignJWT({
+    sub: principal.id,
+    role: "mfa_challenge",
+    principal_role: principal.role,
+    purpose: principal.purpose,
+    jti: crypto.randomUUID()
+  }).setProtectedHeader({
+    alg: "HS256"
+  }).setIssuedAt().setIssuer(Deno.env.get("CRM_JWT_ISSUER") ?? "fxlabsprimecrm").setAudience(Deno.env.get("CRM_JWT_AUDIENCE") ?? "fxlabsprimecrm-clients").setExpirationTime(`${MFA_CHALLENGE_TTL_SECONDS}s`).sign(getJWTSecret());
+}
+/**
+ * Returns the challenge's principal, or null when the token is not a valid challenge for `purpose`
+ */ export async function verifyMfaChallenge(token: string, purpose: MfaPurpose) {
+  try {
+    const { payload } = await jwtVerify(token, getJWTSecret(), {
+      algorithms: [
+        "HS256"
+      ],
+      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
+      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    });
+    if (payload.role !== "mfa_challenge" || payload.purpose !== purpose || !payload.sub) return null;
+    if (payload.principal_role !== "admin" && payload.principal_role !== "partner") return null;
+    return {
+      id: payload.sub,
+      role: payload.principal_role as PrincipalRole
+    };
+  } catch  {
+    return null;
+  }
+}
+/**
+ * Who is enrolling: a signed-in admin/partner (Admin-Token/Partner-Token with a live session)
+ * or an account that must enrol before its first login (MFA-Token with purpose "enroll").
+ */ export async function authenticateMfaEnrollment(req: Request): Promise<{
+  principal: { id: string; role: PrincipalRole };
+  viaChallenge: boolean;
+} | {
+  error: { message: string; status: number; code: string };
+}> {
+  const challengeToken = req.headers.get("MFA-Token");
+  if (challengeToken) {
+    const principal = await verifyMfaChallenge(challengeToken, "enroll");
+    if (!principal) {
+      return {
+        error: {
+          message: "Invalid or expired MFA token",
+          status: 401,
+          code: "INVALID_MFA_TOKEN"
+        }
+      };
+    }
+    return {
+      principal,
+      viaChallenge: true
+    };
+  }
+  if (!req.headers.get("Admin-Token") && !req.headers.get("Partner-Token")) {
+    return {
+      error: {
+        message: "Admin-Token, Partner-Token or MFA-Token header required",
+        status: 401,
+        code: "UNAUTHORIZED"
+      }
+    };
+  }
+  const auth = await authenticate(req, {
+    roles: [
+      "admin",
+      "partner"
+    ]
+  });
+  if ("error" in auth) return auth;
+  return {
+    principal: auth.principal,
+    viaChallenge: false
+  };
+}
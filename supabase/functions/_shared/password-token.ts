@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Single-use password setup/reset links (supabase/migrations/00018_password_tokens.sql).
+ * The raw token only ever appears in the emailed link; crm_password_token stores its SHA-256 hash.
+ */ function envInt(name: string, fallback: number) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+export const INVITE_TOKEN_TTL_HOURS = envInt("CRM_INVITE_TOKEN_TTL_HOURS", 72);
+export const RESET_TOKEN_TTL_MINUTES = envInt("CRM_RESET_TOKEN_TTL_MINUTES", 60);
+export type PasswordTokenRole = "admin" | "partner" | "user";
+export type PasswordTokenPurpose = "invite" | "reset";
+const SETUP_URLS: Record<PasswordTokenRole, string> = {
+  admin: Deno.env.get("CRM_PASSWORD_SETUP_URL") || "https://crm.fxlabsprime.com/set-password",
+  partner: Deno.env.get("CRM_PASSWORD_SETUP_URL") || "https://crm.fxlabsprime.com/set-password",
+  user: Deno.env.get("CRM_USER_PASSWORD_SETUP_URL") || "https://fxlabsprime.com/set-password"
+};
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes).map((b)=>b.toString(16).padStart(2, "0")).join("");
+}
+export async function hashPasswordToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+/**
+ * Random throwaway password for accounts that get their real one through a setup link;
+ * it is never logged, stored in plaintext or sent anywhere.
+ */ export function generateUnusablePassword() {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+/**
+ * Issues a token (revoking older open ones for the account) and returns the link to email
+ */ export async function createPasswordToken(supabase: SupabaseClient, options: {
+  principalId: string;
+  role: PasswordTokenRole;
+  purpose: PasswordTokenPurpose;
+  createdBy?: string | null;
+}) {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const ttlMs = options.purpose === "invite" ? INVITE_TOKEN_TTL_HOURS * 60 * 60 * 1000 : RESET_TOKEN_TTL_MINUTES * 60 * 1000;
+  const expiresAt = new Date(Date.now() + ttlMs);
+  const { error } = await supabase.rpc("crm_issue_password_token", {
+    p_token_hash: await hashPasswordToken(token),
+    p_principal_id: options.principalId,
+    p_principal_role: options.role,
+    p_purpose: options.purpose,
+    p_expires_at: expiresAt.toISOString(),
+    p_created_by: options.createdBy ?? null
+  });
+  if (error) {
+    throw new Error(`Failed to issue password token: ${error.message}`);
+  }
+  const url = new URL(SETUP_URLS[options.role]);
+  url.searchParams.set("token", token);
+  url.searchParams.set("role", options.role);
+  return {
+    url: url.toString(),
+    expiresAt
+  };
+}
+/**
+ * Human-readable validity for email copy, e.g. "72 hours" or "60 minutes"
+ */ export function passwordTokenValidity(purpose: PasswordTokenPurpose) {
+  return purpose === "invite" ? `${INVITE_TOKEN_TTL_HOURS} hours` : `${RESET_TOKEN_TTL_MINUTES} minutes`;
+}
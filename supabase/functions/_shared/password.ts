@@ -0,0 +1,100 @@
+import { SignJWT, jwtVerify } from "https://esm.sh/jose@4.14.4";
+import { genSaltSync, hashSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { getJWTSecret } from "./tokens.ts";
+/**
+ * Password hashing and strength policy for admin/partner credentials.
+ * Policy knobs come from CRM_PASSWORD_* env vars; the bcrypt cost from BCRYPT_COST.
+ */ function envInt(name: string, fallback: number) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+function envFlag(name: string, fallback: boolean) {
+  const value = Deno.env.get(name);
+  if (value === undefined || value === "") return fallback;
+  return value.toLowerCase() === "true" || value === "1";
+}
+export const BCRYPT_COST = Number.parseInt(Deno.env.get("BCRYPT_COST") ?? "12", 10) || 12;
+export const PASSWORD_POLICY = {
+  minLength: Math.max(envInt("CRM_PASSWORD_MIN_LENGTH", 12), 8),
+  // bcrypt ignores everything past 72 bytes
+  maxLength: 72,
+  requireUppercase: envFlag("CRM_PASSWORD_REQUIRE_UPPERCASE", true),
+  requireLowercase: envFlag("CRM_PASSWORD_REQUIRE_LOWERCASE", true),
+  requireDigit: envFlag("CRM_PASSWORD_REQUIRE_DIGIT", true),
+  requireSymbol: envFlag("CRM_PASSWORD_REQUIRE_SYMBOL", false)
+};
+export const PASSWORD_CHANGE_TTL_SECONDS = 10 * 60;
+export type PrincipalRole = "admin" | "partner";
+export function hashPassword(password: string) {
+  return hashSync(password, genSaltSync(BCRYPT_COST));
+}
+/**
+ * Policy violations for `password` (empty when it is acceptable)
+ */ export function passwordPolicyIssues(password: string, email?: string) {
+  const issues: string[] = [];
+  if (password.length < PASSWORD_POLICY.minLength) {
+    issues.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters`);
+  }
+  if (new TextEncoder().encode(password).length > PASSWORD_POLICY.maxLength) {
+    issues.push(`Password must be at most ${PASSWORD_POLICY.maxLength} bytes`);
+  }
+  if (PASSWORD_POLICY.requireUppercase && !/[A-Z]/.test(password)) {
+    issues.push("Password must contain an uppercase letter");
+  }
+  if (PASSWORD_POLICY.requireLowercase && !/[a-z]/.test(password)) {
+    issues.push("Password must contain a lowercase letter");
+  }
+  if (PASSWORD_POLICY.requireDigit && !/\d/.test(password)) {
+    issues.push("Password must contain a digit");
+  }
+  if (PASSWORD_POLICY.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    issues.push("Password must contain a symbol");
+  }
+  const localPart = email?.split("@")[0]?.toLowerCase();
+  if (localPart && localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    issues.push("Password must not contain your email address");
+  }
+  return issues;
+}
+/**
+ * Login response for accounts flagged must_change_password: a short-lived token accepted only
+ * by crm_change-password (Password-Change-Token header) in place of Admin-Token/Partner-Token.
+ */ export async function passwordChangeChallengeBody(principal: {
+  id: string;
+  role: PrincipalRole;
+}) {
+  const token = await new SignJWT({
+    sub: principal.id,
+    role: "password_change",
+    principal_role: principal.role,
+    jti: crypto.randomUUID()
+  }).setProtectedHeader({
+    alg: "HS256"
+  }).setIssuedAt().setIssuer(Deno.env.get("CRM_JWT_ISSUER") ?? "fxlabsprimecrm").setAudience(Deno.env.get("CRM_JWT_AUDIENCE") ?? "fxlabsprimecrm-clients").setExpirationTime(`${PASSWORD_CHANGE_TTL_SECONDS}s`).sign(getJWTSecret());
+  return {
+    password_change_required: true,
+    password_change_token: token,
+    expires_in: PASSWORD_CHANGE_TTL_SECONDS
+  };
+}
+/**
+ * Returns the token's principal, or null when it is not a valid password-change token
+ */ export async function verifyPasswordChangeToken(token: string) {
+  try {
+    const { payload } = await jwtVerify(token, getJWTSecret(), {
+      algorithms: [
+        "HS256"
+      ],
+      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
+      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    });
+    if (payload.role !== "password_change" || !payload.sub) return null;
+    if (payload.principal_role !== "admin" && payload.principal_role !== "partner") return null;
+    return {
+      id: payload.sub,
+      role: payload.principal_role as PrincipalRole
+    };
+  } catch  {
+    return null;
+  }
+}
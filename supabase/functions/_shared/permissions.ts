@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Admin role-based permissions (supabase/migrations/00020_rbac.sql).
+ * issueTokens embeds `admin_role` and `permissions` in every Admin-Token; functions call
+ * checkPermission after authenticate with the permission they need.
+ */ export const PERMISSIONS = [
+  "admins:read",
+  "admins:create",
+  "admins:update",
+  "admins:role:write",
+  "admins:password:reset",
+  "partners:read",
+  "partners:create",
+  "partners:update",
+  "partners:commission:write",
+  "partners:password:reset",
+  "users:read",
+  "users:create",
+  "users:update",
+  "users:block",
+  "users:password:reset",
+  "users:reassign",
+  "stats:read",
+  "commissions:write",
+  "payouts:read",
+  "payouts:write",
+  "audit:read",
+  "security:read",
+  "security:write"
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+export interface PermissionError {
+  message: string;
+  code: string;
+}
+/**
+ * Current role and permission set of an admin, read when a token is issued
+ */ export async function loadAdminPermissions(supabase: SupabaseClient, adminId: string) {
+  const { data, error } = await supabase.rpc("crm_get_admin_permissions", {
+    p_admin_id: adminId
+  });
+  if (error) {
+    throw new Error(`Failed to load admin permissions: ${error.message}`);
+  }
+  const row = data?.[0];
+  return {
+    adminRole: (row?.admin_role ?? null) as string | null,
+    permissions: (row?.permissions ?? []) as string[]
+  };
+}
+export function hasPermission(payload: { role?: unknown; permissions?: unknown }, permission: Permission) {
+  return payload.role === "admin" && Array.isArray(payload.permissions) && payload.permissions.includes(permission);
+}
+/**
+ * Null when the token grants every listed permission, otherwise an error naming the first missing one
+ */ export function checkPermission(payload: { role?: unknown; permissions?: unknown }, ...permissions: Permission[]): PermissionError | null {
+  const missing = permissions.find((permission)=>!hasPermission(payload, permission));
+  if (!missing) return null;
+  return {
+    message: `Missing permission: ${missing}`,
+    code: "PERMISSION_DENIED"
+  };
+}
@@ -0,0 +1,121 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+import type { AuditActor } from "./audit.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Partner referral codes (supabase/migrations/00021_referrals.sql).
+ * Links are CRM_REFERRAL_LINK_URL with the code in the `ref` query parameter; the landing page
+ * reports visits to crm_track-referral-click and signs users up through crm_referral-signup.
+ * Attribution rules and events: supabase/migrations/00022_referral_attribution.sql.
+ */ const REFERRAL_LINK_URL = Deno.env.get("CRM_REFERRAL_LINK_URL") || "https://fxlabsprime.com/";
+export type AttributionModel = "first_touch" | "last_touch";
+export type AttributionEventType = "signup" | "partner_added" | "admin_added" | "duplicate_rejected" | "reassigned";
+function envInt(name: string, fallback: number) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+export const ATTRIBUTION = {
+  // How long a click can still earn the partner credit (also the visitor_id cookie lifetime)
+  windowDays: envInt("CRM_ATTRIBUTION_WINDOW_DAYS", 30),
+  // first_touch: the earliest click in the window wins; last_touch: the latest click or the code presented at signup
+  model: (Deno.env.get("CRM_ATTRIBUTION_MODEL") === "first_touch" ? "first_touch" : "last_touch") as AttributionModel
+};
+// Same format as the crm_referral_code.code check constraint
+export const referralCodeSchema = z.string().trim().regex(/^[A-Za-z0-9_-]{4,32}$/, "Referral code must be 4-32 letters, digits, '-' or '_'");
+export interface ReferralCode {
+  id: string;
+  partner_id: string;
+  code: string;
+}
+export function referralLink(code: string) {
+  const url = new URL(REFERRAL_LINK_URL);
+  url.searchParams.set("ref", code);
+  return url.toString();
+}
+/**
+ * The code when it can attribute new users: the code is active and its partner too.
+ * Null for unknown or inactive codes, so callers cannot tell which.
+ */ export async function findActiveReferralCode(supabase: SupabaseClient, code: string): Promise<ReferralCode | null> {
+  const { data, error } = await supabase.from("crm_referral_code").select("id, partner_id, code, is_active, crm_partner:partner_id(is_active)").eq("code", code).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up referral code: ${error.message}`);
+  }
+  if (!data || !data.is_active || !data.crm_partner?.is_active) return null;
+  return {
+    id: data.id,
+    partner_id: data.partner_id,
+    code: data.code
+  };
+}
+export interface Attribution {
+  referralCode: ReferralCode | null;
+  referralClickId: string | null;
+  model: AttributionModel;
+}
+/**
+ * Which code gets credit for a signup: the visitor's clicks inside the attribution window and the
+ * code presented with the signup are the touches, and ATTRIBUTION.model picks one of them
+ */ export async function resolveAttribution(supabase: SupabaseClient, touch: { visitorId?: string | null; presentedCode?: ReferralCode | null }): Promise<Attribution> {
+  const presented = touch.presentedCode ?? null;
+  let click = null;
+  // Under last_touch a presented code is the latest touch, so clicks only matter without one
+  if (touch.visitorId && (ATTRIBUTION.model === "first_touch" || !presented)) {
+    const { data, error } = await supabase.rpc("crm_resolve_referral_attribution", {
+      p_visitor_id: touch.visitorId,
+      p_window_days: ATTRIBUTION.windowDays,
+      p_model: ATTRIBUTION.model
+    });
+    if (error) {
+      throw new Error(`Failed to resolve referral attribution: ${error.message}`);
+    }
+    click = data?.[0] ?? null;
+  }
+  if (click) {
+    return {
+      referralCode: {
+        id: click.referral_code_id,
+        partner_id: click.partner_id,
+        code: click.code
+      },
+      referralClickId: click.referral_click_id,
+      model: ATTRIBUTION.model
+    };
+  }
+  return {
+    referralCode: presented,
+    referralClickId: null,
+    model: ATTRIBUTION.model
+  };
+}
+/**
+ * Appends to crm_attribution_event. Like auditing this is best-effort and never fails the request.
+ */ export async function recordAttributionEvent(supabase: SupabaseClient, event: {
+  eventType: AttributionEventType;
+  email: string;
+  userId?: string | null;
+  partnerId?: string | null;
+  previousPartnerId?: string | null;
+  referralCodeId?: string | null;
+  referralClickId?: string | null;
+  model?: AttributionModel | null;
+  actor: AuditActor;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+}) {
+  const { error } = await supabase.from("crm_attribution_event").insert({
+    event_type: event.eventType,
+    email: event.email,
+    user_id: event.userId ?? null,
+    partner_id: event.partnerId ?? null,
+    previous_partner_id: event.previousPartnerId ?? null,
+    referral_code_id: event.referralCodeId ?? null,
+    referral_click_id: event.referralClickId ?? null,
+    attribution_model: event.model ?? null,
+    actor_id: event.actor.id,
+    actor_role: event.actor.role,
+    reason: event.reason ?? null,
+    metadata: event.metadata ?? {}
+  });
+  if (error) {
+    console.error(`Failed to record attribution event (${event.eventType}):`, error.message);
+  }
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * CRM sessions (crm_session, supabase/migrations/00013_sessions.sql).
+ * crm_custom-login creates one row per issued token keyed on its jti; authenticate (./auth.ts)
+ * calls checkSession after jwtVerify so revoked tokens are rejected before their exp.
+ */ export interface SessionError {
+  message: string;
+  code: string;
+}
+export async function createSession(supabase: SupabaseClient, session: {
+  jti: string;
+  principalId: string;
+  principalRole: "admin" | "partner";
+  familyId?: string | null;
+  expiresAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}) {
+  const { error } = await supabase.from("crm_session").insert({
+    jti: session.jti,
+    principal_id: session.principalId,
+    principal_role: session.principalRole,
+    family_id: session.familyId ?? null,
+    expires_at: session.expiresAt.toISOString(),
+    ip_address: session.ipAddress ?? null,
+    user_agent: session.userAgent ?? null
+  });
+  if (error) {
+    throw new Error(`Failed to create session: ${error.message}`);
+  }
+}
+/**
+ * Returns null when the token's session is live, otherwise the error to send back (401)
+ */ export async function checkSession(supabase: SupabaseClient, payload: { jti?: string; sub?: string; role?: unknown }): Promise<SessionError | null> {
+  if (!payload.jti || !payload.sub) {
+    return {
+      message: "Token is missing session claims",
+      code: "INVALID_SESSION"
+    };
+  }
+  const { data: session, error } = await supabase.from("crm_session").select("principal_id, principal_role, expires_at, revoked_at").eq("jti", payload.jti).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to check session: ${error.message}`);
+  }
+  if (!session || session.principal_id !== payload.sub || session.principal_role !== payload.role) {
+    return {
+      message: "Session not found",
+      code: "INVALID_SESSION"
+    };
+  }
+  if (session.revoked_at) {
+    return {
+      message: "Session has been revoked",
+      code: "SESSION_REVOKED"
+    };
+  }
+  if (new Date(session.expires_at) <= new Date()) {
+    return {
+      message: "Session has expired",
+      code: "SESSION_EXPIRED"
+    };
+  }
+  return null;
+}
+/**
+ * Revokes one session by jti together with its refresh-token family; returns whether a live session was revoked
+ */ export async function revokeSession(supabase: SupabaseClient, jti: string, reason: string) {
+  const { data, error } = await supabase.from("crm_session").update({
+    revoked_at: new Date().toISOString(),
+    revoked_reason: reason
+  }).eq("jti", jti).is("revoked_at", null).select("jti, family_id");
+  if (error) {
+    throw new Error(`Failed to revoke session: ${error.message}`);
+  }
+  const familyId = data?.[0]?.family_id;
+  if (familyId) {
+    const { error: familyError } = await supabase.rpc("crm_revoke_token_family", {
+      p_family_id: familyId,
+      p_reason: reason
+    });
+    if (familyError) {
+      throw new Error(`Failed to revoke token family: ${familyError.message}`);
+    }
+  }
+  return (data?.length ?? 0) > 0;
+}
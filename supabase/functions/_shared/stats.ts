@@ -0,0 +1,135 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Time series for the stats endpoints (supabase/migrations/00026_stats_time_series.sql).
+ * `from` (inclusive) and `to` (exclusive) are ISO datetimes and default to the last 30 days;
+ * buckets are calendar days, weeks or months in `timezone` (an IANA name, default UTC).
+ */ function envInt(name: string, fallback: number) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+const DEFAULT_RANGE_DAYS = 30;
+// Upper bound on buckets per request, so a daily series over years cannot be requested
+const MAX_BUCKETS = envInt("CRM_STATS_MAX_BUCKETS", 366);
+export const DEFAULT_TIMEZONE = Deno.env.get("CRM_STATS_TIMEZONE") || "UTC";
+export type StatsGranularity = "day" | "week" | "month";
+const APPROX_BUCKET_MS: Record<StatsGranularity, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000
+};
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: value
+    });
+    return true;
+  } catch  {
+    return false;
+  }
+}
+export const timeZoneSchema = z.string().refine(isTimeZone, "timezone must be an IANA time zone name");
+export const statsRangeSchema = z.object({
+  from: z.string().datetime({
+    offset: true,
+    message: "from must be an ISO datetime"
+  }).optional(),
+  to: z.string().datetime({
+    offset: true,
+    message: "to must be an ISO datetime"
+  }).optional(),
+  granularity: z.enum([
+    "day",
+    "week",
+    "month"
+  ], {
+    errorMap: ()=>({
+        message: "granularity must be 'day', 'week' or 'month'"
+      })
+  }).optional().default("day"),
+  timezone: timeZoneSchema.optional().default(DEFAULT_TIMEZONE)
+}).transform((params, ctx)=>{
+  const to = params.to ? new Date(params.to) : new Date();
+  const from = params.from ? new Date(params.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "from must be before to",
+      path: [
+        "from"
+      ]
+    });
+    return z.NEVER;
+  }
+  if ((to.getTime() - from.getTime()) / APPROX_BUCKET_MS[params.granularity] > MAX_BUCKETS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Range is too large for granularity '${params.granularity}' (at most ${MAX_BUCKETS} periods)`,
+      path: [
+        "granularity"
+      ]
+    });
+    return z.NEVER;
+  }
+  return {
+    from,
+    to,
+    granularity: params.granularity as StatsGranularity,
+    timezone: params.timezone
+  };
+});
+export type StatsRange = z.infer<typeof statsRangeSchema>;
+/**
+ * Reads from/to/granularity/timezone from the request URL; callers turn a failed parse into
+ * createValidationErrorResponse.
+ */ export function parseStatsRange(url: URL) {
+  return statsRangeSchema.safeParse(Object.fromEntries([
+    "from",
+    "to",
+    "granularity",
+    "timezone"
+  ].map((key)=>[
+      key,
+      url.searchParams.get(key) || undefined
+    ])));
+}
+/**
+ * The series for the range with its totals; partnerId limits it to one partner's users and
+ * ledger, currency limits revenue to one currency.
+ */ export async function fetchStatsTimeSeries(supabase: SupabaseClient, range: StatsRange, options: {
+  partnerId?: string;
+  currency?: string;
+} = {}) {
+  const { data, error } = await supabase.rpc("crm_stats_time_series", {
+    p_from: range.from.toISOString(),
+    p_to: range.to.toISOString(),
+    p_granularity: range.granularity,
+    p_timezone: range.timezone,
+    p_partner_id: options.partnerId ?? null,
+    p_currency: options.currency ?? null
+  });
+  if (error) {
+    throw new Error(`Failed to fetch stats time series: ${error.message}`);
+  }
+  const buckets = (data || []).map((row: Record<string, unknown>)=>({
+      period_start: new Date(row.period_start as string).toISOString(),
+      signups: Number(row.signups),
+      conversions: Number(row.conversions),
+      revenue: Number(Number(row.revenue).toFixed(2)),
+      commission: Number(Number(row.commission).toFixed(2))
+    }));
+  const total = (field: "signups" | "conversions" | "revenue" | "commission")=>buckets.reduce((sum: number, b: Record<string, number>)=>sum + b[field], 0);
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    granularity: range.granularity,
+    timezone: range.timezone,
+    totals: {
+      signups: total("signups"),
+      conversions: total("conversions"),
+      revenue: Number(total("revenue").toFixed(2)),
+      commission: Number(total("commission").toFixed(2))
+    },
+    buckets
+  };
+}
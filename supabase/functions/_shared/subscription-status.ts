@@ -0,0 +1,65 @@
+/**
+ * Canonical lifecycle of crm_user_metadata.subscription_status.
+ * Mirrors the CHECK constraint and crm_prevent_invalid_status_transition
+ * defined in supabase/migrations/00009_subscription_status.sql.
+ */
+export enum SubscriptionStatus {
+  Trial = "trial",
+  Active = "active",
+  PastDue = "past_due",
+  Cancelled = "cancelled",
+  Expired = "expired",
+  Refunded = "refunded"
+}
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = Object.values(SubscriptionStatus);
+/**
+ * Statuses that keep access open until subscription_ends_at passes
+ */ export const ACCESS_GRANTING_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.Trial,
+  SubscriptionStatus.Active,
+  SubscriptionStatus.PastDue,
+  SubscriptionStatus.Cancelled
+];
+/**
+ * Allowed transitions (from -> to), enforced in Postgres by crm_prevent_invalid_status_transition
+ */ export const SUBSCRIPTION_STATUS_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  [SubscriptionStatus.Trial]: [
+    SubscriptionStatus.Active,
+    SubscriptionStatus.PastDue,
+    SubscriptionStatus.Cancelled,
+    SubscriptionStatus.Expired
+  ],
+  [SubscriptionStatus.Active]: [
+    SubscriptionStatus.PastDue,
+    SubscriptionStatus.Cancelled,
+    SubscriptionStatus.Expired,
+    SubscriptionStatus.Refunded
+  ],
+  [SubscriptionStatus.PastDue]: [
+    SubscriptionStatus.Active,
+    SubscriptionStatus.Cancelled,
+    SubscriptionStatus.Expired,
+    SubscriptionStatus.Refunded
+  ],
+  [SubscriptionStatus.Cancelled]: [
+    SubscriptionStatus.Active,
+    SubscriptionStatus.Expired,
+    SubscriptionStatus.Refunded
+  ],
+  [SubscriptionStatus.Expired]: [
+    SubscriptionStatus.Active,
+    SubscriptionStatus.Trial,
+    SubscriptionStatus.Refunded
+  ],
+  [SubscriptionStatus.Refunded]: [
+    SubscriptionStatus.Active
+  ]
+};
+export function isSubscriptionStatus(value: unknown): value is SubscriptionStatus {
+  return typeof value === "string" && (SUBSCRIPTION_STATUSES as string[]).includes(value);
+}
+/**
+ * Statuses a row may currently hold for an update to `target` to pass the transition trigger
+ */ export function statusesAllowingTransitionTo(target: SubscriptionStatus): SubscriptionStatus[] {
+  return SUBSCRIPTION_STATUSES.filter((status)=>status === target || SUBSCRIPTION_STATUS_TRANSITIONS[status].includes(target));
+}
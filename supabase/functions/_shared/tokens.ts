@@ -0,0 +1,99 @@
+import { SignJWT } from "https://esm.sh/jose@4.14.4";
+import { getRequestContext } from "./audit.ts";
+import { loadAdminPermissions } from "./permissions.ts";
+import { createSession } from "./session.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+/**
+ * Access/refresh token issuance shared by crm_custom-login and crm_refresh-token.
+ * Access tokens are short-lived HS256 JWTs backed by a crm_session row; refresh tokens are
+ * opaque random strings stored only as SHA-256 hashes in crm_refresh_token
+ * (supabase/migrations/00014_refresh_tokens.sql).
+ */ export const ACCESS_TOKEN_TTL_SECONDS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_ACCESS_TOKEN_TTL_SECONDS") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 15 * 60;
+})();
+export const REFRESH_TOKEN_TTL_DAYS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_REFRESH_TOKEN_TTL_DAYS") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 30;
+})();
+export type PrincipalRole = "admin" | "partner";
+export function getJWTSecret() {
+  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
+  if (!secret) throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
+  return new TextEncoder().encode(secret);
+}
+export function tokenKeyForRole(role: PrincipalRole) {
+  return role === "admin" ? "Admin-Token" : "Partner-Token";
+}
+/**
+ * Hex SHA-256 of a refresh token; the raw token is never stored
+ */ export async function hashRefreshToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b)=>b.toString(16).padStart(2, "0")).join("");
+}
+function generateRefreshToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+/**
+ * Signs an access token, records its session and stores a new refresh token in the family.
+ * Pass familyId when rotating; a login starts a new family. Admin tokens also carry the
+ * admin's role and permissions as they are at issue time.
+ */ export async function issueTokens(supabase: SupabaseClient, req: Request, principal: {
+  id: string;
+  role: PrincipalRole;
+  familyId?: string;
+}) {
+  const familyId = principal.familyId ?? crypto.randomUUID();
+  const jti = crypto.randomUUID();
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const accessExpiresAt = issuedAt + ACCESS_TOKEN_TTL_SECONDS;
+  const claims: Record<string, unknown> = {
+    sub: principal.id,
+    role: principal.role,
+    jti
+  };
+  if (principal.role === "admin") {
+    const { adminRole, permissions } = await loadAdminPermissions(supabase, principal.id);
+    claims.admin_role = adminRole;
+    claims.permissions = permissions;
+  }
+  const accessToken = await new SignJWT(claims).setProtectedHeader({
+    alg: "HS256"
+  }).setIssuedAt(issuedAt).setIssuer(Deno.env.get("CRM_JWT_ISSUER") ?? "fxlabsprimecrm").setAudience(Deno.env.get("CRM_JWT_AUDIENCE") ?? "fxlabsprimecrm-clients").setExpirationTime(accessExpiresAt).sign(getJWTSecret());
+  const requestContext = getRequestContext(req);
+  await createSession(supabase, {
+    jti,
+    principalId: principal.id,
+    principalRole: principal.role,
+    familyId,
+    expiresAt: new Date(accessExpiresAt * 1000),
+    ipAddress: requestContext.ip_address,
+    userAgent: requestContext.user_agent
+  });
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const { data: refreshRow, error } = await supabase.from("crm_refresh_token").insert({
+    family_id: familyId,
+    token_hash: await hashRefreshToken(refreshToken),
+    principal_id: principal.id,
+    principal_role: principal.role,
+    session_jti: jti,
+    expires_at: refreshExpiresAt.toISOString(),
+    ip_address: requestContext.ip_address,
+    user_agent: requestContext.user_agent
+  }).select("id").single();
+  if (error) {
+    throw new Error(`Failed to store refresh token: ${error.message}`);
+  }
+  return {
+    refreshTokenId: refreshRow.id,
+    body: {
+      [tokenKeyForRole(principal.role)]: accessToken,
+      refresh_token: refreshToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_expires_at: refreshExpiresAt.toISOString()
+    }
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30 s steps), compatible with Google Authenticator,
+ * 1Password, Authy and similar apps.
+ */ const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+export function base32Encode(bytes: Uint8Array) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes){
+    value = value << 8 | byte;
+    bits += 8;
+    while(bits >= 5){
+      output += BASE32_ALPHABET[value >>> bits - 5 & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[value << 5 - bits & 31];
+  }
+  return output;
+}
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of clean){
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = value << 5 | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push(value >>> bits - 8 & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+}
+/**
+ * New 160-bit secret, base32 encoded
+ */ export function generateTotpSecret() {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+async function hotp(secret: Uint8Array, counter: number) {
+  const counterBytes = new Uint8Array(8);
+  let c = counter;
+  for(let i = 7; i >= 0; i--){
+    counterBytes[i] = c & 255;
+    c = Math.floor(c / 256);
+  }
+  const key = await crypto.subtle.importKey("raw", secret, {
+    name: "HMAC",
+    hash: "SHA-1"
+  }, false, [
+    "sign"
+  ]);
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counterBytes));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = (hmac[offset] & 127) << 24 | hmac[offset + 1] << 16 | hmac[offset + 2] << 8 | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for(let i = 0; i < a.length; i++){
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+/**
+ * Returns the matching time step (for replay protection) or null.
+ * `window` steps of clock drift are accepted either side of now.
+ */ export async function verifyTotp(secretBase32: string, code: string, window = 1, now = Date.now()) {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+  const secret = base32Decode(secretBase32);
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for(let offset = -window; offset <= window; offset++){
+    const step = currentStep + offset;
+    if (timingSafeEqual(await hotp(secret, step), normalized)) {
+      return step;
+    }
+  }
+  return null;
+}
+/**
+ * otpauth:// provisioning URI, rendered as a QR code by the client
+ */ export function buildOtpAuthUri(secretBase32: string, accountName: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: secretBase32,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { compareSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { hashPassword, passwordPolicyIssues, verifyPasswordChangeToken } from "../_shared/password.ts";
+import { issueTokens } from "../_shared/tokens.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema
+const changePasswordSchema = z.object({
+  current_password: z.string().min(1, "current_password is required"),
+  new_password: z.string().min(1, "new_password is required")
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Signed-in admin/partner, or a forced change straight after login (Password-Change-Token)
+    let principal;
+    const changeToken = req.headers.get("Password-Change-Token");
+    if (changeToken) {
+      principal = await verifyPasswordChangeToken(changeToken);
+      if (!principal) {
+        return createErrorResponse("Invalid or expired token", 401, "INVALID_TOKEN", [], corsHeaders);
+      }
+    } else {
+      if (!req.headers.get("Admin-Token") && !req.headers.get("Partner-Token")) {
+        return createErrorResponse("Admin-Token, Partner-Token or Password-Change-Token header required", 401, "UNAUTHORIZED", [], corsHeaders);
+      }
+      const auth = await authenticate(req, {
+        roles: [
+          "admin",
+          "partner"
+        ]
+      });
+      if ("error" in auth) {
+        return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+      }
+      principal = auth.principal;
+    }
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = changePasswordSchema.parse(body);
+    const tableName = principal.role === "admin" ? "crm_admin" : "crm_partner";
+    const selectColumns = principal.role === "admin" ? "id, email, password_hash, must_change_password" : "id, email, password_hash, must_change_password, is_active";
+    const { data: account, error: fetchError } = await supabase.from(tableName).select(selectColumns).eq("id", principal.id).maybeSingle();
+    if (fetchError) {
+      console.error("Error fetching account:", fetchError.message);
+      return createErrorResponse("Failed to fetch account", 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    if (!account) {
+      return createErrorResponse("Account not found", 404, "ACCOUNT_NOT_FOUND", [], corsHeaders);
+    }
+    if (principal.role === "partner" && !account.is_active) {
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    if (!compareSync(validated.current_password, account.password_hash)) {
+      return createErrorResponse("Current password is incorrect", 403, "INVALID_CURRENT_PASSWORD", [], corsHeaders);
+    }
+    if (validated.new_password === validated.current_password) {
+      return createErrorResponse("New password must differ from the current password", 400, "PASSWORD_UNCHANGED", [], corsHeaders);
+    }
+    const issues = passwordPolicyIssues(validated.new_password, account.email);
+    if (issues.length > 0) {
+      return createErrorResponse("New password does not meet the password policy", 400, "WEAK_PASSWORD", issues.map((message)=>({
+          field: "new_password",
+          message
+        })), corsHeaders);
+    }
+    // Changing password_hash revokes every session and refresh token (00013_sessions.sql)
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase.from(tableName).update({
+      password_hash: hashPassword(validated.new_password),
+      must_change_password: false,
+      password_changed_at: now,
+      updated_at: now
+    }).eq("id", principal.id);
+    if (updateError) {
+      console.error("Password update failed:", updateError.message);
+      return createErrorResponse("Failed to update password", 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, {
+      id: principal.id,
+      role: principal.role
+    }, {
+      action: `${principal.role}.password_change`,
+      targetType: principal.role,
+      targetId: principal.id,
+      metadata: {
+        forced: account.must_change_password
+      }
+    });
+    // The caller's own session was revoked too, so hand out a fresh one
+    const { body: tokens } = await issueTokens(supabase, req, principal);
+    return new Response(JSON.stringify({
+      message: "Password changed successfully",
+      ...tokens
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
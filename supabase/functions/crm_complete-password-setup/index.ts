@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { recordAuditLog } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { hashPassword, passwordPolicyIssues } from "../_shared/password.ts";
+import { hashPasswordToken } from "../_shared/password-token.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema
+const completeSetupSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  new_password: z.string().min(1, "new_password is required")
+});
+const PRINCIPAL_TABLES = {
+  admin: "crm_admin",
+  partner: "crm_partner"
+};
+/**
+ * Email of the account the token belongs to (null when it no longer exists)
+ */ async function fetchPrincipalEmail(role, id) {
+  if (role === "user") {
+    const { data } = await supabase.from("crm_user_metadata").select("email").eq("user_id", id).maybeSingle();
+    return data?.email ?? null;
+  }
+  const { data } = await supabase.from(PRINCIPAL_TABLES[role]).select("email").eq("id", id).maybeSingle();
+  return data?.email ?? null;
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ],
+    allowSiteOrigins: true
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = completeSetupSchema.parse(body);
+    const tokenHash = await hashPasswordToken(validated.token);
+    // Look the token up first so a rejected password does not burn the link
+    const { data: pending, error: lookupError } = await supabase.from("crm_password_token").select("principal_id, principal_role").eq("token_hash", tokenHash).is("used_at", null).is("revoked_at", null).gt("expires_at", new Date().toISOString()).maybeSingle();
+    if (lookupError) {
+      console.error("Error looking up password token:", lookupError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    if (!pending) {
+      return createErrorResponse("This link is invalid or has expired", 400, "INVALID_OR_EXPIRED_TOKEN", [], corsHeaders);
+    }
+    const email = await fetchPrincipalEmail(pending.principal_role, pending.principal_id);
+    if (!email) {
+      return createErrorResponse("This link is invalid or has expired", 400, "INVALID_OR_EXPIRED_TOKEN", [], corsHeaders);
+    }
+    const issues = passwordPolicyIssues(validated.new_password, email);
+    if (issues.length > 0) {
+      return createErrorResponse("New password does not meet the password policy", 400, "WEAK_PASSWORD", issues.map((message)=>({
+          field: "new_password",
+          message
+        })), corsHeaders);
+    }
+    // Redeem atomically; a concurrent request may have used it in the meantime
+    const { data: consumed, error: consumeError } = await supabase.rpc("crm_consume_password_token", {
+      p_token_hash: tokenHash
+    });
+    if (consumeError) {
+      console.error("Error consuming password token:", consumeError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    const token = consumed?.[0];
+    if (!token) {
+      return createErrorResponse("This link is invalid or has expired", 400, "INVALID_OR_EXPIRED_TOKEN", [], corsHeaders);
+    }
+    const now = new Date().toISOString();
+    if (token.principal_role === "user") {
+      const { error: updateError } = await supabase.auth.admin.updateUserById(token.principal_id, {
+        password: validated.new_password
+      });
+      if (updateError) {
+        console.error("Error setting user password:", updateError.message);
+        return createErrorResponse("Failed to set password", 500, "UPDATE_ERROR", [], corsHeaders);
+      }
+    } else {
+      // Changing password_hash also revokes any remaining sessions (00013_sessions.sql)
+      const { error: updateError } = await supabase.from(PRINCIPAL_TABLES[token.principal_role]).update({
+        password_hash: hashPassword(validated.new_password),
+        must_change_password: false,
+        password_changed_at: now,
+        updated_at: now
+      }).eq("id", token.principal_id);
+      if (updateError) {
+        console.error("Error setting password:", updateError.message);
+        return createErrorResponse("Failed to set password", 500, "UPDATE_ERROR", [], corsHeaders);
+      }
+    }
+    await recordAuditLog(supabase, req, {
+      id: token.principal_id,
+      role: token.principal_role
+    }, {
+      action: `${token.principal_role}.password_setup`,
+      targetType: token.principal_role,
+      targetId: token.principal_id,
+      metadata: {
+        purpose: token.purpose
+      }
+    });
+    return new Response(JSON.stringify({
+      message: "Password set successfully. You can now log in.",
+      email,
+      role: token.principal_role
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
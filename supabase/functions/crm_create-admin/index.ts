@@ -1,88 +1,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.22.4";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
+import { compareSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
 import {
-    genSaltSync,
-    hashSync,
-    compareSync,
-} from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+    createErrorResponse,
+    createPreflightResponse,
+    createUnexpectedErrorResponse,
+    getCorsHeaders,
+} from "../_shared/http.ts";
+import { hashPassword } from "../_shared/password.ts";
+import {
+    createPasswordToken,
+    generateUnusablePassword,
+    passwordTokenValidity,
+} from "../_shared/password-token.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // ========== SENDGRID CONFIGURATION ==========
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@yourdomain.com";
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "Your CRM Team";
-const LOGIN_URL = "https://crm.fxlabsprime.com/login/admin";
 // ============================================
-// Utility: Generate random 8-character alphanumeric password
-function generatePassword() {
-    const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
-    let password = "";
-    const array = new Uint8Array(8);
-    crypto.getRandomValues(array);
-    for (let i = 0; i < 8; i++) {
-        password += chars[array[i] % chars.length];
-    }
-    return password;
-}
-// Utility: Get JWT secret
-function getJWTSecret() {
-    const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-    if (!secret) {
-        throw new Error(
-            "CRM_CUSTOM_JWT_SECRET environment variable is not set"
-        );
-    }
-    return new TextEncoder().encode(secret);
-}
-// Utility: JWT Secret error
-function createJWTSecretErrorResponse() {
-    return new Response(
-        JSON.stringify({
-            error: "JWT secret configuration error",
-            code: "JWT_SECRET_ERROR",
-        }),
-        {
-            status: 500,
-            headers: {
-                "Content-Type": "application/json",
-            },
-        }
-    );
-}
-// Utility: Standard error response
-function createErrorResponse(message, status = 500, code = null, details = []) {
-    const errorResponse = {
-        error: message,
-    };
-    if (code) {
-        errorResponse.code = code;
-    }
-    if (details.length > 0) {
-        errorResponse.details = details;
-    }
-    return new Response(JSON.stringify(errorResponse), {
-        status,
-        headers: {
-            "Content-Type": "application/json",
-        },
-    });
-}
-// Utility: Zod validation errors
-function createValidationErrorResponse(zodError, status = 400) {
-    const details = zodError.issues.map((issue) => ({
-        field: issue.path.join("."),
-        message: issue.message,
-    }));
-    return createErrorResponse(
-        "Validation error",
-        status,
-        "VALIDATION_ERROR",
-        details
-    );
-}
 /**
  * Create email HTML template for admin
- */ function createEmailTemplate(email, password, fullName) {
+ */ function createEmailTemplate(email, setupUrl, fullName) {
     return `
 <!DOCTYPE html>
 <html>
@@ -136,18 +78,12 @@ function createValidationErrorResponse(zodError, status = 400) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f7fb; border:1px solid #e6e7ec; border-radius:8px; margin:16px 0;">
                   <tr>
                     <td style="padding:20px; font-size:14px; line-height:1.6;">
-                      <strong style="color:#111; font-size:15px;">Your Admin Login Credentials</strong>
+                      <strong style="color:#111; font-size:15px;">Your Admin Account</strong>
                       <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:12px;">
                         <tr>
                           <td style="padding:8px 0; color:#555; font-weight:600;">Email:</td>
                           <td style="padding:8px 0; color:#111;">${email}</td>
                         </tr>
-                        <tr>
-                          <td style="padding:8px 0; color:#555; font-weight:600;">Password:</td>
-                          <td style="padding:8px 0;">
-                            <span style="font-family: 'Courier New', monospace; background-color:#fff; padding:6px 12px; border-radius:4px; font-size:16px; font-weight:bold; color:#07c05c; letter-spacing:2px; border:1px solid #e6e7ec;">${password}</span>
-                          </td>
-                        </tr>
                       </table>
                     </td>
                   </tr>
@@ -155,8 +91,8 @@ function createValidationErrorResponse(zodError, status = 400) {
 
                 <!-- CTA -->
                 <p style="margin:20px 0 0; text-align:center;">
-                  <a href="${LOGIN_URL}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Login to FxLabs Prime Admin Portal">
-                    Login to Admin Portal
+                  <a href="${setupUrl}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Set your FxLabs Prime Admin Portal password">
+                    Set Your Password
                   </a>
                 </p>
 
@@ -164,7 +100,7 @@ function createValidationErrorResponse(zodError, status = 400) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff7e6; border:1px solid #ffd59e; border-radius:8px; margin:20px 0 0;">
                   <tr>
                     <td style="padding:14px 16px; font-size:14px; line-height:1.6; color:#663c00;">
-                      <strong>⚠️ Important:</strong> Please change your password after your first login for security purposes. Go to <strong>Your Profile</strong> and update your password immediately.
+                      <strong>⚠️ Important:</strong> This link works only once and expires in ${passwordTokenValidity("invite")}. Never share it with anyone.
                     </td>
                   </tr>
                 </table>
@@ -211,7 +147,7 @@ function createValidationErrorResponse(zodError, status = 400) {
 }
 /**
  * Send email via SendGrid with 1 retry
- */ async function sendEmail(email, password, fullName) {
+ */ async function sendEmail(email, setupUrl, fullName) {
     if (!SENDGRID_API_KEY) {
         console.error("❌ SendGrid API key not configured");
         return {
@@ -237,7 +173,7 @@ function createValidationErrorResponse(zodError, status = 400) {
         content: [
             {
                 type: "text/html",
-                value: createEmailTemplate(email, password, fullName),
+                value: createEmailTemplate(email, setupUrl, fullName),
             },
         ],
     };
@@ -305,37 +241,57 @@ const createAdminSchema = z.object({
     current_admin_password: z
         .string()
         .min(1, "Current admin password is required"),
+    admin_role: z.string().min(1, "admin_role cannot be empty").optional(),
 });
 serve(async (req) => {
+    // Get dynamic CORS headers based on request origin
+    const corsHeaders = getCorsHeaders(req, { methods: ["POST"] });
+    // Handle preflight (OPTIONS) request
+    if (req.method === "OPTIONS") {
+        return createPreflightResponse(corsHeaders);
+    }
     if (req.method !== "POST") {
-        return createErrorResponse("Method not allowed", 405);
+        return createErrorResponse(
+            "Method not allowed",
+            405,
+            "METHOD_NOT_ALLOWED",
+            [],
+            corsHeaders
+        );
     }
     try {
         // === 1. Validate Admin-Token ===
-        const adminToken = req.headers.get("Admin-Token");
-        if (!adminToken) {
-            return createErrorResponse("Admin-Token header required", 401);
-        }
-        let secret;
-        try {
-            secret = getJWTSecret();
-        } catch (error) {
-            return createJWTSecretErrorResponse();
+        const auth = await authenticate(req, { roles: ["admin"] });
+        if ("error" in auth) {
+            return createErrorResponse(
+                auth.error.message,
+                auth.error.status,
+                auth.error.code,
+                [],
+                corsHeaders
+            );
         }
-        const { payload } = await jwtVerify(adminToken, secret, {
-            algorithms: ["HS256"],
-            issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-            audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined,
-        });
-        if (payload.role !== "admin") {
-            return createErrorResponse("Admin access required", 403);
+        const { payload } = auth;
+        // Check the admin's role grants this action
+        const permissionError = checkPermission(payload, "admins:create");
+        if (permissionError) {
+            return createErrorResponse(
+                permissionError.message,
+                403,
+                permissionError.code,
+                [],
+                corsHeaders
+            );
         }
         // Get current admin's ID from JWT payload
         const currentAdminId = payload.sub;
         if (!currentAdminId) {
             return createErrorResponse(
                 "Invalid admin token: user ID not found",
-                401
+                401,
+                "UNAUTHORIZED",
+                [],
+                corsHeaders
             );
         }
         // === 2. Parse and validate request body ===
@@ -346,10 +302,42 @@ serve(async (req) => {
             return createErrorResponse(
                 "Invalid JSON in request body",
                 400,
-                "INVALID_JSON"
+                "INVALID_JSON",
+                [],
+                corsHeaders
             );
         }
         const validated = createAdminSchema.parse(body);
+        // Without admin_role the new admin gets the column default (read_only)
+        if (validated.admin_role) {
+            const rolePermissionError = checkPermission(
+                payload,
+                "admins:role:write"
+            );
+            if (rolePermissionError) {
+                return createErrorResponse(
+                    rolePermissionError.message,
+                    403,
+                    rolePermissionError.code,
+                    [],
+                    corsHeaders
+                );
+            }
+            const { data: role } = await supabase
+                .from("crm_role")
+                .select("key")
+                .eq("key", validated.admin_role)
+                .maybeSingle();
+            if (!role) {
+                return createErrorResponse(
+                    `Unknown admin role: ${validated.admin_role}`,
+                    400,
+                    "INVALID_ROLE",
+                    [],
+                    corsHeaders
+                );
+            }
+        }
         // === 3. Fetch and verify current admin's password ===
         const { data: currentAdmin, error: fetchError } = await supabase
             .from("crm_admin")
@@ -358,10 +346,22 @@ serve(async (req) => {
             .single();
         if (fetchError) {
             console.error("Database error fetching current admin:", fetchError);
-            return createErrorResponse("Database error occurred", 500);
+            return createErrorResponse(
+                "Database error occurred",
+                500,
+                "INTERNAL_ERROR",
+                [],
+                corsHeaders
+            );
         }
         if (!currentAdmin) {
-            return createErrorResponse("Current admin not found", 404);
+            return createErrorResponse(
+                "Current admin not found",
+                404,
+                "NOT_FOUND",
+                [],
+                corsHeaders
+            );
         }
         // Verify the current admin's password
         const isPasswordValid = compareSync(
@@ -371,7 +371,10 @@ serve(async (req) => {
         if (!isPasswordValid) {
             return createErrorResponse(
                 "Current admin password is incorrect",
-                403
+                403,
+                "FORBIDDEN",
+                [],
+                corsHeaders
             );
         }
         // === 4. Check if new admin email already exists ===
@@ -385,31 +388,35 @@ serve(async (req) => {
             console.error("Email check error:", checkError);
             return createErrorResponse(
                 "Failed to check email availability",
-                500
+                500,
+                "INTERNAL_ERROR",
+                [],
+                corsHeaders
             );
         }
         if (existing) {
             return createErrorResponse(
                 "Admin with this email already exists",
-                409
+                409,
+                "CONFLICT",
+                [],
+                corsHeaders
             );
         }
-        // === 5. Generate random password ===
-        const generatedPassword = generatePassword();
-        console.log(
-            `🔑 Generated password for ${normalizedEmail}: ${generatedPassword}`
-        );
-        // === 6. Hash password and insert ===
-        const salt = genSaltSync(12);
-        const passwordHash = hashSync(generatedPassword, salt);
+        // === 5. Throwaway password (the admin sets theirs via the invite link) ===
+        const passwordHash = hashPassword(generateUnusablePassword());
+        // === 6. Insert ===
         const { data: inserted, error: insertError } = await supabase
             .from("crm_admin")
             .insert({
                 email: normalizedEmail,
                 full_name: validated.full_name,
                 password_hash: passwordHash,
+                ...(validated.admin_role && {
+                    admin_role: validated.admin_role,
+                }),
             })
-            .select("email, full_name")
+            .select("id, email, full_name, admin_role")
             .single();
         if (insertError) {
             if (
@@ -420,15 +427,43 @@ serve(async (req) => {
                         insertError.message.toLowerCase().includes("key")))
             ) {
                 console.error("Email uniqueness violation:", insertError);
-                return createErrorResponse("Email already exists", 409);
+                return createErrorResponse(
+                    "Email already exists",
+                    409,
+                    "CONFLICT",
+                    [],
+                    corsHeaders
+                );
             }
             console.error("Insert error:", insertError);
-            return createErrorResponse("Failed to create admin", 500);
+            return createErrorResponse(
+                "Failed to create admin",
+                500,
+                "INTERNAL_ERROR",
+                [],
+                corsHeaders
+            );
         }
-        // === 7. Send welcome email ===
+        await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+            action: "admin.create",
+            targetType: "admin",
+            targetId: inserted.id,
+            changes: {
+                email: { from: null, to: inserted.email },
+                full_name: { from: null, to: inserted.full_name },
+                admin_role: { from: null, to: inserted.admin_role },
+            },
+        });
+        // === 7. Send welcome email with setup link ===
+        const { url: setupUrl } = await createPasswordToken(supabase, {
+            principalId: inserted.id,
+            role: "admin",
+            purpose: "invite",
+            createdBy: payload.sub,
+        });
         const emailResult = await sendEmail(
             normalizedEmail,
-            generatedPassword,
+            setupUrl,
             validated.full_name
         );
         if (!emailResult.success) {
@@ -440,6 +475,7 @@ serve(async (req) => {
         return new Response(
             JSON.stringify({
                 message: `Admin ${inserted.full_name} with Email - ${inserted.email} has been created successfully`,
+                admin_role: inserted.admin_role,
                 email_sent: emailResult.success,
                 email_error: emailResult.error || null,
             }),
@@ -447,20 +483,11 @@ serve(async (req) => {
                 status: 201,
                 headers: {
                     "Content-Type": "application/json",
+                    ...corsHeaders,
                 },
             }
         );
     } catch (error) {
-        if (error instanceof z.ZodError) {
-            return createValidationErrorResponse(error);
-        }
-        if (
-            error?.name === "JWTExpired" ||
-            error?.name === "JWSSignatureVerificationFailed"
-        ) {
-            return createErrorResponse("Invalid or expired Admin-Token", 401);
-        }
-        console.error("Unexpected error:", error);
-        return createErrorResponse("Internal server error", 500);
+        return createUnexpectedErrorResponse(error, corsHeaders);
     }
 });
@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Validation schema
+const createAdjustmentSchema = z.object({
+  partner_id: z.string().uuid("Invalid partner ID format"),
+  // Signed amount: positive credits the partner, negative debits them
+  amount: z.number().refine((amount)=>amount !== 0, {
+    message: "Amount must not be zero"
+  }).transform((amount)=>Math.round(amount * 100) / 100),
+  note: z.string().trim().min(1, "A note explaining the adjustment is required"),
+  reverses_entry_id: z.string().uuid("Invalid entry ID format").optional()
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "commissions:write");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = createAdjustmentSchema.parse(body);
+    // Verify the partner exists
+    const { data: partner, error: partnerError } = await supabase.from("crm_partner").select("id, full_name").eq("id", validated.partner_id).maybeSingle();
+    if (partnerError) {
+      console.error("Error fetching partner:", partnerError.message);
+      return createErrorResponse(`Failed to fetch partner: ${partnerError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    if (!partner) {
+      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND", [], corsHeaders);
+    }
+    // A reversing adjustment must point at one of this partner's entries
+    if (validated.reverses_entry_id) {
+      const { data: reversedEntry, error: entryError } = await supabase.from("crm_commission_entry").select("id, partner_id").eq("id", validated.reverses_entry_id).maybeSingle();
+      if (entryError) {
+        console.error("Error fetching commission entry:", entryError.message);
+        return createErrorResponse(`Failed to fetch commission entry: ${entryError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+      }
+      if (!reversedEntry || reversedEntry.partner_id !== validated.partner_id) {
+        return createErrorResponse("Commission entry not found for this partner", 404, "ENTRY_NOT_FOUND", [], corsHeaders);
+      }
+    }
+    // Post the adjustment; the ledger trigger updates crm_partner.total_revenue
+    const now = new Date().toISOString();
+    const { data: entry, error: insertError } = await supabase.from("crm_commission_entry").insert({
+      partner_id: validated.partner_id,
+      entry_type: "adjustment",
+      commission_amount: validated.amount,
+      status: "approved",
+      approved_at: now,
+      reverses_entry_id: validated.reverses_entry_id ?? null,
+      note: validated.note,
+      created_by: payload.sub
+    }).select("id, partner_id, entry_type, commission_amount, status, reverses_entry_id, note, created_at").single();
+    if (insertError) {
+      console.error("Error creating adjustment:", insertError.message);
+      return createErrorResponse(`Failed to create adjustment: ${insertError.message}`, 500, "INSERT_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "commission_entry.create",
+      targetType: "commission_entry",
+      targetId: entry.id,
+      changes: {
+        commission_amount: {
+          from: null,
+          to: entry.commission_amount
+        }
+      },
+      metadata: {
+        partner_id: validated.partner_id,
+        entry_type: "adjustment",
+        reverses_entry_id: validated.reverses_entry_id ?? null,
+        note: validated.note
+      }
+    });
+    console.log(`Commission adjustment of ${validated.amount} posted for partner ${validated.partner_id}`);
+    const { data: summary } = await supabase.from("crm_partner_commission_summary").select("total_commission, pending_commission, approved_commission, paid_commission").eq("partner_id", validated.partner_id).maybeSingle();
+    return new Response(JSON.stringify({
+      message: `Adjustment posted for ${partner.full_name ?? "partner"}`,
+      entry: {
+        ...entry,
+        commission_amount: Number(entry.commission_amount)
+      },
+      partner_totals: summary ? {
+        total_commission: Number(Number(summary.total_commission).toFixed(2)),
+        pending_commission: Number(Number(summary.pending_commission).toFixed(2)),
+        approved_commission: Number(Number(summary.approved_commission).toFixed(2)),
+        paid_commission: Number(Number(summary.paid_commission).toFixed(2))
+      } : null
+    }), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
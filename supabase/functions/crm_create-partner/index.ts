@@ -1,69 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.22.4";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
-import { genSaltSync, hashSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { hashPassword } from "../_shared/password.ts";
+import { createPasswordToken, generateUnusablePassword, passwordTokenValidity } from "../_shared/password-token.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // ========== SENDGRID CONFIGURATION ==========
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL");
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME");
-const LOGIN_URL = "https://crm.fxlabsprime.com/login/partner";
 // ============================================
-// Utility: Generate random 8-character alphanumeric password
-function generatePassword() {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
-  let password = '';
-  const array = new Uint8Array(8);
-  crypto.getRandomValues(array);
-  for(let i = 0; i < 8; i++){
-    password += chars[array[i] % chars.length];
-  }
-  return password;
-}
-// Utility: Get JWT secret
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-// Utility: JWT Secret error
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-// Utility: Standard error response
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-// Utility: Zod validation errors
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path.join("."),
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
 // Email Template
-function createEmailTemplate(email, password, fullName, slabs) {
+function createEmailTemplate(email, setupUrl, fullName, commissionSlabs) {
+  const { basis, slabs } = commissionSlabs;
+  const rangeLabel = basis === "revenue" ? "Revenue Range" : "Converted Users";
   // Format slabs into human-readable rows
   const formatRange = (from, to)=>{
     if (to === null) return `${from.toLocaleString()}+`;
@@ -130,18 +82,12 @@ function createEmailTemplate(email, password, fullName, slabs) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f7fb; border:1px solid #e6e7ec; border-radius:8px; margin:16px 0;">
                   <tr>
                     <td style="padding:20px; font-size:14px; line-height:1.6;">
-                      <strong style="color:#111; font-size:15px;">Your Partner Login Credentials</strong>
+                      <strong style="color:#111; font-size:15px;">Your Partner Account</strong>
                       <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:12px;">
                         <tr>
                           <td style="padding:8px 0; color:#555; font-weight:600;">Email:</td>
                           <td style="padding:8px 0; color:#111;">${email}</td>
                         </tr>
-                        <tr>
-                          <td style="padding:8px 0; color:#555; font-weight:600;">Password:</td>
-                          <td style="padding:8px 0;">
-                            <span style="font-family: 'Courier New', monospace; background-color:#fff; padding:6px 12px; border-radius:4px; font-size:16px; font-weight:bold; color:#07c05c; letter-spacing:2px; border:1px solid #e6e7ec;">${password}</span>
-                          </td>
-                        </tr>
                       </table>
                     </td>
                   </tr>
@@ -154,7 +100,7 @@ function createEmailTemplate(email, password, fullName, slabs) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff; border:1px solid #e6e7ec; border-radius:8px; margin-bottom:20px; overflow:hidden;">
                   <thead>
                     <tr style="background:#f6f7fb;">
-                      <th style="padding:12px; text-align:left; font-weight:600; color:#111; font-size:14px;">Revenue Range</th>
+                      <th style="padding:12px; text-align:left; font-weight:600; color:#111; font-size:14px;">${rangeLabel}</th>
                       <th style="padding:12px; text-align:right; font-weight:600; color:#111; font-size:14px;">Commission</th>
                     </tr>
                   </thead>
@@ -165,8 +111,8 @@ function createEmailTemplate(email, password, fullName, slabs) {
 
                 <!-- CTA -->
                 <p style="margin:20px 0 0; text-align:center;">
-                  <a href="${LOGIN_URL}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Login to FxLabs Prime Partner Portal">
-                    Login to Partner Portal
+                  <a href="${setupUrl}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Set your FxLabs Prime Partner Portal password">
+                    Set Your Password
                   </a>
                 </p>
 
@@ -174,7 +120,7 @@ function createEmailTemplate(email, password, fullName, slabs) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff7e6; border:1px solid #ffd59e; border-radius:8px; margin:20px 0 0;">
                   <tr>
                     <td style="padding:14px 16px; font-size:14px; line-height:1.6; color:#663c00;">
-                      <strong>Warning: Important:</strong> Please change your password after your first login for security.
+                      <strong>Warning: Important:</strong> This link works only once and expires in ${passwordTokenValidity("invite")}. Never share it with anyone.
                     </td>
                   </tr>
                 </table>
@@ -211,7 +157,7 @@ function createEmailTemplate(email, password, fullName, slabs) {
   `.trim();
 }
 // Send email via SendGrid with retry
-async function sendEmail(email, password, fullName, slabs) {
+async function sendEmail(email, setupUrl, fullName, commissionSlabs) {
   if (!SENDGRID_API_KEY) {
     console.error("SendGrid API key not configured");
     return {
@@ -237,7 +183,7 @@ async function sendEmail(email, password, fullName, slabs) {
     content: [
       {
         type: "text/html",
-        value: createEmailTemplate(email, password, fullName, slabs)
+        value: createEmailTemplate(email, setupUrl, fullName, commissionSlabs)
       }
     ]
   };
@@ -295,6 +241,15 @@ const CommissionSlabSchema = z.object({
   }
 });
 const CommissionSlabsSchema = z.object({
+  // What the slab ranges count: the partner's converted users or their referred revenue
+  basis: z.enum([
+    "conversions",
+    "revenue"
+  ], {
+    errorMap: ()=>({
+        message: "basis must be 'conversions' or 'revenue'"
+      })
+  }).optional().default("conversions"),
   slabs: z.array(CommissionSlabSchema).min(1, "At least one commission slab is required").refine((slabs)=>slabs[0].from === 0, {
     message: "First slab must start at from: 0"
   }).refine((slabs)=>{
@@ -327,6 +282,7 @@ const createPartnerSchema = z.object({
   full_name: z.string().min(1, "Full name is required"),
   email: z.string().email("Invalid email format").regex(/^[^@]+@[^@]+\.[^@]+$/, "Invalid email format"),
   commission_slabs: CommissionSlabsSchema.optional().default({
+    basis: "conversions",
     slabs: [
       {
         from: 0,
@@ -334,76 +290,129 @@ const createPartnerSchema = z.object({
         commission: 2
       }
     ]
-  })
+  }),
+  // Sub-partner of an existing partner, who earns parent_override_percent of this partner's commissionable payments
+  parent_partner_id: z.string().uuid("Invalid parent partner ID format").optional(),
+  parent_override_percent: z.number().min(0, "Override percent must be non-negative").max(100, "Override percent cannot exceed 100").optional()
+}).refine((data)=>data.parent_override_percent === undefined || data.parent_partner_id, {
+  message: "parent_override_percent requires parent_partner_id",
+  path: [
+    "parent_override_percent"
+  ]
 });
 // === Main Handler ===
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "POST") {
-    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // === 1. Admin Auth ===
-    const adminToken = req.headers.get("Admin-Token") ?? req.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401, "UNAUTHORIZED");
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch  {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403, "FORBIDDEN");
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "partners:create");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // === 2. Parse & Validate Body ===
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const parsed = createPartnerSchema.safeParse(body);
     if (!parsed.success) {
-      return createValidationErrorResponse(parsed.error);
+      return createValidationErrorResponse(parsed.error, corsHeaders);
     }
-    const { full_name, email: rawEmail, commission_slabs } = parsed.data;
+    const { full_name, email: rawEmail, commission_slabs, parent_partner_id, parent_override_percent } = parsed.data;
     // === 3. Normalize & Check Duplicate ===
     const email = rawEmail.trim().toLowerCase();
     const { data: existing } = await supabase.from("crm_partner").select("id").eq("email", email).maybeSingle();
     if (existing) {
-      return createErrorResponse("Partner with this email already exists", 409, "DUPLICATE_EMAIL");
+      return createErrorResponse("Partner with this email already exists", 409, "DUPLICATE_EMAIL", [], corsHeaders);
+    }
+    if (parent_partner_id) {
+      const { data: parent, error: parentError } = await supabase.from("crm_partner").select("id, is_active").eq("id", parent_partner_id).maybeSingle();
+      if (parentError) {
+        console.error("Parent partner lookup error:", parentError);
+        return createErrorResponse("Failed to fetch parent partner", 500, "FETCH_ERROR", [], corsHeaders);
+      }
+      if (!parent || !parent.is_active) {
+        return createErrorResponse("Parent partner not found or inactive", 404, "PARENT_PARTNER_NOT_FOUND", [], corsHeaders);
+      }
     }
-    // === 4. Generate & Hash Password ===
-    const generatedPassword = generatePassword();
-    console.log(`Generated password for ${email}: ${generatedPassword}`);
-    const cost = Number.parseInt(Deno.env.get("BCRYPT_COST") ?? "12", 10) || 12;
-    const salt = genSaltSync(cost);
-    const passwordHash = hashSync(generatedPassword, salt);
+    // === 4. Throwaway Password (the partner sets theirs via the invite link) ===
+    const passwordHash = hashPassword(generateUnusablePassword());
     // === 5. Insert Partner ===
     const { data: inserted, error: insertError } = await supabase.from("crm_partner").insert({
       email,
       full_name,
       password_hash: passwordHash,
       commission_slabs: commission_slabs,
+      parent_partner_id: parent_partner_id ?? null,
+      parent_override_percent: parent_override_percent ?? 0,
       is_active: true
-    }).select("email, full_name").single();
+    }).select("id, email, full_name").single();
     if (insertError) {
       console.error("Insert error:", insertError);
       if (insertError.code === "23505") {
-        return createErrorResponse("Partner with this email already exists", 409, "DUPLICATE_EMAIL");
+        return createErrorResponse("Partner with this email already exists", 409, "DUPLICATE_EMAIL", [], corsHeaders);
       }
-      return createErrorResponse("Failed to create partner", 500, "DB_INSERT_FAILED");
+      return createErrorResponse("Failed to create partner", 500, "DB_INSERT_FAILED", [], corsHeaders);
     }
-    // === 6. Send Welcome Email ===
-    const emailResult = await sendEmail(email, generatedPassword, full_name, commission_slabs.slabs);
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "partner.create",
+      targetType: "partner",
+      targetId: inserted.id,
+      changes: {
+        email: {
+          from: null,
+          to: inserted.email
+        },
+        full_name: {
+          from: null,
+          to: inserted.full_name
+        },
+        commission_slabs: {
+          from: null,
+          to: commission_slabs
+        },
+        parent_partner_id: {
+          from: null,
+          to: parent_partner_id ?? null
+        },
+        parent_override_percent: {
+          from: null,
+          to: parent_override_percent ?? 0
+        }
+      }
+    });
+    // === 6. Send Welcome Email with Setup Link ===
+    const { url: setupUrl } = await createPasswordToken(supabase, {
+      principalId: inserted.id,
+      role: "partner",
+      purpose: "invite",
+      createdBy: payload.sub
+    });
+    const emailResult = await sendEmail(email, setupUrl, full_name, commission_slabs);
     if (!emailResult.success) {
       console.warn(`Partner created but email failed: ${emailResult.error}`);
     }
@@ -415,17 +424,11 @@ serve(async (req)=>{
     }), {
       status: 201,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    console.error("Unexpected error:", error);
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired Admin-Token", 401, "INVALID_TOKEN");
-    }
-    return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR");
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
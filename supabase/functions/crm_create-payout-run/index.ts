@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Minimum approved balance a partner needs before they are included in a run
+const DEFAULT_MINIMUM_PAYOUT = (()=>{
+  const n = parseFloat(Deno.env.get("CRM_MIN_PAYOUT_AMOUNT") ?? "");
+  return Number.isFinite(n) && n >= 0 ? n : 50;
+})();
+// Days a commission stays pending (refundable) before a run may approve and pay it
+const COMMISSION_HOLD_DAYS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_COMMISSION_HOLD_DAYS") ?? "");
+  return Number.isFinite(n) && n >= 0 ? n : 30;
+})();
+// Validation schema
+const createPayoutRunSchema = z.object({
+  period_start: z.string().datetime("Invalid datetime format"),
+  period_end: z.string().datetime("Invalid datetime format"),
+  minimum_payout: z.number().min(0, "minimum_payout must be non-negative").optional().default(DEFAULT_MINIMUM_PAYOUT),
+  note: z.string().trim().min(1).optional()
+}).refine((data)=>new Date(data.period_end) > new Date(data.period_start), {
+  message: "period_end must be after period_start",
+  path: [
+    "period_end"
+  ]
+}).refine((data)=>new Date(data.period_end) <= new Date(), {
+  message: "period_end cannot be in the future",
+  path: [
+    "period_end"
+  ]
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "payouts:write");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = createPayoutRunSchema.parse(body);
+    console.log(`Creating payout run for ${validated.period_start} - ${validated.period_end} (minimum ${validated.minimum_payout})`);
+    // Approve, gather, threshold, settle and write statements in one transaction
+    const { data: runId, error: runError } = await supabase.rpc("crm_create_payout_run", {
+      p_period_start: validated.period_start,
+      p_period_end: validated.period_end,
+      p_minimum_payout: validated.minimum_payout,
+      p_created_by: payload.sub,
+      p_note: validated.note ?? null,
+      p_hold_days: COMMISSION_HOLD_DAYS
+    });
+    if (runError) {
+      console.error("Payout run error:", runError.message);
+      return createErrorResponse(`Failed to create payout run: ${runError.message}`, 500, "PAYOUT_RUN_ERROR", [], corsHeaders);
+    }
+    const { data: run, error: fetchError } = await supabase.from("crm_payout_run").select("id, period_start, period_end, minimum_payout, partner_count, total_amount, note, created_at").eq("id", runId).single();
+    if (fetchError) {
+      console.error("Error fetching payout run:", fetchError.message);
+      return createErrorResponse(`Failed to fetch payout run: ${fetchError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    const { data: payouts, error: payoutsError } = await supabase.from("crm_payout").select("id, partner_id, amount, currency, entry_count, crm_partner:partner_id(email, full_name)").eq("payout_run_id", runId).order("amount", {
+      ascending: false
+    });
+    if (payoutsError) {
+      console.error("Error fetching payouts:", payoutsError.message);
+      return createErrorResponse(`Failed to fetch payouts: ${payoutsError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "payout_run.create",
+      targetType: "payout_run",
+      targetId: run.id,
+      metadata: {
+        period_start: run.period_start,
+        period_end: run.period_end,
+        minimum_payout: Number(run.minimum_payout),
+        partner_count: run.partner_count,
+        total_amount: Number(run.total_amount)
+      }
+    });
+    console.log(`Payout run ${run.id} created: ${run.partner_count} partner(s), total ${run.total_amount}`);
+    return new Response(JSON.stringify({
+      message: `Payout run created for ${run.partner_count} partner(s)`,
+      payout_run: {
+        ...run,
+        minimum_payout: Number(run.minimum_payout),
+        total_amount: Number(Number(run.total_amount).toFixed(2))
+      },
+      payouts: (payouts || []).map((p)=>({
+          payout_id: p.id,
+          partner_id: p.partner_id,
+          partner_email: p.crm_partner?.email ?? null,
+          partner_name: p.crm_partner?.full_name ?? null,
+          amount: Number(Number(p.amount).toFixed(2)),
+          currency: p.currency,
+          entry_count: p.entry_count
+        }))
+    }), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+import { referralCodeSchema, referralLink } from "../_shared/referrals.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+const MAX_CODES_PER_PARTNER = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MAX_REFERRAL_CODES_PER_PARTNER") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 20;
+})();
+// Validation schema; without a code one is generated
+const createReferralCodeSchema = z.object({
+  partner_id: z.string().uuid("Invalid partner ID format").optional(),
+  code: referralCodeSchema.optional(),
+  campaign: z.string().trim().min(1, "Campaign cannot be empty").max(100, "Campaign must be at most 100 characters").optional()
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token or Partner-Token
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always create their own codes; admins need their role to grant it
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "partners:update");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const parsed = createReferralCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(parsed.error, corsHeaders);
+    }
+    const validated = parsed.data;
+    if (payload.role === "partner" && validated.partner_id && validated.partner_id !== payload.sub) {
+      return createErrorResponse("Partners can only create their own referral codes", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    const partnerId = payload.role === "partner" ? payload.sub : validated.partner_id;
+    if (!partnerId) {
+      return createErrorResponse("partner_id is required", 400, "BAD_REQUEST", [], corsHeaders);
+    }
+    const { data: partner, error: partnerError } = await supabase.from("crm_partner").select("id, is_active").eq("id", partnerId).maybeSingle();
+    if (partnerError) {
+      console.error("Error fetching partner:", partnerError.message);
+      throw new Error("Failed to fetch partner");
+    }
+    if (!partner) {
+      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND", [], corsHeaders);
+    }
+    if (!partner.is_active) {
+      return createErrorResponse("Partner is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    const { count, error: countError } = await supabase.from("crm_referral_code").select("id", {
+      count: "exact",
+      head: true
+    }).eq("partner_id", partnerId);
+    if (countError) {
+      console.error("Error counting referral codes:", countError.message);
+      throw new Error("Failed to count referral codes");
+    }
+    if ((count ?? 0) >= MAX_CODES_PER_PARTNER) {
+      return createErrorResponse(`A partner can have at most ${MAX_CODES_PER_PARTNER} referral codes`, 409, "REFERRAL_CODE_LIMIT", [], corsHeaders);
+    }
+    let code = validated.code;
+    if (!code) {
+      const { data: generated, error: generateError } = await supabase.rpc("crm_generate_referral_code");
+      if (generateError || !generated) {
+        console.error("Error generating referral code:", generateError?.message);
+        throw new Error("Failed to generate referral code");
+      }
+      code = generated;
+    }
+    const { data: inserted, error: insertError } = await supabase.from("crm_referral_code").insert({
+      partner_id: partnerId,
+      code,
+      campaign: validated.campaign ?? null,
+      created_by: payload.sub
+    }).select("id, partner_id, code, campaign, is_active, created_at").single();
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return createErrorResponse("Referral code already exists", 409, "REFERRAL_CODE_EXISTS", [], corsHeaders);
+      }
+      console.error("Insert error:", insertError);
+      return createErrorResponse("Failed to create referral code", 500, "DB_INSERT_FAILED", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "referral_code.create",
+      targetType: "referral_code",
+      targetId: inserted.id,
+      changes: {
+        code: {
+          from: null,
+          to: inserted.code
+        },
+        campaign: {
+          from: null,
+          to: inserted.campaign
+        }
+      },
+      metadata: {
+        partner_id: partnerId
+      }
+    });
+    return new Response(JSON.stringify({
+      message: "Referral code created successfully",
+      referral_code: {
+        referral_code_id: inserted.id,
+        code: inserted.code,
+        link: referralLink(inserted.code),
+        campaign: inserted.campaign,
+        is_active: inserted.is_active,
+        partner_id: inserted.partner_id,
+        created_at: inserted.created_at
+      }
+    }), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
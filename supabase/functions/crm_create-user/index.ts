@@ -1,52 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { createPasswordToken, generateUnusablePassword, passwordTokenValidity } from "../_shared/password-token.ts";
+import { SubscriptionStatus } from "../_shared/subscription-status.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+import { recordAttributionEvent } from "../_shared/referrals.ts";
 // ========== SENDGRID CONFIGURATION ==========
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@yourdomain.com";
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "Your CRM Team";
-const LOGIN_URL = "https://fxlabsprime.com";
 // ============================================
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details?.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path?.join(".") || "",
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Configuration
 const rawTrial = Deno.env.get("CRM_DEFAULT_TRIAL_DAYS");
@@ -67,18 +33,10 @@ const createUserSchema = z.object({
   }),
   trial_days: z.number().int().min(1, "trial_days must be a positive integer").optional().default(DEFAULT_TRIAL_DAYS)
 });
-/**
- * Generate 8-digit alphanumeric password
- */ function generatePassword() {
-  const charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  const array = new Uint8Array(8);
-  crypto.getRandomValues(array);
-  return Array.from(array, (byte)=>charset[byte % charset.length]).join("");
-}
 /**
  * Create email HTML template
  */
-function createEmailTemplate(email, password, trialDays) {
+function createEmailTemplate(email, setupUrl, trialDays) {
   return `
 <!DOCTYPE html>
 <html>
@@ -135,18 +93,12 @@ function createEmailTemplate(email, password, trialDays) {
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff; border:2px solid #04af47; border-radius:12px; margin:16px 0; box-shadow:0 4px 8px rgba(0,0,0,0.1);">
                   <tr>
                     <td style="padding:24px; font-size:14px; line-height:1.6;">
-                      <strong style="color:#111; font-size:15px;">Your Login Credentials</strong>
+                      <strong style="color:#111; font-size:15px;">Your Account</strong>
                       <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:12px;">
                         <tr>
                           <td style="padding:8px 0; color:#555; font-weight:600;">Email:</td>
                           <td style="padding:8px 0; color:#111;">${email}</td>
                         </tr>
-                        <tr>
-                          <td style="padding:8px 0; color:#555; font-weight:600;">Password:</td>
-                          <td style="padding:8px 0;">
-                            <span style="font-family: 'Courier New', monospace; background-color:#fff; padding:6px 12px; border-radius:4px; font-size:16px; font-weight:bold; color:#07c05c; letter-spacing:2px; border:1px solid #e6e7ec;">${password}</span>
-                          </td>
-                        </tr>
                         <tr>
                           <td style="padding:8px 0; color:#555; font-weight:600;">Trial Period:</td>
                           <td style="padding:8px 0; color:#111;">${trialDays} days</td>
@@ -158,10 +110,13 @@ function createEmailTemplate(email, password, trialDays) {
 
                 <!-- CTA -->
                 <p style="margin:20px 0 0; text-align:center;">
-                  <a href="${LOGIN_URL}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Login to FxLabs Prime">
-                    Login to FxLabs Prime
+                  <a href="${setupUrl}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Set your FxLabs Prime password">
+                    Set Your Password
                   </a>
                 </p>
+                <p style="margin:12px 0 0; text-align:center; font-size:13px; color:#555;">
+                  This link works only once and expires in ${passwordTokenValidity("invite")}.
+                </p>
 
               </td>
             </tr>
@@ -193,7 +148,7 @@ function createEmailTemplate(email, password, trialDays) {
 }
 /**
  * Send email via SendGrid with 1 retry
- */ async function sendEmail(email, password, trialDays) {
+ */ async function sendEmail(email, setupUrl, trialDays) {
   if (!SENDGRID_API_KEY) {
     console.error("❌ SendGrid API key not configured");
     return {
@@ -219,7 +174,7 @@ function createEmailTemplate(email, password, trialDays) {
     content: [
       {
         type: "text/html",
-        value: createEmailTemplate(email, password, trialDays)
+        value: createEmailTemplate(email, setupUrl, trialDays)
       }
     ]
   };
@@ -273,13 +228,12 @@ function createEmailTemplate(email, password, trialDays) {
   };
 }
 /**
- * Atomically create user and send email
- */ async function createUserAtomically(email, normalizedEmail, region, partnerId, subscriptionEndsAt, trialDays) {
+ * Atomically create user and send email. An existing email keeps the partner it is attributed to.
+ */ async function createUserAtomically(email, normalizedEmail, region, partnerId, subscriptionEndsAt, trialDays, actor) {
   let authUserId = null;
-  let tempPassword = null;
   try {
     // Check if email already exists
-    const { data: existingMeta, error: metaCheckError } = await supabase.from("crm_user_metadata").select("email, user_id").eq("email", normalizedEmail).maybeSingle();
+    const { data: existingMeta, error: metaCheckError } = await supabase.from("crm_user_metadata").select("email, user_id, crm_partner_id").eq("email", normalizedEmail).maybeSingle();
     if (metaCheckError) {
       console.error(`❌ Error checking existing user ${email}:`, metaCheckError.message);
       return {
@@ -289,19 +243,30 @@ function createEmailTemplate(email, password, trialDays) {
     }
     if (existingMeta) {
       console.log(`⚠️ Email already exists: ${email}`);
+      // A partner cannot take over a user by adding their email again; only an admin can reassign.
+      // The caller gets the same answer either way, so it does not reveal another partner's users.
+      if (partnerId && existingMeta.crm_partner_id !== partnerId) {
+        await recordAttributionEvent(supabase, {
+          eventType: "duplicate_rejected",
+          email: normalizedEmail,
+          userId: existingMeta.user_id,
+          partnerId,
+          previousPartnerId: existingMeta.crm_partner_id,
+          actor,
+          reason: existingMeta.crm_partner_id ? "Email already attributed to another partner" : "Email already registered"
+        });
+      }
       return {
         success: false,
+        existing: true,
         reason: "User already exists"
       };
     }
-    // Generate 8-digit alphanumeric password
-    tempPassword = generatePassword();
-    console.log(`🔑 Generated password for ${email}: ${tempPassword}`);
-    // Create auth user with password
+    // Create auth user with a throwaway password; the user sets theirs via the invite link
     console.log(`👤 Creating auth user: ${email}`);
     const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
       email,
-      password: tempPassword,
+      password: generateUnusablePassword(),
       email_confirm: true
     });
     if (authError || !authUser?.user) {
@@ -319,7 +284,7 @@ function createEmailTemplate(email, password, trialDays) {
       email: normalizedEmail,
       region: region,
       crm_partner_id: partnerId,
-      subscription_status: "trial",
+      subscription_status: SubscriptionStatus.Trial,
       subscription_ends_at: subscriptionEndsAt,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
@@ -333,14 +298,37 @@ function createEmailTemplate(email, password, trialDays) {
       throw new Error("Metadata creation returned no data");
     }
     console.log(`✅ Metadata created for ${email}`);
-    // Send welcome email
-    const emailResult = await sendEmail(email, tempPassword, trialDays);
+    // Send welcome email with a password setup link (the user already exists, so failures here are not rolled back)
+    let emailResult;
+    try {
+      const { url: setupUrl } = await createPasswordToken(supabase, {
+        principalId: authUserId,
+        role: "user",
+        purpose: "invite",
+        createdBy: actor.id
+      });
+      emailResult = await sendEmail(email, setupUrl, trialDays);
+    } catch (tokenError) {
+      console.error(`❌ Failed to issue setup link for ${email}:`, tokenError);
+      emailResult = {
+        success: false,
+        error: "Failed to issue password setup link"
+      };
+    }
     if (!emailResult.success) {
       console.warn(`⚠️ User created but email failed for ${email}: ${emailResult.error}`);
     }
+    await recordAttributionEvent(supabase, {
+      eventType: partnerId ? "partner_added" : "admin_added",
+      email: normalizedEmail,
+      userId: authUserId,
+      partnerId,
+      actor
+    });
     console.log(`✅ User creation complete for ${email}`);
     return {
       success: true,
+      userId: authUserId,
       email: metaData[0].email,
       emailSent: emailResult.success,
       emailError: emailResult.error
@@ -370,32 +358,37 @@ function createEmailTemplate(email, password, trialDays) {
   }
 }
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "POST") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token or Partner-Token
-    const adminToken = req.headers.get("Admin-Token");
-    const partnerToken = req.headers.get("Partner-Token");
-    if (!adminToken && !partnerToken) {
-      return createErrorResponse("Admin-Token or Partner-Token header required", 401);
-    }
-    const token = adminToken || partnerToken;
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(token, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
     });
-    if (payload.role !== "admin" && payload.role !== "partner") {
-      return createErrorResponse("Admin or Partner access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always create their own users; admins need their role to grant it
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "users:create");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
     }
     const partnerId = payload.role === "partner" ? payload.sub : null;
     // Parse and validate request body
@@ -403,7 +396,7 @@ serve(async (req)=>{
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = createUserSchema.parse(body);
     console.log(`\n📋 Processing ${validated.users.length} user(s)...`);
@@ -417,14 +410,40 @@ serve(async (req)=>{
       const { email } = userInput;
       const normalizedEmail = email.trim().toLowerCase();
       console.log(`\n--- Processing ${email} ---`);
-      const result = await createUserAtomically(email, normalizedEmail, validated.region, partnerId, subscriptionEndsAt, validated.trial_days);
+      const result = await createUserAtomically(email, normalizedEmail, validated.region, partnerId, subscriptionEndsAt, validated.trial_days, auditActorFromPayload(payload));
       if (result.success) {
+        await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+          action: "user.create",
+          targetType: "user",
+          targetId: result.userId,
+          changes: {
+            email: {
+              from: null,
+              to: result.email
+            },
+            region: {
+              from: null,
+              to: validated.region
+            },
+            crm_partner_id: {
+              from: null,
+              to: partnerId
+            },
+            subscription_ends_at: {
+              from: null,
+              to: subscriptionEndsAt
+            }
+          },
+          metadata: {
+            trial_days: validated.trial_days
+          }
+        });
         createdUsers.push({
           email: result.email,
           email_sent: result.emailSent,
           email_error: result.emailError || null
         });
-      } else if (result.reason === "User already exists") {
+      } else if (result.existing) {
         existingUsers.push({
           email,
           reason: result.reason
@@ -455,20 +474,11 @@ serve(async (req)=>{
     }), {
       status: statusCode,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("❌ Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -1,76 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.22.4";
-import { SignJWT } from "https://esm.sh/jose@4.14.4";
 import { compareSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
-// Allowed origins list
-const allowedOrigins = [
-  "https://fxlabsprime-crm-qa.netlify.app",
-  "https://fxlabsprime-crm-dev.netlify.app",
-  "https://crm.fxlabsprime.com"
-];
-// Base CORS headers (without origin)
-const baseCorsHeaders = {
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Max-Age": "86400",
-  "Access-Control-Allow-Credentials": "true"
-};
+import { getRequestContext } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkLoginLockout, progressiveDelay, recordLoginAttempt, retryAfterSeconds } from "../_shared/login-throttle.ts";
+import { MFA_CHALLENGE_TTL_SECONDS, signMfaChallenge } from "../_shared/mfa.ts";
+import { passwordChangeChallengeBody } from "../_shared/password.ts";
+import { getJWTSecret, issueTokens } from "../_shared/tokens.ts";
 // Dummy hash for timing attack prevention (bcrypt hash of random string)
 const DUMMY_HASH = "$2a$12$LQv3c1yqBWVHxkd0LHAkCOYz6TtxMQJqhN8/LewfBPj6fM9Kbq";
-// Utility: Get CORS headers with dynamic origin
-function getCorsHeaders(req) {
-  const origin = req.headers.get("Origin");
-  const isAllowedOrigin = origin && allowedOrigins.includes(origin);
-  return {
-    ...baseCorsHeaders,
-    ...isAllowedOrigin && {
-      "Access-Control-Allow-Origin": origin
-    }
-  };
-}
-// Utility: Get JWT secret
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  return new TextEncoder().encode(secret);
-}
-// Utility: JWT Secret error
-function createJWTSecretErrorResponse(corsHeaders) {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json",
-      ...corsHeaders
-    }
-  });
-}
-// Utility: Standard error response
-function createErrorResponse(message, status = 500, code = null, details = [], corsHeaders) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json",
-      ...corsHeaders
-    }
-  });
-}
-// Utility: Zod validation errors
-function createValidationErrorResponse(zodError, corsHeaders, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path.join("."),
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details, corsHeaders);
-}
 // Initialize Supabase client
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Define schema
@@ -88,16 +27,17 @@ const loginSchema = z.object({
 });
 serve(async (req)=>{
   // Get dynamic CORS headers based on request origin
-  const corsHeaders = getCorsHeaders(req);
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
   // Handle preflight (OPTIONS) request
   if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 204,
-      headers: corsHeaders
-    });
+    return createPreflightResponse(corsHeaders);
   }
   if (req.method !== "POST") {
-    return createErrorResponse("Method not allowed", 405, null, [], corsHeaders);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     let body;
@@ -107,37 +47,91 @@ serve(async (req)=>{
       return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = loginSchema.parse(body);
+    const email = validated.email.trim().toLowerCase();
+    const requestContext = getRequestContext(req);
+    // Brute-force protection: locked accounts/IPs get the same answer as a wrong password
+    const lockout = await checkLoginLockout(supabase, email, validated.role, requestContext.ip_address);
+    if (lockout.lockedUntil) {
+      compareSync(validated.password, DUMMY_HASH);
+      return createErrorResponse("Invalid credentials", 401, "INVALID_CREDENTIALS", [], {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(lockout.lockedUntil))
+      });
+    }
+    await progressiveDelay(lockout.emailFailures);
     const tableName = validated.role === "admin" ? "crm_admin" : "crm_partner";
-    const selectColumns = validated.role === "admin" ? "id, password_hash" : "id, password_hash, is_active";
-    const { data: user, error } = await supabase.from(tableName).select(selectColumns).eq("email", validated.email).single();
+    const selectColumns = validated.role === "admin" ? "id, password_hash, mfa_enabled, mfa_required, must_change_password" : "id, password_hash, is_active, mfa_enabled, mfa_required, must_change_password";
+    const { data: user, error } = await supabase.from(tableName).select(selectColumns).eq("email", email).single();
     // Always perform password verification for timing attack prevention
     const passwordHash = user?.password_hash || DUMMY_HASH;
     const isValidPassword = compareSync(validated.password, passwordHash);
-    if (error || !user || !isValidPassword) {
-      return createErrorResponse("Invalid credentials", 401, "INVALID_CREDENTIALS", [], corsHeaders);
+    const authenticated = !error && !!user && isValidPassword;
+    // With MFA enabled the success is recorded by crm_mfa-verify once the code passes, so a correct
+    // password does not reset the failures counted for wrong codes
+    let lockedUntil = null;
+    if (!authenticated || !user.mfa_enabled) {
+      lockedUntil = await recordLoginAttempt(supabase, {
+        email,
+        role: validated.role,
+        ipAddress: requestContext.ip_address,
+        userAgent: requestContext.user_agent,
+        success: authenticated
+      });
+    }
+    if (!authenticated) {
+      return createErrorResponse("Invalid credentials", 401, "INVALID_CREDENTIALS", [], lockedUntil ? {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(lockedUntil))
+      } : corsHeaders);
     }
     // Check partner status only after successful authentication
     if (validated.role === "partner" && !user.is_active) {
-      return createErrorResponse("Account is inactive", 403, null, [], corsHeaders);
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
     }
-    // Generate JWT
-    let secret;
     try {
-      secret = getJWTSecret();
+      getJWTSecret();
     } catch  {
-      return createJWTSecretErrorResponse(corsHeaders);
+      return createErrorResponse("JWT secret configuration error", 500, "JWT_SECRET_ERROR", [], corsHeaders);
+    }
+    // Second factor: exchange the challenge at crm_mfa-verify, or enrol first when an admin requires MFA
+    if (user.mfa_enabled || user.mfa_required) {
+      const mfaToken = await signMfaChallenge({
+        id: user.id,
+        role: validated.role,
+        purpose: user.mfa_enabled ? "verify" : "enroll"
+      });
+      return new Response(JSON.stringify({
+        mfa_required: true,
+        mfa_enrollment_required: !user.mfa_enabled,
+        mfa_token: mfaToken,
+        expires_in: MFA_CHALLENGE_TTL_SECONDS
+      }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      });
     }
-    const token = await new SignJWT({
-      sub: user.id,
-      role: validated.role,
-      jti: crypto.randomUUID()
-    }).setProtectedHeader({
-      alg: "HS256"
-    }).setIssuedAt().setIssuer(Deno.env.get("CRM_JWT_ISSUER") ?? "fxlabsprimecrm").setAudience(Deno.env.get("CRM_JWT_AUDIENCE") ?? "fxlabsprimecrm-clients").setExpirationTime("30d").sign(secret);
-    const tokenKey = validated.role === "admin" ? "Admin-Token" : "Partner-Token";
-    return new Response(JSON.stringify({
-      [tokenKey]: token
-    }), {
+    // System-generated password: only crm_change-password is reachable until it is replaced
+    if (user.must_change_password) {
+      return new Response(JSON.stringify(await passwordChangeChallengeBody({
+        id: user.id,
+        role: validated.role
+      })), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      });
+    }
+    // Issue a short-lived access token plus a refresh token (new token family)
+    const { body: tokens } = await issueTokens(supabase, req, {
+      id: user.id,
+      role: validated.role
+    });
+    return new Response(JSON.stringify(tokens), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
@@ -145,10 +139,6 @@ serve(async (req)=>{
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error, corsHeaders);
-    }
-    console.error("Login error:", error);
-    return createErrorResponse("Internal server error", 500, null, [], corsHeaders);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,314 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { getRequestContext, recordAuditLog } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { retryAfterSeconds } from "../_shared/login-throttle.ts";
+import { createPasswordToken, passwordTokenValidity } from "../_shared/password-token.ts";
+// SendGrid Config
+const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
+const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@fxlabsprime.com";
+const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "FxLabs Prime";
+// Rate limits
+function envInt(name, fallback) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+const MAX_REQUESTS_PER_EMAIL = envInt("CRM_FORGOT_PASSWORD_MAX_PER_EMAIL", 3);
+const MAX_REQUESTS_PER_IP = envInt("CRM_FORGOT_PASSWORD_MAX_PER_IP", 10);
+const WINDOW_MINUTES = envInt("CRM_FORGOT_PASSWORD_WINDOW_MINUTES", 60);
+// Every answer takes at least this long, so sending an email does not reveal that the account exists
+const MIN_RESPONSE_MS = envInt("CRM_FORGOT_PASSWORD_MIN_RESPONSE_MS", 1500);
+const UNIFORM_MESSAGE = "If an account exists for this email, a password reset link has been sent.";
+const PORTAL_NAMES = {
+  admin: "Admin Portal",
+  partner: "Partner Portal"
+};
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema (same email/role shape as crm_custom-login)
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email format"),
+  role: z.enum([
+    "admin",
+    "partner"
+  ], {
+    errorMap: ()=>({
+        message: "Role must be 'admin' or 'partner'"
+      })
+  })
+});
+/**
+ * Self-service password reset email template
+ */ function createForgotPasswordEmailTemplate(email, resetUrl, fullName, role) {
+  const portalName = PORTAL_NAMES[role];
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8" />
+  <title>Reset Your Password - FxLabs Prime</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>
+    .preheader { display:none !important; visibility:hidden; opacity:0; color:transparent; height:0; width:0; }
+    @media only screen and (max-width: 600px) { .container { width: 100% !important; } }
+  </style>
+</head>
+<body style="margin:0; padding:0; background:#f4f4f4; font-family: Arial, sans-serif; color:#222;">
+  <div class="preheader">Reset your FxLabs Prime ${portalName} password.</div>
+
+  <!-- Header -->
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="max-width:600px; width:90%; background:#07c05c; color:#ffffff; border-radius:12px; overflow:hidden; font-family:Arial,Helvetica,sans-serif;">
+          <tr>
+            <td style="padding:14px 16px;">
+              <span style="display:inline-block;vertical-align:middle;">
+                <img src="https://hyajwhtkwldrmlhfiuwg.supabase.co/storage/v1/object/public/fxlabs-public/fxlabs_logo_white.png" width="18" height="18" alt="FxLabs Prime" style="vertical-align:middle;display:inline-block" />
+              </span>
+              <span style="display:inline-block;vertical-align:middle;font-weight:700;margin-left:8px;">FxLabs Prime</span>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+
+  <!-- Main -->
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:30px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="max-width:600px; width:90%; background:#fff; border-radius:12px; padding:30px; box-shadow:0 4px 12px rgba(0,0,0,0.1);">
+          <tr>
+            <td>
+              <h2 style="margin:0 0 12px; color:#111; font-size:20px;">Hello, ${fullName}!</h2>
+              <p style="margin:0 0 16px; color:#444;">
+                We received a request to reset the <strong>FxLabs Prime ${portalName}</strong> password for <strong>${email}</strong>. Your current password keeps working until you choose a new one.
+              </p>
+
+              <!-- CTA -->
+              <p style="text-align:center; margin:20px 0 0;">
+                <a href="${resetUrl}" style="background:#07c05c; color:#fff; padding:12px 32px; border-radius:6px; text-decoration:none; font-weight:bold; font-size:15px; display:inline-block;">
+                  Reset Password
+                </a>
+              </p>
+
+              <!-- Security Notice -->
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff4e6; border:1px solid #ffcc80; border-radius:8px; margin:20px 0 0;">
+                <tr>
+                  <td style="padding:14px 16px; font-size:14px; color:#e65100;">
+                    <strong>Security:</strong> This link works <strong>once</strong> and expires in ${passwordTokenValidity("reset")}. Never share it with anyone.
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Unauthorized -->
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#ffebee; border:1px solid #ffcdd2; border-radius:8px; margin:16px 0 0;">
+                <tr>
+                  <td style="padding:14px 16px; font-size:14px; color:#c62828;">
+                    <strong>Did NOT request this?</strong> You can ignore this email. If you keep receiving it, contact support via 
+                    <a href="https://t.me/Fxlabs_prime" style="color:#c62828; font-weight:600; text-decoration:none;">@Fxlabs_prime</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+
+  <!-- Footer -->
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:20px; padding:20px 0;">
+    <tr>
+      <td align="center" style="font-size:12px; color:#666; line-height:1.6; max-width:600px; padding:0 20px;">
+        FxLabs Prime ${portalName}<br/>
+        <a href="https://fxlabsprime.com/terms-of-service" style="color:#07c05c; text-decoration:none;">Terms</a> • 
+        <a href="https://fxlabsprime.com/privacy-policy" style="color:#07c05c; text-decoration:none;">Privacy</a>
+        <br/><br/>
+        Support: <a href="https://t.me/Fxlabs_prime" style="color:#07c05c; text-decoration:none;">@Fxlabs_prime</a>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+/**
+ * Send email with retry
+ */ async function sendForgotPasswordEmail(email, resetUrl, fullName, role) {
+  if (!SENDGRID_API_KEY) {
+    console.error("SendGrid not configured");
+    return {
+      success: false,
+      error: "Email service not configured"
+    };
+  }
+  const payload = {
+    personalizations: [
+      {
+        to: [
+          {
+            email
+          }
+        ],
+        subject: "Reset Your Password - FxLabs Prime"
+      }
+    ],
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME
+    },
+    content: [
+      {
+        type: "text/html",
+        value: createForgotPasswordEmailTemplate(email, resetUrl, fullName, role)
+      }
+    ]
+  };
+  for(let i = 1; i <= 2; i++){
+    try {
+      const res = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${SENDGRID_API_KEY}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(payload)
+      });
+      if (res.ok) {
+        return {
+          success: true
+        };
+      }
+      const err = await res.text();
+      console.error(`SendGrid error (${res.status}): ${err}`);
+      if (i === 1) {
+        await new Promise((r)=>setTimeout(r, 1000));
+        continue;
+      }
+      return {
+        success: false,
+        error: `SendGrid error: ${res.status}`
+      };
+    } catch (e) {
+      console.error("Email exception:", e);
+      if (i === 1) {
+        await new Promise((r)=>setTimeout(r, 1000));
+        continue;
+      }
+      return {
+        success: false,
+        error: e instanceof Error ? e.message : "Network error"
+      };
+    }
+  }
+  return {
+    success: false,
+    error: "Failed after retry"
+  };
+}
+/**
+ * Looks up the account and emails it a reset link; silent when there is nothing to send
+ */ async function sendResetLinkIfAccountExists(req, email, role) {
+  const tableName = role === "admin" ? "crm_admin" : "crm_partner";
+  const selectColumns = role === "admin" ? "id, email, full_name" : "id, email, full_name, is_active";
+  const { data: account, error } = await supabase.from(tableName).select(selectColumns).eq("email", email).maybeSingle();
+  if (error) {
+    console.error("Error fetching account:", error.message);
+    return;
+  }
+  if (!account || role === "partner" && !account.is_active) {
+    return;
+  }
+  const { url: resetUrl } = await createPasswordToken(supabase, {
+    principalId: account.id,
+    role,
+    purpose: "reset"
+  });
+  const emailResult = await sendForgotPasswordEmail(account.email, resetUrl, account.full_name || (role === "admin" ? "Admin" : "Partner"), role);
+  if (!emailResult.success) {
+    console.warn(`Forgot-password email failed for ${role} ${account.id}: ${emailResult.error}`);
+  }
+  await recordAuditLog(supabase, req, {
+    id: account.id,
+    role
+  }, {
+    action: `${role}.password_reset_requested`,
+    targetType: role,
+    targetId: account.id,
+    metadata: {
+      email_sent: emailResult.success
+    }
+  });
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  const startedAt = Date.now();
+  const padResponseTime = ()=>new Promise((r)=>setTimeout(r, Math.max(MIN_RESPONSE_MS - (Date.now() - startedAt), 0)));
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = forgotPasswordSchema.parse(body);
+    const email = validated.email.trim().toLowerCase();
+    const requestContext = getRequestContext(req);
+    // Counted per email and per IP whether or not the account exists
+    const { data: limitRows, error: limitError } = await supabase.rpc("crm_record_password_reset_request", {
+      p_email: email,
+      p_role: validated.role,
+      p_ip_address: requestContext.ip_address,
+      p_user_agent: requestContext.user_agent,
+      p_max_per_email: MAX_REQUESTS_PER_EMAIL,
+      p_max_per_ip: MAX_REQUESTS_PER_IP,
+      p_window_minutes: WINDOW_MINUTES
+    });
+    if (limitError) {
+      console.error("Error recording reset request:", limitError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    const limit = limitRows?.[0];
+    if (limit?.limited_by === "ip") {
+      return createErrorResponse("Too many requests. Please try again later.", 429, "RATE_LIMITED", [], {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(new Date(limit.retry_after)))
+      });
+    }
+    // Over the per-email limit: answer exactly as if a link had been sent
+    if (!limit?.limited_by) {
+      try {
+        await sendResetLinkIfAccountExists(req, email, validated.role);
+      } catch (error) {
+        console.error("Forgot-password processing error:", error);
+      }
+    }
+    await padResponseTime();
+    return new Response(JSON.stringify({
+      message: UNIFORM_MESSAGE
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -1,95 +1,81 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a standardized error response
- */ function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) {
-    errorResponse.code = code;
-  }
-  if (details.length > 0) {
-    errorResponse.details = details;
-  }
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { fetchStatsTimeSeries, parseStatsRange } from "../_shared/stats.ts";
+import { ACCESS_GRANTING_STATUSES, SubscriptionStatus } from "../_shared/subscription-status.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
     }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "stats:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
-    });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    // Optional from/to/granularity/timezone for the time series
+    const rangeResult = parseStatsRange(new URL(req.url));
+    if (!rangeResult.success) {
+      return createValidationErrorResponse(rangeResult.error, corsHeaders);
     }
     // Get current date for calculations
     const now = new Date();
     const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    // 1. Get revenue + user_id (reuse for commissions)
-    const { data: revenueData, error: revenueError } = await supabase.from("crm_payment").select("amount, paid_at, user_id").eq("currency", "usd");
-    if (revenueError) {
-      console.error("Revenue fetch error:", revenueError);
-      throw new Error("Failed to fetch revenue data");
+    // 1. Totals (revenue, users, partners, commission) aggregated in Postgres
+    // Commission entries are resolved from each partner's commission slabs when the payment
+    // is inserted, and refunds/adjustments post signed entries, so this matches partner totals
+    const { data: totalsRows, error: totalsError } = await supabase.rpc("crm_admin_stats_totals", {
+      p_since: oneMonthAgo.toISOString(),
+      p_currency: "usd"
+    });
+    if (totalsError) {
+      console.error("Stats totals fetch error:", totalsError);
+      throw new Error("Failed to fetch stats totals");
     }
-    const totalRevenue = revenueData?.reduce((sum, payment)=>sum + Number(payment.amount), 0) || 0;
-    const lastMonthRevenue = revenueData?.filter((payment)=>new Date(payment.paid_at) >= oneMonthAgo).reduce((sum, payment)=>sum + Number(payment.amount), 0) || 0;
-    // 2. Get user stats
-    const { data: userData, error: userError } = await supabase.from("crm_user_metadata").select("subscription_status, region, created_at, is_blocked");
-    if (userError) {
-      console.error("User fetch error:", userError);
+    const totals = totalsRows?.[0] || {};
+    const totalRevenue = Number(totals.total_revenue ?? 0);
+    const lastMonthRevenue = Number(totals.period_revenue ?? 0);
+    const totalCommissionPaid = Number(totals.total_commission ?? 0);
+    const lastMonthCommission = Number(totals.period_commission ?? 0);
+    // 2. User counts per (subscription_status, region)
+    const { data: breakdown, error: breakdownError } = await supabase.rpc("crm_admin_user_breakdown");
+    if (breakdownError) {
+      console.error("User breakdown fetch error:", breakdownError);
       throw new Error("Failed to fetch user data");
     }
-    const totalUsers = userData?.length || 0;
-    const totalTrial = userData?.filter((u)=>u.subscription_status === "trial").length || 0;
-    const totalPaid = userData?.filter((u)=>u.subscription_status === "paid").length || 0;
-    const totalExpired = userData?.filter((u)=>u.subscription_status === "expired").length || 0;
-    const totalActive = totalUsers - totalExpired;
-    const totalBlocked = userData?.filter((u)=>u.is_blocked === true).length || 0;
-    const recentSignups = userData?.filter((u)=>new Date(u.created_at) >= oneMonthAgo).length || 0;
+    const groups = breakdown || [];
+    const countByStatus = (status)=>groups.filter((g)=>g.subscription_status === status).reduce((sum, g)=>sum + Number(g.user_count), 0);
+    const totalTrial = countByStatus(SubscriptionStatus.Trial);
+    const totalPaid = countByStatus(SubscriptionStatus.Active);
+    const totalPastDue = countByStatus(SubscriptionStatus.PastDue);
+    const totalCancelled = countByStatus(SubscriptionStatus.Cancelled);
+    const totalExpired = countByStatus(SubscriptionStatus.Expired);
+    const totalRefunded = countByStatus(SubscriptionStatus.Refunded);
+    // Users whose status still grants access (trial, active, past_due, cancelled)
+    const totalActive = groups.filter((g)=>ACCESS_GRANTING_STATUSES.includes(g.subscription_status)).reduce((sum, g)=>sum + Number(g.user_count), 0);
     // Initialize all regions with 0
     const totalUsersByRegion = {
       "India": 0,
@@ -97,65 +83,14 @@ serve(async (req)=>{
       "null": 0
     };
     // Count users by region
-    userData?.forEach((u)=>{
-      const region = u.region || "null";
-      if (region in totalUsersByRegion) {
-        totalUsersByRegion[region]++;
-      } else {
-        totalUsersByRegion[region] = 1;
-      }
+    groups.forEach((g)=>{
+      const region = g.region || "null";
+      totalUsersByRegion[region] = (totalUsersByRegion[region] || 0) + Number(g.user_count);
+    });
+    // Signups, conversions, revenue and commission per period of the requested range
+    const timeSeries = await fetchStatsTimeSeries(supabase, rangeResult.data, {
+      currency: "usd"
     });
-    // 3. Get partner stats
-    const { data: partnerData, error: partnerError } = await supabase.from("crm_partner").select("id, is_active");
-    if (partnerError) {
-      console.error("Partner fetch error:", partnerError);
-      throw new Error("Failed to fetch partner data");
-    }
-    const totalPartners = partnerData?.length || 0;
-    const activePartners = partnerData?.filter((p)=>p.is_active).length || 0;
-    // 4. Get partner commission paid
-    const payments = revenueData || [];
-    const userIds = payments.map((p)=>p.user_id).filter(Boolean);
-    let metadata = [];
-    if (userIds.length > 0) {
-      const { data: md, error: metadataError } = await supabase.from("crm_user_metadata").select("user_id, crm_partner_id").in("user_id", userIds).not("crm_partner_id", "is", null);
-      if (metadataError) {
-        console.error("Metadata fetch error:", metadataError);
-        throw new Error("Failed to fetch metadata");
-      }
-      metadata = md || [];
-    }
-    const partnerIds = metadata.map((m)=>m.crm_partner_id);
-    let partners = [];
-    if (partnerIds.length > 0) {
-      const { data: ps, error: partnersError } = await supabase.from("crm_partner").select("id, commission_percent").in("id", partnerIds);
-      if (partnersError) {
-        console.error("Partners fetch error:", partnersError);
-        throw new Error("Failed to fetch partners");
-      }
-      partners = ps || [];
-    }
-    const partnerMap = new Map(partners.map((p)=>[
-        p.id,
-        p.commission_percent
-      ]));
-    const metadataMap = new Map(metadata.map((m)=>[
-        m.user_id,
-        m.crm_partner_id
-      ]));
-    const totalCommissionPaid = payments.reduce((sum, payment)=>{
-      const partnerId = metadataMap.get(payment.user_id);
-      if (!partnerId) return sum;
-      const percent = partnerMap.get(partnerId) ?? 0;
-      return sum + Number(payment.amount) * (percent / 100);
-    }, 0);
-    const lastMonthCommission = payments.reduce((sum, payment)=>{
-      if (new Date(payment.paid_at) < oneMonthAgo) return sum;
-      const partnerId = metadataMap.get(payment.user_id);
-      if (!partnerId) return sum;
-      const percent = partnerMap.get(partnerId) ?? 0;
-      return sum + Number(payment.amount) * (percent / 100);
-    }, 0);
     return new Response(JSON.stringify({
       revenue: {
         total: Number(totalRevenue.toFixed(2)),
@@ -163,42 +98,34 @@ serve(async (req)=>{
         currency: "usd"
       },
       users: {
-        total_users: totalUsers,
+        total_users: Number(totals.total_users ?? 0),
         total_trial: totalTrial,
         total_paid: totalPaid,
         total_active: totalActive,
+        total_past_due: totalPastDue,
+        total_cancelled: totalCancelled,
         total_expired: totalExpired,
-        total_blocked: totalBlocked,
+        total_refunded: totalRefunded,
+        total_blocked: Number(totals.blocked_users ?? 0),
         total_users_by_region: totalUsersByRegion,
-        recent_users_30_days: recentSignups
+        recent_users_30_days: Number(totals.recent_users ?? 0)
       },
       partners: {
-        total_partners: totalPartners,
-        active_partners: activePartners,
+        total_partners: Number(totals.total_partners ?? 0),
+        active_partners: Number(totals.active_partners ?? 0),
         total_commission_paid: Number(totalCommissionPaid.toFixed(2)),
         last_month_commission: Number(lastMonthCommission.toFixed(2))
       },
+      time_series: timeSeries,
       generated_at: now.toISOString()
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error?.name === "JWTExpired") {
-      return createErrorResponse("Admin-Token has expired", 401);
-    }
-    if (error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid Admin-Token signature", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    if (error?.name === "JWTInvalid" || error?.name === "JWSInvalid" || error?.name === "JWTClaimValidationFailed") {
-      return createErrorResponse("Invalid Admin-Token", 401);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -1,54 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "CRM_JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a standardized error response
- */ function createErrorResponse(message, status = 500, code, details) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) {
-    errorResponse.code = code;
-  }
-  if (details && details.length > 0) {
-    errorResponse.details = details;
-  }
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a validation error response from Zod errors
- */ function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path.join("."),
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 const DEFAULT_PAGE_SIZE = (()=>{
   const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
@@ -77,30 +32,34 @@ const getAdminsQuerySchema = z.object({
   ]).optional().default("created")
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // === Auth ===
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin only", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "admins:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // === Parse and validate query params ===
     const url = new URL(req.url);
@@ -114,14 +73,14 @@ serve(async (req)=>{
       return createErrorResponse("Invalid query parameters", 400, "VALIDATION_ERROR", validationResult.error.issues.map((issue)=>({
           field: issue.path.join("."),
           message: issue.message
-        })));
+        })), corsHeaders);
     }
     const { page, page_size: pageSize, sort_by: sortBy } = validationResult.data;
     const from = (page - 1) * pageSize;
     const to = from + pageSize - 1;
     // === Build query ===
     // Note: We exclude password_hash for security
-    let query = supabase.from("crm_admin").select("email, full_name, created_at");
+    let query = supabase.from("crm_admin").select("email, full_name, admin_role, created_at");
     // Apply sorting
     switch(sortBy){
       case "email":
@@ -172,14 +131,11 @@ serve(async (req)=>{
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    console.error("Error:", error);
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid Admin-Token", 401);
-    }
-    return createErrorResponse("Internal error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
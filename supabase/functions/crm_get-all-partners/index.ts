@@ -1,50 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "CRM_JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a standardized error response
- */ function createErrorResponse(message, status = 500, code, details) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details && details.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create validation error response from Zod
- */ function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path.join("."),
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // Supabase client
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Pagination defaults
@@ -76,30 +35,34 @@ const getPartnersQuerySchema = z.object({
   ]).optional().default("created")
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // === Authentication ===
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token required", 401, "UNAUTHORIZED");
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch  {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403, "FORBIDDEN");
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "partners:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // === Parse & validate query params ===
     const url = new URL(req.url);
@@ -110,7 +73,7 @@ serve(async (req)=>{
     };
     const validationResult = getPartnersQuerySchema.safeParse(queryParams);
     if (!validationResult.success) {
-      return createValidationErrorResponse(validationResult.error);
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
     }
     const { page, page_size: pageSize, sort_by: sortBy } = validationResult.data;
     const from = (page - 1) * pageSize;
@@ -134,6 +97,7 @@ serve(async (req)=>{
     // Apply sorting
     switch(sortBy){
       case "revenue":
+        // total_revenue is kept equal to the ledger total by trigger_apply_commission_entry
         query = query.order("total_revenue", {
           ascending: false
         });
@@ -157,23 +121,41 @@ serve(async (req)=>{
     // === Fetch paginated data ===
     const { data: partners, error: dataErr, count } = await query.range(from, to);
     if (dataErr) throw dataErr;
+    // === Commission totals from the ledger for this page ===
+    const partnerIds = partners.map((p)=>p.id);
+    let summaries = [];
+    if (partnerIds.length > 0) {
+      const { data: summaryData, error: summaryErr } = await supabase.from("crm_partner_commission_summary").select("partner_id, total_commission, pending_commission, approved_commission, paid_commission").in("partner_id", partnerIds);
+      if (summaryErr) throw summaryErr;
+      summaries = summaryData || [];
+    }
+    const summaryMap = new Map(summaries.map((s)=>[
+        s.partner_id,
+        s
+      ]));
     const total = count ?? 0;
     const totalPages = Math.ceil(total / pageSize);
     // === Format response ===
     return new Response(JSON.stringify({
-      partners: partners.map((p)=>({
+      partners: partners.map((p)=>{
+        const summary = summaryMap.get(p.id);
+        return {
           partner_id: p.id,
           email: p.email,
           full_name: p.full_name,
           is_active: p.is_active,
           created_at: p.created_at,
           updated_at: p.updated_at,
-          total_revenue: parseFloat(p.total_revenue ?? "0"),
+          total_revenue: Number(Number(summary?.total_commission ?? 0).toFixed(2)),
+          pending_commission: Number(Number(summary?.pending_commission ?? 0).toFixed(2)),
+          approved_commission: Number(Number(summary?.approved_commission ?? 0).toFixed(2)),
+          paid_commission: Number(Number(summary?.paid_commission ?? 0).toFixed(2)),
           total_added: Number(p.total_added),
           total_converted: Number(p.total_converted),
           commission_slabs: p.commission_slabs,
           commission_percent: Number(p.commission_percent)
-        })),
+        };
+      }),
       pagination: {
         page,
         page_size: pageSize,
@@ -188,17 +170,11 @@ serve(async (req)=>{
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    console.error("Error in /partners handler:", error);
-    if (error?.name === "JWTExpired") {
-      return createErrorResponse("Token expired", 401, "TOKEN_EXPIRED");
-    }
-    if (error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid token signature", 401, "INVALID_TOKEN");
-    }
-    return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR");
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
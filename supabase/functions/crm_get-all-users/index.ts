@@ -1,42 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "CRM_JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code, details) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) {
-    errorResponse.code = code;
-  }
-  if (details && details.length > 0) {
-    errorResponse.details = details;
-  }
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { isSubscriptionStatus, SUBSCRIPTION_STATUSES } from "../_shared/subscription-status.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 const DEFAULT_PAGE_SIZE = (()=>{
   const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
@@ -46,31 +13,39 @@ const MAX_PAGE_SIZE = (()=>{
   const n = parseInt(Deno.env.get("CRM_MAX_PAGE_SIZE") ?? "");
   return Number.isFinite(n) && n > 0 ? n : 100;
 })();
+// ILIKE '%term%' with the term's own % and _ matched literally
+function containsPattern(term) {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "users:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // Get URL params
     const url = new URL(req.url);
@@ -90,9 +65,13 @@ serve(async (req)=>{
     const searchField = url.searchParams.get("search_field"); // 'email', 'region', 'partner_email', 'partner_name', 'all'
     const sortBy = url.searchParams.get("sort_by") || "created_at"; // 'created_at' or 'subscription_ends_at'
     const sortOrder = url.searchParams.get("sort_order") || "desc"; // 'asc' or 'desc'
+    if (status && status !== "all" && !isSubscriptionStatus(status)) {
+      return createErrorResponse(`Invalid status. Must be one of: all, ${SUBSCRIPTION_STATUSES.join(", ")}`, 400, "VALIDATION_ERROR", [], corsHeaders);
+    }
     const offset = (page - 1) * limit;
-    // Build query
-    let query = supabase.from("crm_user_metadata").select(`
+    // Build query; crm_user_directory joins each user to their partner so partner search,
+    // the count and pagination all happen in the database
+    let query = supabase.from("crm_user_directory").select(`
         user_id,
         email,
         region,
@@ -102,7 +81,8 @@ serve(async (req)=>{
         converted_at,
         created_at,
         is_blocked,
-        crm_partner:crm_partner_id(email, full_name)
+        partner_email,
+        partner_full_name
       `, {
       count: "exact"
     });
@@ -120,17 +100,27 @@ serve(async (req)=>{
     } else if (blocked === "unblocked") {
       query = query.eq("is_blocked", false);
     }
-    // Apply search filter
+    // Apply search filter (trigram-indexed, see supabase/migrations/00029_user_directory.sql)
     if (searchQuery && searchQuery.trim() !== "") {
-      const searchTerm = searchQuery.trim();
-      if (searchField === "email" || searchField === "all") {
-        query = query.ilike("email", `%${searchTerm}%`);
+      const pattern = containsPattern(searchQuery.trim());
+      if (searchField === "email") {
+        query = query.ilike("email_search", pattern);
       } else if (searchField === "region") {
-        query = query.ilike("region", `%${searchTerm}%`);
+        query = query.ilike("region", pattern);
+      } else if (searchField === "partner_email") {
+        query = query.ilike("partner_email_search", pattern);
+      } else if (searchField === "partner_name") {
+        query = query.ilike("partner_full_name", pattern);
+      } else if (searchField === "all") {
+        // Quoted so commas and parentheses in the term cannot break the or() syntax
+        const quoted = `"${pattern.replace(/["\\]/g, "\\$&")}"`;
+        query = query.or([
+          "email_search",
+          "region",
+          "partner_email_search",
+          "partner_full_name"
+        ].map((column)=>`${column}.ilike.${quoted}`).join(","));
       }
-    // Note: For partner_email and partner_name, we'll need to filter after fetching
-    // because Supabase doesn't support filtering on joined tables directly in this way
-    // We'll handle this in post-processing
     }
     // Apply sorting
     const validSortFields = [
@@ -142,6 +132,8 @@ serve(async (req)=>{
     query = query.order(sortField, {
       ascending,
       nullsFirst: false
+    }).order("user_id", {
+      ascending: true
     });
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
@@ -150,30 +142,8 @@ serve(async (req)=>{
       console.error("Users fetch error:", usersError);
       throw new Error("Failed to fetch users");
     }
-    // Post-process for partner search if needed
-    let filteredUsers = users || [];
-    if (searchQuery && searchQuery.trim() !== "" && (searchField === "partner_email" || searchField === "partner_name" || searchField === "all")) {
-      const searchTerm = searchQuery.trim().toLowerCase();
-      filteredUsers = filteredUsers.filter((user)=>{
-        if (searchField === "partner_email" || searchField === "all") {
-          const partnerEmail = user.crm_partner?.email?.toLowerCase() || "";
-          if (partnerEmail.includes(searchTerm)) return true;
-        }
-        if (searchField === "partner_name" || searchField === "all") {
-          const partnerName = user.crm_partner?.full_name?.toLowerCase() || "";
-          if (partnerName.includes(searchTerm)) return true;
-        }
-        // For 'all' search, also check email and region (already filtered by DB, but include for completeness)
-        if (searchField === "all") {
-          const email = user.email?.toLowerCase() || "";
-          const region = user.region?.toLowerCase() || "";
-          if (email.includes(searchTerm) || region.includes(searchTerm)) return true;
-        }
-        return false;
-      });
-    }
     // Get payment totals for all users in a single query
-    const userIds = filteredUsers.map((user)=>user.user_id);
+    const userIds = (users || []).map((user)=>user.user_id);
     let allPayments = [];
     if (userIds.length > 0) {
       const { data: paymentsData, error: paymentsError } = await supabase.from("crm_payment").select("user_id, amount").in("user_id", userIds);
@@ -190,7 +160,7 @@ serve(async (req)=>{
       paymentTotals.set(payment.user_id, currentTotal + Number(payment.amount));
     });
     // Map users with their payment totals
-    const usersWithPayments = filteredUsers.map((user)=>{
+    const usersWithPayments = (users || []).map((user)=>{
       const totalSpent = paymentTotals.get(user.user_id) || 0;
       return {
         user_id: user.user_id,
@@ -203,16 +173,13 @@ serve(async (req)=>{
         converted_at: user.converted_at,
         created_at: user.created_at,
         is_blocked: user.is_blocked,
-        partner: user.crm_partner ? {
-          email: user.crm_partner.email,
-          full_name: user.crm_partner.full_name
+        partner: user.partner_email ? {
+          email: user.partner_email,
+          full_name: user.partner_full_name
         } : null
       };
     });
     // Calculate pagination info
-    // Note: When filtering by partner fields in post-processing, 
-    // the count will be slightly off. For accurate counts with partner filtering,
-    // you'd need to restructure the database or use a different approach.
     const totalUsers = count || 0;
     const totalPages = Math.ceil(totalUsers / limit);
     const hasNextPage = page < totalPages;
@@ -239,20 +206,11 @@ serve(async (req)=>{
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error?.name === "JWTExpired") {
-      return createErrorResponse("Admin-Token has expired", 401);
-    }
-    if (error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid Admin-Token signature", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Pagination defaults
+const DEFAULT_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 20;
+})();
+const MAX_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MAX_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 100;
+})();
+// Query validation schema
+const getAuditLogQuerySchema = z.object({
+  actor_id: z.string().uuid("Invalid actor ID format").optional(),
+  actor_role: z.enum([
+    "admin",
+    "partner",
+    "user",
+    "system"
+  ]).optional(),
+  target_type: z.string().min(1).optional(),
+  target_id: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  // Only entries whose diff touches this field (e.g. is_blocked)
+  field: z.string().regex(/^[a-z_]+$/, "field must be a column name").optional(),
+  from: z.string().datetime("from must be an ISO datetime").optional(),
+  to: z.string().datetime("to must be an ISO datetime").optional(),
+  page: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || "1", 10);
+    return isNaN(parsed) || parsed < 1 ? 1 : parsed;
+  }),
+  page_size: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || `${DEFAULT_PAGE_SIZE}`, 10);
+    if (isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_SIZE;
+    if (parsed > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+    return parsed;
+  })
+}).refine((data)=>!data.from || !data.to || new Date(data.from) < new Date(data.to), {
+  message: "from must be before to",
+  path: [
+    "from"
+  ]
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "audit:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse & validate query params
+    const url = new URL(req.url);
+    const params = Object.fromEntries([
+      "actor_id",
+      "actor_role",
+      "target_type",
+      "target_id",
+      "action",
+      "field",
+      "from",
+      "to",
+      "page",
+      "page_size"
+    ].map((key)=>[
+        key,
+        url.searchParams.get(key) ?? undefined
+      ]));
+    const validationResult = getAuditLogQuerySchema.safeParse(params);
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const filters = validationResult.data;
+    const { page, page_size: pageSize } = filters;
+    const from = (page - 1) * pageSize;
+    const to = from + pageSize - 1;
+    let query = supabase.from("crm_audit_log").select("id, actor_id, actor_role, action, target_type, target_id, changes, metadata, ip_address, user_agent, created_at", {
+      count: "exact"
+    });
+    if (filters.actor_id) query = query.eq("actor_id", filters.actor_id);
+    if (filters.actor_role) query = query.eq("actor_role", filters.actor_role);
+    if (filters.target_type) query = query.eq("target_type", filters.target_type);
+    if (filters.target_id) query = query.eq("target_id", filters.target_id);
+    if (filters.action) query = query.eq("action", filters.action);
+    if (filters.field) query = query.not(`changes->${filters.field}`, "is", null);
+    if (filters.from) query = query.gte("created_at", filters.from);
+    if (filters.to) query = query.lt("created_at", filters.to);
+    const { data: entries, error: entriesError, count } = await query.order("created_at", {
+      ascending: false
+    }).range(from, to);
+    if (entriesError) {
+      console.error("Audit log fetch error:", entriesError.message);
+      return createErrorResponse(`Failed to fetch audit log: ${entriesError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    // Resolve actor emails for display
+    const actorIds = [
+      ...new Set((entries || []).filter((e)=>e.actor_id).map((e)=>e.actor_id))
+    ];
+    const actorEmails = {};
+    if (actorIds.length) {
+      const [{ data: admins }, { data: partners }] = await Promise.all([
+        supabase.from("crm_admin").select("id, email").in("id", actorIds),
+        supabase.from("crm_partner").select("id, email").in("id", actorIds)
+      ]);
+      for (const actor of [
+        ...admins || [],
+        ...partners || []
+      ]){
+        actorEmails[actor.id] = actor.email;
+      }
+    }
+    const total = count ?? 0;
+    const totalPages = Math.ceil(total / pageSize);
+    return new Response(JSON.stringify({
+      entries: (entries || []).map((e)=>({
+          ...e,
+          actor_email: e.actor_id ? actorEmails[e.actor_id] ?? null : null
+        })),
+      pagination: {
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
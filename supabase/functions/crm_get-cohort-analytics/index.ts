@@ -0,0 +1,270 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+import { DEFAULT_TIMEZONE, timeZoneSchema } from "../_shared/stats.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Same trial length crm_create-user applies, so its conversion point is always reported
+const DEFAULT_TRIAL_DAYS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_DEFAULT_TRIAL_DAYS") ?? "");
+  return Number.isFinite(n) && n >= 1 ? n : 15;
+})();
+const DEFAULT_CONVERSION_DAYS = [
+  ...new Set([
+    7,
+    DEFAULT_TRIAL_DAYS,
+    30,
+    60,
+    90
+  ])
+].sort((a, b)=>a - b);
+const MAX_RETENTION_MONTHS = 24;
+// Query validation schema; see supabase/migrations/00027_cohort_analytics.sql for the definitions
+const cohortQuerySchema = z.object({
+  from: z.string().datetime({
+    offset: true,
+    message: "from must be an ISO datetime"
+  }).optional(),
+  to: z.string().datetime({
+    offset: true,
+    message: "to must be an ISO datetime"
+  }).optional(),
+  granularity: z.enum([
+    "week",
+    "month"
+  ], {
+    errorMap: ()=>({
+        message: "granularity must be 'week' or 'month'"
+      })
+  }).optional().default("month"),
+  timezone: timeZoneSchema.optional().default(DEFAULT_TIMEZONE),
+  group_by: z.enum([
+    "none",
+    "region",
+    "partner"
+  ], {
+    errorMap: ()=>({
+        message: "group_by must be 'none', 'region' or 'partner'"
+      })
+  }).optional().default("none"),
+  // Comma-separated, e.g. 7,15,30
+  conversion_days: z.string().optional().transform((val, ctx)=>{
+    if (!val) return DEFAULT_CONVERSION_DAYS;
+    const days = val.split(",").map((d)=>Number(d.trim()));
+    if (days.length > 10 || days.some((d)=>!Number.isInteger(d) || d < 1 || d > 365)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "conversion_days must be up to 10 whole numbers between 1 and 365"
+      });
+      return z.NEVER;
+    }
+    return [
+      ...new Set(days)
+    ].sort((a, b)=>a - b);
+  }),
+  retention_months: z.string().optional().transform((val, ctx)=>{
+    if (!val) return 6;
+    const months = Number(val);
+    if (!Number.isInteger(months) || months < 0 || months > MAX_RETENTION_MONTHS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `retention_months must be a whole number between 0 and ${MAX_RETENTION_MONTHS}`
+      });
+      return z.NEVER;
+    }
+    return months;
+  })
+}).refine((data)=>!data.from || !data.to || new Date(data.from) < new Date(data.to), {
+  message: "from must be before to",
+  path: [
+    "from"
+  ]
+});
+const rate = (count, base)=>base > 0 ? Number((count / base * 100).toFixed(2)) : 0;
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "stats:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse & validate query params
+    const url = new URL(req.url);
+    const params = Object.fromEntries([
+      "from",
+      "to",
+      "granularity",
+      "timezone",
+      "group_by",
+      "conversion_days",
+      "retention_months"
+    ].map((key)=>[
+        key,
+        url.searchParams.get(key) || undefined
+      ]));
+    const validationResult = cohortQuerySchema.safeParse(params);
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const query = validationResult.data;
+    // Default to the last twelve months of signups
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - 365 * 24 * 60 * 60 * 1000);
+    const { data: rows, error: cohortError } = await supabase.rpc("crm_cohort_analytics", {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_granularity: query.granularity,
+      p_timezone: query.timezone,
+      p_group_by: query.group_by,
+      p_conversion_days: query.conversion_days,
+      p_retention_months: query.retention_months
+    });
+    if (cohortError) {
+      console.error("Cohort analytics fetch error:", cohortError);
+      throw new Error("Failed to fetch cohort analytics");
+    }
+    const cohortRows = rows || [];
+    // Partner groups are labelled with the partner's name; users without a partner have a null key
+    const partnersById = {};
+    if (query.group_by === "partner") {
+      const partnerIds = [
+        ...new Set(cohortRows.map((r)=>r.group_key).filter(Boolean))
+      ];
+      if (partnerIds.length > 0) {
+        const { data: partners, error: partnersError } = await supabase.from("crm_partner").select("id, email, full_name").in("id", partnerIds);
+        if (partnersError) {
+          console.error("Partner fetch error:", partnersError);
+          throw new Error("Failed to fetch partner data");
+        }
+        (partners || []).forEach((p)=>{
+          partnersById[p.id] = p;
+        });
+      }
+    }
+    const groupOf = (key)=>{
+      if (query.group_by === "region") return {
+        region: key
+      };
+      if (query.group_by === "partner") return {
+        partner_id: key,
+        partner_email: partnersById[key]?.email ?? null,
+        partner_name: partnersById[key]?.full_name ?? null
+      };
+      return null;
+    };
+    // Rolls cohort rows up into one set of totals (overall, or per group)
+    const summarize = (list)=>{
+      const sum = (field)=>list.reduce((total, r)=>total + Number(r[field]), 0);
+      const size = sum("cohort_size");
+      const converted = sum("converted");
+      const churned = sum("churned");
+      return {
+        cohort_size: size,
+        converted,
+        conversion_rate: rate(converted, size),
+        paying: sum("paying"),
+        churned,
+        churn_rate: rate(churned, converted),
+        conversion: query.conversion_days.map((days)=>{
+          const points = list.flatMap((r)=>r.conversion.filter((c)=>c.days === days));
+          const convertedWithin = points.reduce((total, c)=>total + Number(c.converted), 0);
+          const eligible = points.reduce((total, c)=>total + Number(c.eligible), 0);
+          return {
+            days,
+            converted: convertedWithin,
+            eligible,
+            rate: rate(convertedWithin, eligible)
+          };
+        })
+      };
+    };
+    const groups = [];
+    if (query.group_by !== "none") {
+      const byKey = new Map();
+      cohortRows.forEach((r)=>{
+        byKey.set(r.group_key, [
+          ...byKey.get(r.group_key) || [],
+          r
+        ]);
+      });
+      byKey.forEach((list, key)=>{
+        groups.push({
+          group: groupOf(key),
+          ...summarize(list)
+        });
+      });
+      groups.sort((a, b)=>b.cohort_size - a.cohort_size);
+    }
+    return new Response(JSON.stringify({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      granularity: query.granularity,
+      timezone: query.timezone,
+      group_by: query.group_by,
+      conversion_days: query.conversion_days,
+      retention_months: query.retention_months,
+      totals: summarize(cohortRows),
+      groups,
+      cohorts: cohortRows.map((r)=>({
+          cohort_start: new Date(r.cohort_start).toISOString(),
+          group: groupOf(r.group_key),
+          cohort_size: Number(r.cohort_size),
+          converted: Number(r.converted),
+          conversion_rate: rate(Number(r.converted), Number(r.cohort_size)),
+          paying: Number(r.paying),
+          churned: Number(r.churned),
+          churn_rate: rate(Number(r.churned), Number(r.converted)),
+          conversion: r.conversion.map((c)=>({
+              days: c.days,
+              converted: Number(c.converted),
+              eligible: Number(c.eligible),
+              rate: rate(Number(c.converted), Number(c.eligible))
+            })),
+          retention: r.retention.map((m)=>({
+              month: m.month,
+              paying: Number(m.paying),
+              eligible: Number(m.eligible),
+              rate: rate(Number(m.paying), Number(m.eligible))
+            })),
+          churn: r.churn.map((m)=>({
+              month: m.month,
+              churned: Number(m.churned)
+            }))
+        })),
+      generated_at: new Date().toISOString()
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
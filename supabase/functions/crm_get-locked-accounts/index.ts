@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Pagination defaults
+const DEFAULT_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 20;
+})();
+const MAX_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MAX_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 100;
+})();
+// Query validation schema
+const getLockedAccountsQuerySchema = z.object({
+  scope: z.enum([
+    "email",
+    "ip"
+  ]).optional(),
+  role: z.enum([
+    "admin",
+    "partner"
+  ]).optional(),
+  page: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || "1", 10);
+    return isNaN(parsed) || parsed < 1 ? 1 : parsed;
+  }),
+  page_size: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || `${DEFAULT_PAGE_SIZE}`, 10);
+    if (isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_SIZE;
+    if (parsed > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+    return parsed;
+  })
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "security:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse & validate query params
+    const url = new URL(req.url);
+    const validationResult = getLockedAccountsQuerySchema.safeParse({
+      scope: url.searchParams.get("scope") ?? undefined,
+      role: url.searchParams.get("role") ?? undefined,
+      page: url.searchParams.get("page") ?? undefined,
+      page_size: url.searchParams.get("page_size") ?? undefined
+    });
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const { scope, role, page, page_size: pageSize } = validationResult.data;
+    const from = (page - 1) * pageSize;
+    const to = from + pageSize - 1;
+    let query = supabase.from("crm_active_login_lockout").select("id, scope, email, role, ip_address, failed_count, locked_at, locked_until", {
+      count: "exact"
+    });
+    if (scope) query = query.eq("scope", scope);
+    if (role) query = query.eq("role", role);
+    const { data: lockouts, error: lockoutsError, count } = await query.order("locked_at", {
+      ascending: false
+    }).range(from, to);
+    if (lockoutsError) {
+      console.error("Lockout fetch error:", lockoutsError.message);
+      return createErrorResponse(`Failed to fetch locked accounts: ${lockoutsError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    const total = count ?? 0;
+    const totalPages = Math.ceil(total / pageSize);
+    return new Response(JSON.stringify({
+      locked_accounts: (lockouts || []).map((l)=>({
+          lockout_id: l.id,
+          scope: l.scope,
+          email: l.email,
+          role: l.role,
+          ip_address: l.ip_address,
+          failed_count: l.failed_count,
+          locked_at: l.locked_at,
+          locked_until: l.locked_until
+        })),
+      pagination: {
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Pagination defaults
+const DEFAULT_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 20;
+})();
+const MAX_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MAX_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 100;
+})();
+const DEFAULT_PERIOD_DAYS = 30;
+// Query validation schema; metrics are defined in supabase/migrations/00028_partner_leaderboard.sql
+const leaderboardQuerySchema = z.object({
+  from: z.string().datetime({
+    offset: true,
+    message: "from must be an ISO datetime"
+  }).optional(),
+  to: z.string().datetime({
+    offset: true,
+    message: "to must be an ISO datetime"
+  }).optional(),
+  metric: z.enum([
+    "conversions",
+    "revenue",
+    "commission",
+    "conversion_rate",
+    "signups"
+  ], {
+    errorMap: ()=>({
+        message: "metric must be one of conversions, revenue, commission, conversion_rate, signups"
+      })
+  }).optional().default("conversions"),
+  page: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || "1", 10);
+    return isNaN(parsed) || parsed < 1 ? 1 : parsed;
+  }),
+  page_size: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || `${DEFAULT_PAGE_SIZE}`, 10);
+    if (isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_SIZE;
+    if (parsed > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+    return parsed;
+  })
+}).transform((data, ctx)=>{
+  // Checked after defaulting, so a lone future `from` cannot produce an inverted period
+  const to = data.to ? new Date(data.to) : new Date();
+  const from = data.from ? new Date(data.from) : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "from must be before to",
+      path: [
+        "from"
+      ]
+    });
+    return z.NEVER;
+  }
+  return {
+    ...data,
+    from,
+    to
+  };
+});
+// Metrics shared by both variants; never includes who the partner is
+function formatMetrics(row) {
+  return {
+    signups: Number(row.signups),
+    conversions: Number(row.conversions),
+    conversion_rate: Number(row.conversion_rate),
+    revenue: Number(Number(row.revenue).toFixed(2)),
+    commission: Number(Number(row.commission).toFixed(2)),
+    avg_days_to_convert: row.avg_days_to_convert === null ? null : Number(row.avg_days_to_convert)
+  };
+}
+function formatRanking(row) {
+  const rank = Number(row.rank);
+  const previousRank = row.previous_rank === null ? null : Number(row.previous_rank);
+  return {
+    rank,
+    previous_rank: previousRank,
+    // Positive when the partner moved up since the previous period
+    rank_change: previousRank === null ? null : previousRank - rank,
+    metric_value: Number(row.metric_value),
+    previous_metric_value: row.previous_metric_value === null ? null : Number(row.previous_metric_value),
+    percentile: Number(row.percentile)
+  };
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token or Partner-Token
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always see their own position; admins need their role to grant the full board
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "partners:read");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
+    }
+    // Parse & validate query params
+    const url = new URL(req.url);
+    const params = Object.fromEntries([
+      "from",
+      "to",
+      "metric",
+      "page",
+      "page_size"
+    ].map((key)=>[
+        key,
+        url.searchParams.get(key) || undefined
+      ]));
+    const validationResult = leaderboardQuerySchema.safeParse(params);
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const { from, to, metric, page, page_size: pageSize } = validationResult.data;
+    const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()));
+    const period = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      previous_from: previousFrom.toISOString(),
+      previous_to: from.toISOString(),
+      metric
+    };
+    const rpcArgs = {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_metric: metric
+    };
+    if (payload.role === "partner") {
+      // Privacy-safe variant: the partner's own row only, no other partner's identity or numbers
+      const { data: own, error: ownError } = await supabase.rpc("crm_partner_leaderboard", rpcArgs).eq("partner_id", payload.sub).maybeSingle();
+      if (ownError) {
+        console.error("Leaderboard fetch error:", ownError);
+        throw new Error("Failed to fetch leaderboard");
+      }
+      if (!own) {
+        return createErrorResponse("Partner is inactive", 403, "FORBIDDEN", [], corsHeaders);
+      }
+      return new Response(JSON.stringify({
+        period,
+        partner_count: Number(own.partner_count),
+        ...formatRanking(own),
+        metrics: formatMetrics(own)
+      }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      });
+    }
+    const offset = (page - 1) * pageSize;
+    const { data: rows, error: boardError, count } = await supabase.rpc("crm_partner_leaderboard", rpcArgs, {
+      count: "exact"
+    }).order("rank", {
+      ascending: true
+    }).order("partner_id", {
+      ascending: true
+    }).range(offset, offset + pageSize - 1);
+    if (boardError) {
+      console.error("Leaderboard fetch error:", boardError);
+      throw new Error("Failed to fetch leaderboard");
+    }
+    const partnerIds = (rows || []).map((r)=>r.partner_id);
+    let partners = [];
+    if (partnerIds.length > 0) {
+      const { data: partnerData, error: partnerError } = await supabase.from("crm_partner").select("id, email, full_name").in("id", partnerIds);
+      if (partnerError) {
+        console.error("Partner fetch error:", partnerError);
+        throw new Error("Failed to fetch partner data");
+      }
+      partners = partnerData || [];
+    }
+    const partnerMap = new Map(partners.map((p)=>[
+        p.id,
+        p
+      ]));
+    const total = count ?? 0;
+    const totalPages = Math.ceil(total / pageSize);
+    return new Response(JSON.stringify({
+      period,
+      partner_count: total,
+      leaderboard: (rows || []).map((r)=>({
+          partner_id: r.partner_id,
+          email: partnerMap.get(r.partner_id)?.email ?? null,
+          full_name: partnerMap.get(r.partner_id)?.full_name ?? null,
+          ...formatRanking(r),
+          metrics: formatMetrics(r)
+        })),
+      pagination: {
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Query validation schema
+const getStatementQuerySchema = z.object({
+  payout_id: z.string({
+    required_error: "payout_id is required"
+  }).uuid("Invalid payout ID format"),
+  format: z.enum([
+    "json",
+    "csv"
+  ]).optional().default("json")
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Partner-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "partner"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    const url = new URL(req.url);
+    const validationResult = getStatementQuerySchema.safeParse({
+      payout_id: url.searchParams.get("payout_id") ?? undefined,
+      format: url.searchParams.get("format") ?? undefined
+    });
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const { payout_id: payoutId, format } = validationResult.data;
+    // Partners can only read their own statements
+    const { data: payout, error: payoutError } = await supabase.from("crm_payout").select("id, statement, statement_csv").eq("id", payoutId).eq("partner_id", payload.sub).maybeSingle();
+    if (payoutError) {
+      console.error("Payout fetch error:", JSON.stringify(payoutError, null, 2));
+      throw new Error("Failed to fetch payout");
+    }
+    if (!payout) {
+      return createErrorResponse("Payout not found", 404, "NOT_FOUND", [], corsHeaders);
+    }
+    if (format === "csv") {
+      return new Response(payout.statement_csv, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="payout-statement-${payout.id}.csv"`,
+          ...corsHeaders
+        }
+      });
+    }
+    return new Response(JSON.stringify({
+      payout_id: payout.id,
+      statement: payout.statement
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -1,82 +1,107 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a standardized error response
- */ function createErrorResponse(message, status = 500, code, details) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) {
-    errorResponse.code = code;
-  }
-  if (details && details.length > 0) {
-    errorResponse.details = details;
-  }
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { fetchStatsTimeSeries, parseStatsRange } from "../_shared/stats.ts";
+import { ACCESS_GRANTING_STATUSES, SubscriptionStatus } from "../_shared/subscription-status.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+const MIN_PAYOUT_AMOUNT = (()=>{
+  const n = parseFloat(Deno.env.get("CRM_MIN_PAYOUT_AMOUNT") ?? "");
+  return Number.isFinite(n) && n >= 0 ? n : 50;
+})();
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Partner-Token only
-    const partnerToken = req.headers.get("Partner-Token");
-    if (!partnerToken) {
-      return createErrorResponse("Partner-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(partnerToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "partner"
+      ]
     });
-    if (payload.role !== "partner") {
-      return createErrorResponse("Partner access required", 403);
-    }
-    if (!payload.sub) {
-      return createErrorResponse("Missing subject in token", 401);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
     }
+    const { payload } = auth;
     const partnerId = payload.sub;
+    // Optional from/to/granularity/timezone for the time series
+    const rangeResult = parseStatsRange(new URL(req.url));
+    if (!rangeResult.success) {
+      return createValidationErrorResponse(rangeResult.error, corsHeaders);
+    }
     // Get partner details
-    const { data: partner, error: partnerError } = await supabase.from("crm_partner").select("email, full_name, commission_percent, is_active, created_at, total_revenue, total_converted").eq("id", partnerId).single();
+    const { data: partner, error: partnerError } = await supabase.from("crm_partner").select("email, full_name, commission_percent, is_active, created_at, total_converted").eq("id", partnerId).single();
     if (partnerError || !partner) {
-      return createErrorResponse("Partner not found", 404);
+      return createErrorResponse("Partner not found", 404, "NOT_FOUND", [], corsHeaders);
     }
     if (!partner.is_active) {
-      return createErrorResponse("Partner is inactive", 403);
+      return createErrorResponse("Partner is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    // Commission totals come from the ledger (crm_commission_entry)
+    const { data: commission, error: commissionError } = await supabase.from("crm_partner_commission_summary").select("total_commission, pending_commission, approved_commission, paid_commission, reversed_commission, adjusted_commission, override_commission").eq("partner_id", partnerId).maybeSingle();
+    if (commissionError) {
+      console.error("Commission fetch error:", JSON.stringify(commissionError, null, 2));
+      throw new Error("Failed to fetch commission data");
+    }
+    const commissionAmount = (field)=>Number(Number(commission?.[field] ?? 0).toFixed(2));
+    const totalCommission = commissionAmount("total_commission");
+    // Payout history (crm_payout); statements are served by crm_get-partner-payout-statement
+    const { data: payouts, error: payoutsError } = await supabase.from("crm_payout").select("id, amount, currency, entry_count, created_at, crm_payout_run:payout_run_id(period_start, period_end)").eq("partner_id", partnerId).order("created_at", {
+      ascending: false
+    });
+    if (payoutsError) {
+      console.error("Payouts fetch error:", JSON.stringify(payoutsError, null, 2));
+      throw new Error("Failed to fetch payout data");
+    }
+    const totalPaidOut = (payouts || []).reduce((sum, p)=>sum + Number(p.amount), 0);
+    // Referral funnel across the partner's codes (crm_referral_code_funnel)
+    const { data: funnelRows, error: funnelError } = await supabase.from("crm_referral_code_funnel").select("clicks, unique_visitors, signups, conversions").eq("partner_id", partnerId);
+    if (funnelError) {
+      console.error("Referral funnel fetch error:", JSON.stringify(funnelError, null, 2));
+      throw new Error("Failed to fetch referral funnel");
+    }
+    const funnelTotal = (field)=>(funnelRows || []).reduce((sum, f)=>sum + Number(f[field] ?? 0), 0);
+    const referralClicks = funnelTotal("clicks");
+    const referralVisitors = funnelTotal("unique_visitors");
+    const referralSignups = funnelTotal("signups");
+    const referralConversions = funnelTotal("conversions");
+    // Downline: every sub-partner below this partner (crm_partner_downline) and their users
+    const { data: downline, error: downlineError } = await supabase.rpc("crm_partner_downline", {
+      p_partner_id: partnerId
+    });
+    if (downlineError) {
+      console.error("Downline fetch error:", JSON.stringify(downlineError, null, 2));
+      throw new Error("Failed to fetch downline");
+    }
+    const downlineIds = (downline || []).map((d)=>d.partner_id);
+    let subPartners = [];
+    let downlineUsers = [];
+    if (downlineIds.length > 0) {
+      const { data: subPartnersData, error: subPartnersError } = await supabase.from("crm_partner").select("id, full_name, is_active, parent_override_percent, total_added, total_converted, created_at").in("id", downline.filter((d)=>d.depth === 1).map((d)=>d.partner_id)).order("created_at", {
+        ascending: true
+      });
+      if (subPartnersError) {
+        console.error("Sub-partners fetch error:", JSON.stringify(subPartnersError, null, 2));
+        throw new Error("Failed to fetch sub-partners");
+      }
+      subPartners = subPartnersData || [];
+      const { data: downlineUsersData, error: downlineUsersError } = await supabase.from("crm_user_metadata").select("converted_at").in("crm_partner_id", downlineIds);
+      if (downlineUsersError) {
+        console.error("Downline users fetch error:", JSON.stringify(downlineUsersError, null, 2));
+        throw new Error("Failed to fetch downline users");
+      }
+      downlineUsers = downlineUsersData || [];
     }
     // Get user stats
     const { data: users, error: usersError } = await supabase.from("crm_user_metadata").select("subscription_status, converted_at, created_at, region, user_id").eq("crm_partner_id", partnerId);
@@ -85,10 +110,12 @@ serve(async (req)=>{
       throw new Error("Failed to fetch users");
     }
     const totalUsers = users?.length || 0;
-    const totalTrial = users?.filter((u)=>u.subscription_status === "trial").length || 0;
-    const totalPaid = users?.filter((u)=>u.subscription_status === "paid").length || 0;
-    const totalExpired = users?.filter((u)=>u.subscription_status === "expired").length || 0;
-    const totalActive = totalUsers - totalExpired;
+    const countByStatus = (status)=>users?.filter((u)=>u.subscription_status === status).length || 0;
+    const totalTrial = countByStatus(SubscriptionStatus.Trial);
+    const totalPaid = countByStatus(SubscriptionStatus.Active);
+    const totalExpired = countByStatus(SubscriptionStatus.Expired);
+    // Users whose status still grants access (trial, active, past_due, cancelled)
+    const totalActive = users?.filter((u)=>ACCESS_GRANTING_STATUSES.includes(u.subscription_status)).length || 0;
     const usersByRegion = users?.reduce((acc, u)=>{
       acc[u.region] = (acc[u.region] || 0) + 1;
       return acc;
@@ -117,6 +144,11 @@ serve(async (req)=>{
     const lastMonthConversions = users?.filter((u)=>u.converted_at && new Date(u.converted_at) >= thirtyDaysAgo).length || 0;
     // Calculate conversion rate
     const conversionRate = totalUsers > 0 ? Number((partner.total_converted / totalUsers * 100).toFixed(2)) : 0;
+    // Signups, conversions, revenue and commission per period of the requested range
+    const timeSeries = await fetchStatsTimeSeries(supabase, rangeResult.data, {
+      partnerId,
+      currency: "usd"
+    });
     return new Response(JSON.stringify({
       partner: {
         email: partner.email,
@@ -124,12 +156,13 @@ serve(async (req)=>{
         commission_percent: partner.commission_percent,
         is_active: partner.is_active,
         joined_at: partner.created_at,
-        total_revenue: Number(Number(partner.total_revenue).toFixed(2)),
+        total_revenue: totalCommission,
         total_converted: partner.total_converted
       },
       users: {
         total_users: totalUsers,
         total_pending: totalTrial,
+        total_paid: totalPaid,
         total_active: totalActive,
         total_expired: totalExpired,
         users_by_region: usersByRegion,
@@ -138,29 +171,73 @@ serve(async (req)=>{
         conversion_rate: conversionRate
       },
       revenue: {
-        total: Number(Number(partner.total_revenue).toFixed(2)),
+        total: totalCommission,
         last_month: Number(lastMonthRevenue.toFixed(2)),
         total_payments: totalPayments,
         currency: "usd"
       },
+      commission: {
+        total: totalCommission,
+        pending: commissionAmount("pending_commission"),
+        approved: commissionAmount("approved_commission"),
+        paid: commissionAmount("paid_commission"),
+        reversed: commissionAmount("reversed_commission"),
+        adjusted: commissionAmount("adjusted_commission"),
+        override: commissionAmount("override_commission"),
+        direct: Number((totalCommission - commissionAmount("override_commission")).toFixed(2))
+      },
+      payouts: {
+        pending_balance: commissionAmount("pending_commission"),
+        available_balance: commissionAmount("approved_commission"),
+        minimum_payout: MIN_PAYOUT_AMOUNT,
+        total_paid_out: Number(totalPaidOut.toFixed(2)),
+        payout_count: payouts?.length || 0,
+        history: (payouts || []).map((p)=>({
+            payout_id: p.id,
+            amount: Number(Number(p.amount).toFixed(2)),
+            currency: p.currency,
+            entry_count: p.entry_count,
+            period_start: p.crm_payout_run?.period_start ?? null,
+            period_end: p.crm_payout_run?.period_end ?? null,
+            paid_at: p.created_at
+          }))
+      },
+      referral_funnel: {
+        codes: funnelRows?.length || 0,
+        clicks: referralClicks,
+        unique_visitors: referralVisitors,
+        signups: referralSignups,
+        conversions: referralConversions,
+        signup_rate: referralVisitors > 0 ? Number((referralSignups / referralVisitors * 100).toFixed(2)) : 0,
+        conversion_rate: referralSignups > 0 ? Number((referralConversions / referralSignups * 100).toFixed(2)) : 0
+      },
+      downline: {
+        direct_partners: subPartners.length,
+        total_partners: downlineIds.length,
+        depth: (downline || []).reduce((max, d)=>Math.max(max, d.depth), 0),
+        total_users: downlineUsers.length,
+        total_converted: downlineUsers.filter((u)=>u.converted_at).length,
+        override_commission: commissionAmount("override_commission"),
+        sub_partners: subPartners.map((p)=>({
+            partner_id: p.id,
+            full_name: p.full_name,
+            is_active: p.is_active,
+            override_percent: Number(p.parent_override_percent),
+            total_added: p.total_added,
+            total_converted: p.total_converted,
+            joined_at: p.created_at
+          }))
+      },
+      time_series: timeSeries,
       generated_at: now.toISOString()
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error?.name === "JWTExpired") {
-      return createErrorResponse("Partner-Token has expired", 401);
-    }
-    if (error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid Partner-Token signature", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", JSON.stringify(error, null, 2));
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -1,54 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a standardized error response
- */ function createErrorResponse(message, status = 500, code, details) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) {
-    errorResponse.code = code;
-  }
-  if (details && details.length > 0) {
-    errorResponse.details = details;
-  }
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-/**
- * Create a validation error response from Zod errors
- */ function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path.join("."),
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Pagination configuration from environment (with safe fallbacks)
 const DEFAULT_PAGE_SIZE = (()=>{
@@ -63,41 +18,48 @@ const MAX_PAGE_SIZE = (()=>{
 const querySchema = z.object({
   partner_email: z.string().email("Invalid email format").optional(),
   page: z.number().int().min(1).optional().default(1),
-  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional()
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  include_downline: z.boolean().optional().default(false)
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "GET") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token or Partner-Token
-    const adminToken = req.headers.get("Admin-Token");
-    const partnerToken = req.headers.get("Partner-Token");
-    if (!adminToken && !partnerToken) {
-      return createErrorResponse("Admin-Token or Partner-Token header required", 401);
-    }
-    const token = adminToken || partnerToken;
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(token, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
     });
-    if (payload.role !== "admin" && payload.role !== "partner") {
-      return createErrorResponse("Admin or Partner access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always see their own users; admins need their role to grant it
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "partners:read");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
     }
     // Parse request parameters
     const url = new URL(req.url);
     const partnerEmailParam = url.searchParams.get("partner_email");
     const pageParam = url.searchParams.get("page");
     const limitParam = url.searchParams.get("limit");
+    const includeDownlineParam = url.searchParams.get("include_downline");
     // Parse and validate parameters
     const rawPage = pageParam ? Number(pageParam) : 1;
     const page = Number.isFinite(rawPage) && rawPage >= 1 ? Math.floor(rawPage) : 1;
@@ -106,7 +68,8 @@ serve(async (req)=>{
     const validated = querySchema.parse({
       partner_email: partnerEmailParam || undefined,
       page: page,
-      limit: limit
+      limit: limit,
+      include_downline: includeDownlineParam === "true"
     });
     // Determine partner email and ID
     let targetPartnerEmail = null;
@@ -115,13 +78,13 @@ serve(async (req)=>{
       // For partners, get their email from the database using their ID
       const { data: partnerData, error: partnerLookupError } = await supabase.from("crm_partner").select("email, id").eq("id", payload.sub).single();
       if (partnerLookupError || !partnerData) {
-        return createErrorResponse("Partner not found", 404);
+        return createErrorResponse("Partner not found", 404, "NOT_FOUND", [], corsHeaders);
       }
       targetPartnerEmail = partnerData.email;
       targetPartnerId = partnerData.id;
       // Partners can only view their own users
       if (validated.partner_email && validated.partner_email !== targetPartnerEmail) {
-        return createErrorResponse("Partners can only view their own users", 403);
+        return createErrorResponse("Partners can only view their own users", 403, "FORBIDDEN", [], corsHeaders);
       }
     } else if (payload.role === "admin") {
       // Admins can query by partner_email if provided
@@ -129,21 +92,40 @@ serve(async (req)=>{
         // Look up partner ID from email
         const { data: partnerData, error: partnerLookupError } = await supabase.from("crm_partner").select("id, email").eq("email", validated.partner_email).single();
         if (partnerLookupError || !partnerData) {
-          return createErrorResponse("Partner not found with provided email", 404);
+          return createErrorResponse("Partner not found with provided email", 404, "NOT_FOUND", [], corsHeaders);
         }
         targetPartnerId = partnerData.id;
         targetPartnerEmail = partnerData.email;
       }
     }
+    // Users of sub-partners (any depth) are included on request; only meaningful for a single partner
+    let partnerIds = targetPartnerId ? [
+      targetPartnerId
+    ] : [];
+    if (targetPartnerId && validated.include_downline) {
+      const { data: downline, error: downlineError } = await supabase.rpc("crm_partner_downline", {
+        p_partner_id: targetPartnerId
+      });
+      if (downlineError) {
+        console.error("Downline fetch error:", downlineError);
+        throw new Error("Failed to fetch downline");
+      }
+      partnerIds = [
+        targetPartnerId,
+        ...(downline || []).map((d)=>d.partner_id)
+      ];
+    }
     // Calculate offset based on the ACTUAL limit being used
     const offset = (page - 1) * limit;
     // Build user query with proper pagination
-    let query = supabase.from("crm_user_metadata").select("email, region, subscription_status, subscription_ends_at, created_at, converted_at, user_id", {
+    let query = supabase.from("crm_user_metadata").select("email, region, subscription_status, subscription_ends_at, created_at, converted_at, user_id, crm_partner_id", {
       count: "exact"
     }).order("created_at", {
       ascending: false
     }).range(offset, offset + limit - 1);
-    if (targetPartnerId) {
+    if (partnerIds.length > 1) {
+      query = query.in("crm_partner_id", partnerIds);
+    } else if (targetPartnerId) {
       query = query.eq("crm_partner_id", targetPartnerId);
     }
     const { data: users, error: usersError, count } = await query;
@@ -189,6 +171,8 @@ serve(async (req)=>{
     const hasPreviousPage = page > 1;
     return new Response(JSON.stringify({
       partner_info: partnerInfo,
+      include_downline: partnerIds.length > 1,
+      downline_partner_count: Math.max(partnerIds.length - 1, 0),
       users: users?.map((u)=>({
           email: u.email,
           region: u.region,
@@ -196,6 +180,8 @@ serve(async (req)=>{
           subscription_ends_at: u.subscription_ends_at,
           created_at: u.created_at,
           converted_at: u.converted_at,
+          partner_id: u.crm_partner_id,
+          via_downline: u.crm_partner_id !== targetPartnerId && !!targetPartnerId,
           total_payments: Number((paymentMap[u.user_id] || 0).toFixed(2))
         })) || [],
       pagination: {
@@ -209,23 +195,11 @@ serve(async (req)=>{
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired") {
-      return createErrorResponse("Token has expired", 401);
-    }
-    if (error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid token signature", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
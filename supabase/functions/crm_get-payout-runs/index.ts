@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, createValidationErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Pagination defaults
+const DEFAULT_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_DEFAULT_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 20;
+})();
+const MAX_PAGE_SIZE = (()=>{
+  const n = parseInt(Deno.env.get("CRM_MAX_PAGE_SIZE") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 100;
+})();
+// Query validation schema
+const getPayoutRunsQuerySchema = z.object({
+  payout_run_id: z.string().uuid("Invalid payout run ID format").optional(),
+  payout_id: z.string().uuid("Invalid payout ID format").optional(),
+  format: z.enum([
+    "json",
+    "csv"
+  ]).optional().default("json"),
+  page: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || "1", 10);
+    return isNaN(parsed) || parsed < 1 ? 1 : parsed;
+  }),
+  page_size: z.string().optional().transform((val)=>{
+    const parsed = parseInt(val || `${DEFAULT_PAGE_SIZE}`, 10);
+    if (isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_SIZE;
+    if (parsed > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+    return parsed;
+  })
+});
+function createJSONResponse(body, corsHeaders) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders
+    }
+  });
+}
+function formatRun(run) {
+  return {
+    payout_run_id: run.id,
+    period_start: run.period_start,
+    period_end: run.period_end,
+    minimum_payout: Number(run.minimum_payout),
+    partner_count: run.partner_count,
+    total_amount: Number(Number(run.total_amount).toFixed(2)),
+    note: run.note,
+    created_at: run.created_at,
+    created_by: run.crm_admin?.email ?? null
+  };
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "payouts:read");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // === Parse & validate query params ===
+    const url = new URL(req.url);
+    const validationResult = getPayoutRunsQuerySchema.safeParse({
+      payout_run_id: url.searchParams.get("payout_run_id") ?? undefined,
+      payout_id: url.searchParams.get("payout_id") ?? undefined,
+      format: url.searchParams.get("format") ?? undefined,
+      page: url.searchParams.get("page") ?? undefined,
+      page_size: url.searchParams.get("page_size") ?? undefined
+    });
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error, corsHeaders);
+    }
+    const { payout_run_id: payoutRunId, payout_id: payoutId, format, page, page_size: pageSize } = validationResult.data;
+    // === Single partner statement ===
+    if (payoutId) {
+      const { data: payout, error: payoutErr } = await supabase.from("crm_payout").select("id, statement, statement_csv").eq("id", payoutId).maybeSingle();
+      if (payoutErr) throw payoutErr;
+      if (!payout) {
+        return createErrorResponse("Payout not found", 404, "PAYOUT_NOT_FOUND", [], corsHeaders);
+      }
+      if (format === "csv") {
+        return new Response(payout.statement_csv, {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="payout-statement-${payout.id}.csv"`,
+            ...corsHeaders
+          }
+        });
+      }
+      return createJSONResponse({
+        payout_id: payout.id,
+        statement: payout.statement
+      }, corsHeaders);
+    }
+    // === Single run with its payouts ===
+    if (payoutRunId) {
+      const { data: run, error: runErr } = await supabase.from("crm_payout_run").select("id, period_start, period_end, minimum_payout, partner_count, total_amount, note, created_at, crm_admin:created_by(email)").eq("id", payoutRunId).maybeSingle();
+      if (runErr) throw runErr;
+      if (!run) {
+        return createErrorResponse("Payout run not found", 404, "PAYOUT_RUN_NOT_FOUND", [], corsHeaders);
+      }
+      const { data: payouts, error: payoutsErr } = await supabase.from("crm_payout").select("id, partner_id, amount, currency, entry_count, created_at, crm_partner:partner_id(email, full_name)").eq("payout_run_id", payoutRunId).order("amount", {
+        ascending: false
+      });
+      if (payoutsErr) throw payoutsErr;
+      return createJSONResponse({
+        payout_run: formatRun(run),
+        payouts: (payouts || []).map((p)=>({
+            payout_id: p.id,
+            partner_id: p.partner_id,
+            partner_email: p.crm_partner?.email ?? null,
+            partner_name: p.crm_partner?.full_name ?? null,
+            amount: Number(Number(p.amount).toFixed(2)),
+            currency: p.currency,
+            entry_count: p.entry_count,
+            created_at: p.created_at
+          }))
+      }, corsHeaders);
+    }
+    // === Paginated run history ===
+    const from = (page - 1) * pageSize;
+    const to = from + pageSize - 1;
+    const { data: runs, error: runsErr, count } = await supabase.from("crm_payout_run").select("id, period_start, period_end, minimum_payout, partner_count, total_amount, note, created_at, crm_admin:created_by(email)", {
+      count: "exact"
+    }).order("created_at", {
+      ascending: false
+    }).range(from, to);
+    if (runsErr) throw runsErr;
+    const total = count ?? 0;
+    const totalPages = Math.ceil(total / pageSize);
+    return createJSONResponse({
+      payout_runs: (runs || []).map(formatRun),
+      pagination: {
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1
+      }
+    }, corsHeaders);
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
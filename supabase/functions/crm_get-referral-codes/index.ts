@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+import { referralLink } from "../_shared/referrals.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Input validation schema
+const querySchema = z.object({
+  partner_id: z.string().uuid("Invalid partner ID format").optional()
+});
+function rate(numerator, denominator) {
+  return denominator > 0 ? Number((numerator / denominator * 100).toFixed(2)) : 0;
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "GET"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "GET") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token or Partner-Token
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always see their own codes; admins need their role to grant it
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "partners:read");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
+    }
+    const url = new URL(req.url);
+    const validated = querySchema.parse({
+      partner_id: url.searchParams.get("partner_id") || undefined
+    });
+    if (payload.role === "partner" && validated.partner_id && validated.partner_id !== payload.sub) {
+      return createErrorResponse("Partners can only view their own referral codes", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    const partnerId = payload.role === "partner" ? payload.sub : validated.partner_id ?? null;
+    let codesQuery = supabase.from("crm_referral_code").select("id, partner_id, code, campaign, is_active, created_at, updated_at, crm_partner:partner_id(email, full_name)").order("created_at", {
+      ascending: true
+    });
+    if (partnerId) {
+      codesQuery = codesQuery.eq("partner_id", partnerId);
+    }
+    const { data: codes, error: codesError } = await codesQuery;
+    if (codesError) {
+      console.error("Referral codes fetch error:", JSON.stringify(codesError, null, 2));
+      throw new Error("Failed to fetch referral codes");
+    }
+    // Funnel numbers per code (crm_referral_code_funnel)
+    const codeIds = (codes || []).map((c)=>c.id);
+    let funnelRows = [];
+    if (codeIds.length > 0) {
+      const { data, error: funnelError } = await supabase.from("crm_referral_code_funnel").select("referral_code_id, clicks, unique_visitors, signups, conversions").in("referral_code_id", codeIds);
+      if (funnelError) {
+        console.error("Referral funnel fetch error:", JSON.stringify(funnelError, null, 2));
+        throw new Error("Failed to fetch referral funnel");
+      }
+      funnelRows = data || [];
+    }
+    const funnelByCode = new Map(funnelRows.map((f)=>[
+        f.referral_code_id,
+        f
+      ]));
+    const totals = {
+      clicks: 0,
+      unique_visitors: 0,
+      signups: 0,
+      conversions: 0
+    };
+    const referralCodes = (codes || []).map((c)=>{
+      const f = funnelByCode.get(c.id);
+      const funnel = {
+        clicks: Number(f?.clicks ?? 0),
+        unique_visitors: Number(f?.unique_visitors ?? 0),
+        signups: Number(f?.signups ?? 0),
+        conversions: Number(f?.conversions ?? 0)
+      };
+      totals.clicks += funnel.clicks;
+      totals.unique_visitors += funnel.unique_visitors;
+      totals.signups += funnel.signups;
+      totals.conversions += funnel.conversions;
+      return {
+        referral_code_id: c.id,
+        code: c.code,
+        link: referralLink(c.code),
+        campaign: c.campaign,
+        is_active: c.is_active,
+        partner_id: c.partner_id,
+        partner_email: c.crm_partner?.email ?? null,
+        partner_name: c.crm_partner?.full_name ?? null,
+        created_at: c.created_at,
+        updated_at: c.updated_at,
+        funnel: {
+          ...funnel,
+          signup_rate: rate(funnel.signups, funnel.unique_visitors),
+          conversion_rate: rate(funnel.conversions, funnel.signups)
+        }
+      };
+    });
+    return new Response(JSON.stringify({
+      referral_codes: referralCodes,
+      totals: {
+        ...totals,
+        signup_rate: rate(totals.signups, totals.unique_visitors),
+        conversion_rate: rate(totals.conversions, totals.signups)
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
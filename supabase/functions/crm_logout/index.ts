@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { revokeSession } from "../_shared/session.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema (body is optional)
+const logoutSchema = z.object({
+  // Also revoke every other session of the same admin/partner
+  all_sessions: z.boolean().optional().default(false)
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token or Partner-Token
+    // The session is not checked: logging out twice is not an error
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ],
+      skipSessionCheck: true
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    if (!payload.jti || !payload.sub) {
+      return createErrorResponse("Token is missing session claims", 401, "INVALID_SESSION", [], corsHeaders);
+    }
+    let body = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch  {
+        return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+      }
+    }
+    const validated = logoutSchema.parse(body);
+    // Logging out twice is not an error
+    const revokedCurrent = await revokeSession(supabase, payload.jti, "logout");
+    let revokedOthers = 0;
+    if (validated.all_sessions) {
+      const { data, error } = await supabase.rpc("crm_revoke_sessions", {
+        p_principal_role: payload.role,
+        p_principal_id: payload.sub,
+        p_reason: "logout_all"
+      });
+      if (error) {
+        console.error("Failed to revoke sessions:", error.message);
+        return createErrorResponse("Failed to revoke sessions", 500, "REVOKE_ERROR", [], corsHeaders);
+      }
+      revokedOthers = data ?? 0;
+    }
+    return new Response(JSON.stringify({
+      message: "Logged out successfully",
+      revoked_sessions: (revokedCurrent ? 1 : 0) + revokedOthers
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { recordAuditLog } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { authenticateMfaEnrollment, decryptMfaSecret, generateRecoveryCodes, hashRecoveryCode } from "../_shared/mfa.ts";
+import { passwordChangeChallengeBody } from "../_shared/password.ts";
+import { issueTokens } from "../_shared/tokens.ts";
+import { verifyTotp } from "../_shared/totp.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema
+const confirmSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "code must be 6 digits")
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    const auth = await authenticateMfaEnrollment(req);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { principal, viaChallenge } = auth;
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = confirmSchema.parse(body);
+    const tableName = principal.role === "admin" ? "crm_admin" : "crm_partner";
+    const selectColumns = principal.role === "admin" ? "id, mfa_enabled, mfa_pending_secret, must_change_password" : "id, mfa_enabled, mfa_pending_secret, must_change_password, is_active";
+    const { data: account, error: fetchError } = await supabase.from(tableName).select(selectColumns).eq("id", principal.id).maybeSingle();
+    if (fetchError) {
+      console.error("Error fetching account:", fetchError.message);
+      return createErrorResponse("Failed to fetch account", 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    if (!account) {
+      return createErrorResponse("Account not found", 404, "ACCOUNT_NOT_FOUND", [], corsHeaders);
+    }
+    if (principal.role === "partner" && !account.is_active) {
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    if (account.mfa_enabled) {
+      return createErrorResponse("Two-factor authentication is already enabled", 409, "MFA_ALREADY_ENABLED", [], corsHeaders);
+    }
+    if (!account.mfa_pending_secret) {
+      return createErrorResponse("Start enrolment at crm_mfa-enroll first", 400, "MFA_NOT_ENROLLING", [], corsHeaders);
+    }
+    const step = await verifyTotp(await decryptMfaSecret(account.mfa_pending_secret), validated.code);
+    if (step === null) {
+      return createErrorResponse("Invalid verification code", 400, "INVALID_MFA_CODE", [], corsHeaders);
+    }
+    // Activate: the pending secret becomes the live one
+    const { error: updateError } = await supabase.from(tableName).update({
+      mfa_enabled: true,
+      mfa_secret: account.mfa_pending_secret,
+      mfa_pending_secret: null,
+      mfa_enabled_at: new Date().toISOString(),
+      mfa_last_used_step: step
+    }).eq("id", principal.id).eq("mfa_enabled", false);
+    if (updateError) {
+      console.error("Error enabling MFA:", updateError.message);
+      return createErrorResponse("Failed to enable two-factor authentication", 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    // Fresh recovery codes; shown once, stored hashed
+    const recoveryCodes = generateRecoveryCodes();
+    const { error: deleteError } = await supabase.from("crm_mfa_recovery_code").delete().eq("principal_role", principal.role).eq("principal_id", principal.id);
+    if (deleteError) {
+      console.error("Error clearing recovery codes:", deleteError.message);
+    }
+    const { error: insertError } = await supabase.from("crm_mfa_recovery_code").insert(await Promise.all(recoveryCodes.map(async (code)=>({
+        principal_id: principal.id,
+        principal_role: principal.role,
+        code_hash: await hashRecoveryCode(code)
+      }))));
+    if (insertError) {
+      console.error("Error storing recovery codes:", insertError.message);
+      return createErrorResponse("Two-factor authentication enabled but recovery codes could not be stored", 500, "RECOVERY_CODES_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, {
+      id: principal.id,
+      role: principal.role
+    }, {
+      action: `${principal.role}.mfa_enable`,
+      targetType: principal.role,
+      targetId: principal.id,
+      changes: {
+        mfa_enabled: {
+          from: false,
+          to: true
+        }
+      }
+    });
+    // Enrolment required at login: finish the login now
+    let tokens = {};
+    if (viaChallenge) {
+      tokens = account.must_change_password ? await passwordChangeChallengeBody(principal) : (await issueTokens(supabase, req, principal)).body;
+    }
+    return new Response(JSON.stringify({
+      message: "Two-factor authentication enabled",
+      recovery_codes: recoveryCodes,
+      ...tokens
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { authenticateMfaEnrollment, encryptMfaSecret, MFA_ISSUER } from "../_shared/mfa.ts";
+import { buildOtpAuthUri, generateTotpSecret, TOTP_DIGITS, TOTP_PERIOD_SECONDS } from "../_shared/totp.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Signed-in admin/partner, or an account that must enrol before logging in
+    const auth = await authenticateMfaEnrollment(req);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { principal } = auth;
+    const tableName = principal.role === "admin" ? "crm_admin" : "crm_partner";
+    const selectColumns = principal.role === "admin" ? "id, email, mfa_enabled" : "id, email, mfa_enabled, is_active";
+    const { data: account, error: fetchError } = await supabase.from(tableName).select(selectColumns).eq("id", principal.id).maybeSingle();
+    if (fetchError) {
+      console.error("Error fetching account:", fetchError.message);
+      return createErrorResponse("Failed to fetch account", 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    if (!account) {
+      return createErrorResponse("Account not found", 404, "ACCOUNT_NOT_FOUND", [], corsHeaders);
+    }
+    if (principal.role === "partner" && !account.is_active) {
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    if (account.mfa_enabled) {
+      return createErrorResponse("Two-factor authentication is already enabled", 409, "MFA_ALREADY_ENABLED", [], corsHeaders);
+    }
+    // Pending until confirmed with a valid code at crm_mfa-confirm
+    const secret = generateTotpSecret();
+    const { error: updateError } = await supabase.from(tableName).update({
+      mfa_pending_secret: await encryptMfaSecret(secret)
+    }).eq("id", principal.id);
+    if (updateError) {
+      console.error("Error storing MFA secret:", updateError.message);
+      return createErrorResponse("Failed to start enrolment", 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    return new Response(JSON.stringify({
+      message: "Scan the QR code with your authenticator app, then confirm with a code",
+      secret,
+      otpauth_uri: buildOtpAuthUri(secret, account.email, MFA_ISSUER),
+      issuer: MFA_ISSUER,
+      digits: TOTP_DIGITS,
+      period: TOTP_PERIOD_SECONDS
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { getRequestContext } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkLoginLockout, progressiveDelay, recordLoginAttempt, retryAfterSeconds } from "../_shared/login-throttle.ts";
+import { decryptMfaSecret, hashRecoveryCode, verifyMfaChallenge } from "../_shared/mfa.ts";
+import { passwordChangeChallengeBody } from "../_shared/password.ts";
+import { issueTokens } from "../_shared/tokens.ts";
+import { verifyTotp } from "../_shared/totp.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema: a TOTP code or a one-time recovery code
+const verifySchema = z.object({
+  mfa_token: z.string().min(1, "mfa_token is required"),
+  code: z.string().regex(/^\d{6}$/, "code must be 6 digits").optional(),
+  recovery_code: z.string().min(1).optional()
+}).refine((data)=>!!data.code !== !!data.recovery_code, {
+  message: "Provide either code or recovery_code",
+  path: [
+    "code"
+  ]
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = verifySchema.parse(body);
+    const principal = await verifyMfaChallenge(validated.mfa_token, "verify");
+    if (!principal) {
+      return createErrorResponse("Invalid or expired MFA token", 401, "INVALID_MFA_TOKEN", [], corsHeaders);
+    }
+    const tableName = principal.role === "admin" ? "crm_admin" : "crm_partner";
+    const selectColumns = principal.role === "admin" ? "id, email, mfa_enabled, mfa_secret, must_change_password" : "id, email, mfa_enabled, mfa_secret, must_change_password, is_active";
+    const { data: account, error: fetchError } = await supabase.from(tableName).select(selectColumns).eq("id", principal.id).maybeSingle();
+    if (fetchError) {
+      console.error("Error fetching account:", fetchError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    if (!account || !account.mfa_enabled) {
+      return createErrorResponse("Invalid or expired MFA token", 401, "INVALID_MFA_TOKEN", [], corsHeaders);
+    }
+    if (principal.role === "partner" && !account.is_active) {
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    // Code guessing counts towards the same lockout as password guessing
+    const requestContext = getRequestContext(req);
+    const lockout = await checkLoginLockout(supabase, account.email, principal.role, requestContext.ip_address);
+    if (lockout.lockedUntil) {
+      return createErrorResponse("Invalid verification code", 401, "INVALID_MFA_CODE", [], {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(lockout.lockedUntil))
+      });
+    }
+    await progressiveDelay(lockout.emailFailures);
+    let verified = false;
+    let usedRecoveryCode = false;
+    if (validated.code) {
+      const step = await verifyTotp(await decryptMfaSecret(account.mfa_secret), validated.code);
+      if (step !== null) {
+        // Each time step is accepted once
+        const { data: consumed, error: consumeError } = await supabase.rpc("crm_consume_mfa_step", {
+          p_principal_role: principal.role,
+          p_principal_id: principal.id,
+          p_step: step
+        });
+        if (consumeError) {
+          console.error("Error consuming MFA step:", consumeError.message);
+          return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+        }
+        verified = consumed === true;
+      }
+    } else {
+      const { data: used, error: useError } = await supabase.from("crm_mfa_recovery_code").update({
+        used_at: new Date().toISOString()
+      }).eq("principal_role", principal.role).eq("principal_id", principal.id).eq("code_hash", await hashRecoveryCode(validated.recovery_code)).is("used_at", null).select("id");
+      if (useError) {
+        console.error("Error using recovery code:", useError.message);
+        return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+      }
+      verified = (used?.length ?? 0) > 0;
+      usedRecoveryCode = verified;
+    }
+    const lockedUntil = await recordLoginAttempt(supabase, {
+      email: account.email,
+      role: principal.role,
+      ipAddress: requestContext.ip_address,
+      userAgent: requestContext.user_agent,
+      success: verified
+    });
+    if (!verified) {
+      return createErrorResponse("Invalid verification code", 401, "INVALID_MFA_CODE", [], lockedUntil ? {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(lockedUntil))
+      } : corsHeaders);
+    }
+    // A forced password change still comes before Admin-Token/Partner-Token
+    const tokens = account.must_change_password ? await passwordChangeChallengeBody(principal) : (await issueTokens(supabase, req, principal)).body;
+    let recoveryCodesRemaining;
+    if (usedRecoveryCode) {
+      const { count } = await supabase.from("crm_mfa_recovery_code").select("id", {
+        count: "exact",
+        head: true
+      }).eq("principal_role", principal.role).eq("principal_id", principal.id).is("used_at", null);
+      recoveryCodesRemaining = count ?? 0;
+    }
+    return new Response(JSON.stringify({
+      ...tokens,
+      ...usedRecoveryCode && {
+        recovery_codes_remaining: recoveryCodesRemaining
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
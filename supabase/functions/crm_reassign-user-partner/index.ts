@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+const MAX_USERS_PER_REQUEST = (()=>{
+  const n = parseInt(Deno.env.get("CRM_REASSIGN_MAX_USERS") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 500;
+})();
+// What happens to unpaid commission already earned (see supabase/migrations/00023_partner_reassignment.sql)
+const DEFAULT_COMMISSION_POLICY = Deno.env.get("CRM_REASSIGN_COMMISSION_POLICY") === "transfer" ? "transfer" : "stay";
+// Validation schema; user_id for one user or user_ids for many, partner_id null detaches them from any partner
+const reassignSchema = z.object({
+  user_id: z.string().uuid("Invalid user ID format").optional(),
+  user_ids: z.array(z.string().uuid("Invalid user ID format")).min(1, "At least one user is required").max(MAX_USERS_PER_REQUEST, `At most ${MAX_USERS_PER_REQUEST} users per request`).optional(),
+  partner_id: z.string().uuid("Invalid partner ID format").nullable(),
+  commission_policy: z.enum([
+    "stay",
+    "transfer"
+  ], {
+    errorMap: ()=>({
+        message: "commission_policy must be 'stay' or 'transfer'"
+      })
+  }).optional().default(DEFAULT_COMMISSION_POLICY),
+  reason: z.string().trim().min(1, "A reason is required").max(500, "Reason must be at most 500 characters")
+}).refine((body)=>!body.user_id !== !body.user_ids, {
+  message: "Provide either user_id or user_ids",
+  path: [
+    "user_ids"
+  ]
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "users:reassign");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = reassignSchema.parse(body);
+    const userIds = validated.user_ids ?? [
+      validated.user_id
+    ];
+    if (validated.partner_id) {
+      const { data: partner, error: partnerError } = await supabase.from("crm_partner").select("id, is_active").eq("id", validated.partner_id).maybeSingle();
+      if (partnerError) {
+        console.error("Error fetching partner:", partnerError.message);
+        return createErrorResponse(`Failed to fetch partner: ${partnerError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+      }
+      if (!partner) {
+        return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND", [], corsHeaders);
+      }
+      if (!partner.is_active) {
+        return createErrorResponse("Cannot assign users to an inactive partner", 400, "PARTNER_INACTIVE", [], corsHeaders);
+      }
+    }
+    // One transaction: locks the users, moves partner counters, applies the commission policy
+    // and records an attribution event per reassigned user
+    const { data: rows, error: reassignError } = await supabase.rpc("crm_reassign_users_partner", {
+      p_user_ids: userIds,
+      p_partner_id: validated.partner_id,
+      p_actor_id: payload.sub,
+      p_reason: validated.reason,
+      p_commission_policy: validated.commission_policy
+    });
+    if (reassignError) {
+      console.error("Reassign error:", reassignError.message);
+      return createErrorResponse(`Failed to reassign users: ${reassignError.message}`, 500, "REASSIGN_ERROR", [], corsHeaders);
+    }
+    const results = rows || [];
+    // A single user that does not exist is a 404, as for other single-record endpoints
+    if (validated.user_id && results[0]?.outcome === "not_found") {
+      return createErrorResponse("User not found", 404, "USER_NOT_FOUND", [], corsHeaders);
+    }
+    const reassigned = results.filter((r)=>r.outcome === "reassigned");
+    for (const r of reassigned){
+      await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+        action: "user.reassign_partner",
+        targetType: "user",
+        targetId: r.user_id,
+        changes: {
+          crm_partner_id: {
+            from: r.previous_partner_id,
+            to: validated.partner_id
+          }
+        },
+        metadata: {
+          email: r.email,
+          reason: validated.reason,
+          commission_policy: validated.commission_policy,
+          transferred_amount: Number(r.transferred_amount)
+        }
+      });
+    }
+    const countOutcome = (outcome)=>results.filter((r)=>r.outcome === outcome).length;
+    return new Response(JSON.stringify({
+      message: reassigned.length > 0 ? `Reassigned ${reassigned.length} user(s)` : "No changes detected",
+      partner_id: validated.partner_id,
+      commission_policy: validated.commission_policy,
+      summary: {
+        reassigned: reassigned.length,
+        unchanged: countOutcome("unchanged"),
+        not_found: countOutcome("not_found"),
+        transferred_amount: Number(reassigned.reduce((sum, r)=>sum + Number(r.transferred_amount), 0).toFixed(2))
+      },
+      results: results.map((r)=>({
+          user_id: r.user_id,
+          email: r.email,
+          previous_partner_id: r.previous_partner_id,
+          outcome: r.outcome,
+          transferred_amount: Number(r.transferred_amount)
+        }))
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,431 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { getRequestContext, recordAuditLog } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { retryAfterSeconds } from "../_shared/login-throttle.ts";
+import { createPasswordToken, generateUnusablePassword, passwordTokenValidity } from "../_shared/password-token.ts";
+import { findActiveReferralCode, recordAttributionEvent, referralCodeSchema, resolveAttribution } from "../_shared/referrals.ts";
+import { SubscriptionStatus } from "../_shared/subscription-status.ts";
+// ========== SENDGRID CONFIGURATION ==========
+const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
+const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@yourdomain.com";
+const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "Your CRM Team";
+// ============================================
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Configuration
+function envInt(name, fallback) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+const TRIAL_DAYS = envInt("CRM_DEFAULT_TRIAL_DAYS", 15);
+const MAX_SIGNUPS_PER_IP = envInt("CRM_SIGNUP_MAX_PER_IP", 10);
+const WINDOW_MINUTES = envInt("CRM_SIGNUP_WINDOW_MINUTES", 60);
+// Every answer takes at least this long, so creating an account does not reveal whether one existed
+const MIN_RESPONSE_MS = envInt("CRM_SIGNUP_MIN_RESPONSE_MS", 1500);
+const UNIFORM_MESSAGE = "Check your inbox: if this email can be registered, a link to set your password has been sent.";
+// Public self-signup from the main site; the referral code and/or the visitor_id issued by
+// crm_track-referral-click decide which partner the user is attributed to
+const signupSchema = z.object({
+  email: z.string().email("Invalid email format"),
+  region: z.enum([
+    "India",
+    "International"
+  ], {
+    errorMap: ()=>({
+        message: "Region must be 'India' or 'International'"
+      })
+  }),
+  referral_code: referralCodeSchema.optional(),
+  visitor_id: z.string().trim().min(1).max(64).optional()
+});
+/**
+ * Create email HTML template
+ */
+function createEmailTemplate(email, setupUrl, trialDays) {
+  return `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>
+      .preheader { display:none !important; visibility:hidden; opacity:0; color:transparent; height:0; width:0; overflow:hidden; mso-hide:all; }
+      @media only screen and (max-width: 600px) {
+        .container { width: 100% !important; }
+      }
+    </style>
+  </head>
+  <body style="margin:0; padding:0; background-color:#f6f7fb; font-family: Arial, Helvetica, sans-serif; color:#222;">
+    <div class="preheader">
+      Welcome to FxLabs Prime. Set your password to start your ${trialDays}-day trial.
+    </div>
+
+    <!-- Header -->
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:20px;">
+      <tr>
+        <td align="center">
+          <table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="max-width:600px; width:90%; background:#07c05c; color:#ffffff; border-radius:12px; overflow:hidden; font-family:Arial,Helvetica,sans-serif;">
+            <tr>
+              <td style="padding:14px 16px;">
+                <span style="display:inline-block;vertical-align:middle;">
+                  <img src="https://hyajwhtkwldrmlhfiuwg.supabase.co/storage/v1/object/public/fxlabs-public/fxlabs_logo_white.png" width="18" height="18" alt="FxLabs Prime" style="vertical-align:middle;display:inline-block" />
+                </span>
+                <span style="display:inline-block;vertical-align:middle;font-weight:700;margin-left:8px;">FxLabs Prime</span>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+
+    <!-- Main Body -->
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:30px;">
+      <tr>
+        <td align="center">
+          <table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="max-width:600px; width:90%; background-color:#ffffff; border-radius:12px; padding:30px;">
+            <tr>
+              <td>
+                <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 30px;">
+                  <tr>
+                    <td align="center" style="padding:0;">
+                      <span style="font-size:48px; font-weight:bold; color:#04af47; line-height:1.2;">Welcome</span>
+                      <span style="font-size:48px; font-weight:bold; color:#04af47; line-height:1.2; margin-left:8px;">Pro Trader</span>
+                    </td>
+                  </tr>
+                </table>
+
+                <!-- Credentials Box -->
+                <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff; border:2px solid #04af47; border-radius:12px; margin:16px 0; box-shadow:0 4px 8px rgba(0,0,0,0.1);">
+                  <tr>
+                    <td style="padding:24px; font-size:14px; line-height:1.6;">
+                      <strong style="color:#111; font-size:15px;">Your Account</strong>
+                      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:12px;">
+                        <tr>
+                          <td style="padding:8px 0; color:#555; font-weight:600;">Email:</td>
+                          <td style="padding:8px 0; color:#111;">${email}</td>
+                        </tr>
+                        <tr>
+                          <td style="padding:8px 0; color:#555; font-weight:600;">Trial Period:</td>
+                          <td style="padding:8px 0; color:#111;">${trialDays} days</td>
+                        </tr>
+                      </table>
+                    </td>
+                  </tr>
+                </table>
+
+                <!-- CTA -->
+                <p style="margin:20px 0 0; text-align:center;">
+                  <a href="${setupUrl}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Set your FxLabs Prime password">
+                    Set Your Password
+                  </a>
+                </p>
+                <p style="margin:12px 0 0; text-align:center; font-size:13px; color:#555;">
+                  This link works only once and expires in ${passwordTokenValidity("invite")}.
+                </p>
+
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+
+    <!-- Footer -->
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:20px; padding:20px 0;">
+      <tr>
+        <td align="center" style="font-size:12px; color:#555; line-height:1.6; max-width:600px; padding:0 20px;">
+        FxLabs Prime offers market insights for informational and educational use only.  
+        This is not financial advice or an offer to trade. Forex, CFD, and crypto trading involve high risk.  
+        Data may be delayed or inaccurate; FxLabs Prime is not liable for any losses.  
+        By using this service, you agree to our 
+        <a href="https://fxlabsprime.com/terms-of-service" target="_blank" rel="noopener noreferrer" style="color:#07c05c; text-decoration:none;">Terms of Service</a> 
+        and 
+        <a href="https://fxlabsprime.com/privacy-policy" target="_blank" rel="noopener noreferrer" style="color:#07c05c; text-decoration:none;">Privacy Policy</a>.  
+        <br/><br/>
+        Join us on Telegram community: 
+        <a href="https://t.me/fxlabsprime" target="_blank" rel="noopener noreferrer" style="color:#07c05c; text-decoration:none;">@fxlabsprime</a>
+      </td>
+      </tr>
+    </table>
+  </body>
+</html>
+  `.trim();
+}
+/**
+ * Send email via SendGrid with 1 retry
+ */ async function sendEmail(email, setupUrl, trialDays) {
+  if (!SENDGRID_API_KEY) {
+    console.error("❌ SendGrid API key not configured");
+    return {
+      success: false,
+      error: "Email service not configured"
+    };
+  }
+  const emailData = {
+    personalizations: [
+      {
+        to: [
+          {
+            email
+          }
+        ],
+        subject: "Welcome to FxLabs Prime"
+      }
+    ],
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME
+    },
+    content: [
+      {
+        type: "text/html",
+        value: createEmailTemplate(email, setupUrl, trialDays)
+      }
+    ]
+  };
+  // Try sending email twice (initial + 1 retry)
+  for(let attempt = 1; attempt <= 2; attempt++){
+    try {
+      console.log(`📧 Sending email to ${email} (attempt ${attempt}/2)`);
+      const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${SENDGRID_API_KEY}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(emailData)
+      });
+      if (response.ok) {
+        console.log(`✅ Email sent successfully to ${email}`);
+        return {
+          success: true
+        };
+      }
+      const errorText = await response.text();
+      console.error(`❌ SendGrid error for ${email} (${response.status}): ${errorText}`);
+      // Retry only on first attempt
+      if (attempt === 1) {
+        console.log(`🔄 Retrying email to ${email}...`);
+        await new Promise((resolve)=>setTimeout(resolve, 1000));
+        continue;
+      }
+      return {
+        success: false,
+        error: `SendGrid error: ${response.status}`
+      };
+    } catch (error) {
+      console.error(`❌ Exception sending email to ${email}:`, error);
+      // Retry only on first attempt
+      if (attempt === 1) {
+        console.log(`🔄 Retrying email to ${email}...`);
+        await new Promise((resolve)=>setTimeout(resolve, 1000));
+        continue;
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Network error"
+      };
+    }
+  }
+  return {
+    success: false,
+    error: "Failed after retry"
+  };
+}
+/**
+ * Creates the auth user and crm_user_metadata attributed per the resolved attribution, then emails
+ * a password setup link. Existing emails keep their partner; a referral presented for one is recorded.
+ */ async function signUpUser(req, email, region, attribution) {
+  const referralCode = attribution.referralCode;
+  const { data: existingMeta, error: metaCheckError } = await supabase.from("crm_user_metadata").select("user_id, crm_partner_id").eq("email", email).maybeSingle();
+  if (metaCheckError) {
+    throw new Error(`Database check failed: ${metaCheckError.message}`);
+  }
+  if (existingMeta) {
+    console.log(`⚠️ Signup for existing email ignored: ${email}`);
+    if (referralCode) {
+      await recordAttributionEvent(supabase, {
+        eventType: "duplicate_rejected",
+        email,
+        userId: existingMeta.user_id,
+        partnerId: referralCode.partner_id,
+        previousPartnerId: existingMeta.crm_partner_id,
+        referralCodeId: referralCode.id,
+        referralClickId: attribution.referralClickId,
+        model: attribution.model,
+        actor: {
+          id: null,
+          role: "system"
+        },
+        reason: "Email already registered"
+      });
+    }
+    return;
+  }
+  // Create auth user with a throwaway password; the user sets theirs via the invite link
+  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+    email,
+    password: generateUnusablePassword(),
+    email_confirm: true
+  });
+  if (authError || !authUser?.user) {
+    // Also the path for an auth user without CRM metadata; not revealed to the caller
+    console.error(`❌ Auth create error for ${email}:`, authError?.message || "No user returned");
+    return;
+  }
+  const authUserId = authUser.user.id;
+  const subscriptionEndsAt = new Date(Date.now() + TRIAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error: metaError } = await supabase.from("crm_user_metadata").insert({
+    user_id: authUserId,
+    email,
+    region,
+    crm_partner_id: referralCode?.partner_id ?? null,
+    referral_code_id: referralCode?.id ?? null,
+    subscription_status: SubscriptionStatus.Trial,
+    subscription_ends_at: subscriptionEndsAt
+  });
+  if (metaError) {
+    console.error(`❌ Metadata insert error for ${email}:`, metaError.message);
+    // Cleanup auth user so the email can sign up again
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(authUserId);
+    if (deleteError) {
+      console.error(`❌ CRITICAL: Failed to cleanup auth user ${authUserId}:`, deleteError.message);
+      console.error(`⚠️ Manual intervention required: Delete auth user ${authUserId} for email ${email}`);
+    }
+    throw new Error(`Metadata creation failed: ${metaError.message}`);
+  }
+  // The user already exists, so a failed email is not rolled back
+  let emailResult;
+  try {
+    const { url: setupUrl } = await createPasswordToken(supabase, {
+      principalId: authUserId,
+      role: "user",
+      purpose: "invite"
+    });
+    emailResult = await sendEmail(email, setupUrl, TRIAL_DAYS);
+  } catch (tokenError) {
+    console.error(`❌ Failed to issue setup link for ${email}:`, tokenError);
+    emailResult = {
+      success: false,
+      error: "Failed to issue password setup link"
+    };
+  }
+  if (!emailResult.success) {
+    console.warn(`⚠️ User signed up but email failed for ${email}: ${emailResult.error}`);
+  }
+  await recordAttributionEvent(supabase, {
+    eventType: "signup",
+    email,
+    userId: authUserId,
+    partnerId: referralCode?.partner_id ?? null,
+    referralCodeId: referralCode?.id ?? null,
+    referralClickId: attribution.referralClickId,
+    model: attribution.model,
+    actor: {
+      id: authUserId,
+      role: "user"
+    }
+  });
+  await recordAuditLog(supabase, req, {
+    id: authUserId,
+    role: "user"
+  }, {
+    action: "user.signup",
+    targetType: "user",
+    targetId: authUserId,
+    changes: {
+      email: {
+        from: null,
+        to: email
+      },
+      crm_partner_id: {
+        from: null,
+        to: referralCode?.partner_id ?? null
+      }
+    },
+    metadata: {
+      referral_code: referralCode?.code ?? null,
+      attribution_model: attribution.model,
+      email_sent: emailResult.success
+    }
+  });
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ],
+    allowSiteOrigins: true
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  const startedAt = Date.now();
+  const padResponseTime = ()=>new Promise((r)=>setTimeout(r, Math.max(MIN_RESPONSE_MS - (Date.now() - startedAt), 0)));
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = signupSchema.parse(body);
+    const email = validated.email.trim().toLowerCase();
+    // An unusable code is reported rather than silently signing the user up unattributed
+    let presentedCode = null;
+    if (validated.referral_code) {
+      presentedCode = await findActiveReferralCode(supabase, validated.referral_code);
+      if (!presentedCode) {
+        return createErrorResponse("Invalid referral code", 400, "INVALID_REFERRAL_CODE", [], corsHeaders);
+      }
+    }
+    const attribution = await resolveAttribution(supabase, {
+      visitorId: validated.visitor_id,
+      presentedCode
+    });
+    const requestContext = getRequestContext(req);
+    // Counted per IP whether or not the email already exists
+    const { data: limitRows, error: limitError } = await supabase.rpc("crm_record_referral_signup", {
+      p_email: email,
+      p_referral_code_id: attribution.referralCode?.id ?? null,
+      p_ip_address: requestContext.ip_address,
+      p_user_agent: requestContext.user_agent,
+      p_max_per_ip: MAX_SIGNUPS_PER_IP,
+      p_window_minutes: WINDOW_MINUTES
+    });
+    if (limitError) {
+      console.error("Error recording signup:", limitError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    const limit = limitRows?.[0];
+    if (limit && !limit.allowed) {
+      return createErrorResponse("Too many requests. Please try again later.", 429, "RATE_LIMITED", [], {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(new Date(limit.retry_after)))
+      });
+    }
+    try {
+      await signUpUser(req, email, validated.region, attribution);
+    } catch (error) {
+      console.error("Signup processing error:", error);
+    }
+    await padResponseTime();
+    return new Response(JSON.stringify({
+      message: UNIFORM_MESSAGE
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
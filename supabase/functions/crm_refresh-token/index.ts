@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { getJWTSecret, hashRefreshToken, issueTokens } from "../_shared/tokens.ts";
+// Initialize Supabase client
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Define schema
+const refreshSchema = z.object({
+  refresh_token: z.string().min(1, "refresh_token is required")
+});
+// Revoke the whole token family; used on reuse and when the principal lost access
+async function revokeFamily(familyId, reason) {
+  const { error } = await supabase.rpc("crm_revoke_token_family", {
+    p_family_id: familyId,
+    p_reason: reason
+  });
+  if (error) {
+    console.error(`Failed to revoke token family ${familyId}:`, error.message);
+  }
+}
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = refreshSchema.parse(body);
+    try {
+      getJWTSecret();
+    } catch  {
+      return createErrorResponse("JWT secret configuration error", 500, "JWT_SECRET_ERROR", [], corsHeaders);
+    }
+    // Look up the presented token by hash
+    const tokenHash = await hashRefreshToken(validated.refresh_token);
+    const { data: stored, error: lookupError } = await supabase.from("crm_refresh_token").select("id, family_id, principal_id, principal_role, expires_at, used_at, revoked_at").eq("token_hash", tokenHash).maybeSingle();
+    if (lookupError) {
+      console.error("Refresh token lookup error:", lookupError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    if (!stored) {
+      return createErrorResponse("Invalid refresh token", 401, "INVALID_REFRESH_TOKEN", [], corsHeaders);
+    }
+    if (stored.revoked_at) {
+      return createErrorResponse("Refresh token has been revoked", 401, "REFRESH_TOKEN_REVOKED", [], corsHeaders);
+    }
+    // A rotated token presented again means it leaked: kill the whole family
+    if (stored.used_at) {
+      console.warn(`Refresh token reuse detected for family ${stored.family_id}`);
+      await revokeFamily(stored.family_id, "refresh_token_reuse");
+      return createErrorResponse("Refresh token has already been used", 401, "REFRESH_TOKEN_REUSED", [], corsHeaders);
+    }
+    if (new Date(stored.expires_at) <= new Date()) {
+      return createErrorResponse("Refresh token has expired", 401, "REFRESH_TOKEN_EXPIRED", [], corsHeaders);
+    }
+    // Claim the token; losing this race to a concurrent request is also reuse
+    const { data: claimed, error: claimError } = await supabase.from("crm_refresh_token").update({
+      used_at: new Date().toISOString()
+    }).eq("id", stored.id).is("used_at", null).is("revoked_at", null).select("id");
+    if (claimError) {
+      console.error("Refresh token claim error:", claimError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    if (!claimed?.length) {
+      console.warn(`Concurrent refresh token reuse detected for family ${stored.family_id}`);
+      await revokeFamily(stored.family_id, "refresh_token_reuse");
+      return createErrorResponse("Refresh token has already been used", 401, "REFRESH_TOKEN_REUSED", [], corsHeaders);
+    }
+    // Re-check the principal before issuing new access
+    const tableName = stored.principal_role === "admin" ? "crm_admin" : "crm_partner";
+    const selectColumns = stored.principal_role === "admin" ? "id" : "id, is_active";
+    const { data: principal, error: principalError } = await supabase.from(tableName).select(selectColumns).eq("id", stored.principal_id).maybeSingle();
+    if (principalError) {
+      console.error("Principal lookup error:", principalError.message);
+      return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR", [], corsHeaders);
+    }
+    if (!principal) {
+      await revokeFamily(stored.family_id, "principal_deleted");
+      return createErrorResponse("Invalid refresh token", 401, "INVALID_REFRESH_TOKEN", [], corsHeaders);
+    }
+    if (stored.principal_role === "partner" && !principal.is_active) {
+      await revokeFamily(stored.family_id, "deactivated");
+      return createErrorResponse("Account is inactive", 403, "FORBIDDEN", [], corsHeaders);
+    }
+    // Rotate: new access token + refresh token in the same family
+    const { refreshTokenId, body: tokens } = await issueTokens(supabase, req, {
+      id: stored.principal_id,
+      role: stored.principal_role,
+      familyId: stored.family_id
+    });
+    await supabase.from("crm_refresh_token").update({
+      replaced_by: refreshTokenId
+    }).eq("id", stored.id);
+    return new Response(JSON.stringify(tokens), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -1,70 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-import { hashSync } from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { hashPassword } from "../_shared/password.ts";
+import { createPasswordToken, generateUnusablePassword, passwordTokenValidity } from "../_shared/password-token.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // SendGrid & App Config
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@fxlabsprime.com";
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "FxLabs Prime Partner Team";
-const LOGIN_URL = "https://crm.fxlabsprime.com/login/partner";
-// JWT Secret
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) throw new Error("CRM_CUSTOM_JWT_SECRET not set");
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const res = {
-    error: message
-  };
-  if (code) res.code = code;
-  if (details.length > 0) res.details = details;
-  return new Response(JSON.stringify(res), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError) {
-  const details = zodError.issues.map((i)=>({
-      field: i.path.join("."),
-      message: i.message
-    }));
-  return createErrorResponse("Validation error", 400, "VALIDATION_ERROR", details);
-}
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // === Validation ===
 const resetPartnerPasswordSchema = z.object({
   email: z.string().email("Invalid email format")
 });
-/**
- * Generate 8-character alphanumeric password (FxLabs Prime standard)
- */ function generatePassword() {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
-  let password = "";
-  const array = new Uint8Array(8);
-  crypto.getRandomValues(array);
-  for(let i = 0; i < 8; i++){
-    password += chars[array[i] % chars.length];
-  }
-  return password;
-}
 /**
  * Partner password reset email template
- */ function createPartnerPasswordResetEmailTemplate(email, password, fullName) {
+ */ function createPartnerPasswordResetEmailTemplate(email, resetUrl, fullName) {
   return `
 <!DOCTYPE html>
 <html>
@@ -107,36 +61,13 @@ const resetPartnerPasswordSchema = z.object({
             <td>
               <h2 style="margin:0 0 12px; color:#111; font-size:20px;">Hello, ${fullName}!</h2>
               <p style="margin:0 0 16px; color:#444;">
-                Your <strong>FxLabs Prime Partner Portal</strong> password has been reset by an administrator.
+                Your <strong>FxLabs Prime Partner Portal</strong> password for <strong>${email}</strong> has been reset by an administrator. Choose a new password to sign in again.
               </p>
 
-              <!-- Credentials -->
-              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f8f9fc; border:1px solid #e1e5eb; border-radius:8px; margin:16px 0;">
-                <tr>
-                  <td style="padding:20px;">
-                    <strong style="color:#111; font-size:15px;">Your New Login Credentials</strong>
-                    <table role="presentation" width="100%" style="margin-top:12px;">
-                      <tr>
-                        <td style="padding:6px 0; color:#555; font-weight:600;">Email:</td>
-                        <td style="padding:6px 0; color:#111;">${email}</td>
-                      </tr>
-                      <tr>
-                        <td style="padding:6px 0; color:#555; font-weight:600;">Password:</td>
-                        <td style="padding:6px 0;">
-                          <span style="font-family: 'Courier New', monospace; background:#fff; padding:6px 12px; border-radius:4px; font-size:16px; font-weight:bold; color:#07c05c; letter-spacing:2px; border:1px solid #ddd;">
-                            ${password}
-                          </span>
-                        </td>
-                      </tr>
-                    </table>
-                  </td>
-                </tr>
-              </table>
-
               <!-- CTA -->
               <p style="text-align:center; margin:20px 0 0;">
-                <a href="${LOGIN_URL}" style="background:#07c05c; color:#fff; padding:12px 32px; border-radius:6px; text-decoration:none; font-weight:bold; font-size:15px; display:inline-block;">
-                  Login to Partner Portal
+                <a href="${resetUrl}" style="background:#07c05c; color:#fff; padding:12px 32px; border-radius:6px; text-decoration:none; font-weight:bold; font-size:15px; display:inline-block;">
+                  Set New Password
                 </a>
               </p>
 
@@ -144,7 +75,7 @@ const resetPartnerPasswordSchema = z.object({
               <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff4e6; border:1px solid #ffcc80; border-radius:8px; margin:20px 0 0;">
                 <tr>
                   <td style="padding:14px 16px; font-size:14px; color:#e65100;">
-                    <strong>Security Required:</strong> Change this password <strong>immediately</strong> after your first login.
+                    <strong>Security Required:</strong> This link works <strong>once</strong> and expires in ${passwordTokenValidity("reset")}. Never share it with anyone.
                   </td>
                 </tr>
               </table>
@@ -193,7 +124,7 @@ const resetPartnerPasswordSchema = z.object({
 }
 /**
  * Send email with retry
- */ async function sendPartnerPasswordResetEmail(email, password, fullName) {
+ */ async function sendPartnerPasswordResetEmail(email, resetUrl, fullName) {
   if (!SENDGRID_API_KEY) {
     console.error("SendGrid not configured");
     return {
@@ -219,7 +150,7 @@ const resetPartnerPasswordSchema = z.object({
     content: [
       {
         type: "text/html",
-        value: createPartnerPasswordResetEmailTemplate(email, password, fullName)
+        value: createPartnerPasswordResetEmailTemplate(email, resetUrl, fullName)
       }
     ]
   };
@@ -269,37 +200,41 @@ const resetPartnerPasswordSchema = z.object({
 }
 // === MAIN HANDLER ===
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "POST") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // === Admin Token Check ===
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token required", 401, "MISSING_TOKEN");
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch  {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403, "FORBIDDEN");
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "partners:password:reset");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // === Parse & Validate Body ===
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = resetPartnerPasswordSchema.parse(body);
     const email = validated.email.trim().toLowerCase();
@@ -308,30 +243,43 @@ serve(async (req)=>{
     const { data: partner, error: dbError } = await supabase.from("crm_partner").select("id, email, full_name, is_active").eq("email", email).maybeSingle();
     if (dbError) {
       console.error("Database error:", dbError.message);
-      return createErrorResponse(`Database error: ${dbError.message}`, 500, "DB_ERROR");
+      return createErrorResponse(`Database error: ${dbError.message}`, 500, "DB_ERROR", [], corsHeaders);
     }
     if (!partner) {
       console.log(`Partner not found: ${email}`);
-      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND");
+      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND", [], corsHeaders);
     }
     if (!partner.is_active) {
-      return createErrorResponse("Cannot reset password for inactive partner", 403, "PARTNER_INACTIVE");
+      return createErrorResponse("Cannot reset password for inactive partner", 403, "PARTNER_INACTIVE", [], corsHeaders);
     }
-    // === Generate New Password & Hash ===
-    const newPassword = generatePassword();
-    const newPasswordHash = hashSync(newPassword);
-    // === Update Password Hash in Database ===
+    // === Invalidate Current Password ===
+    // Replaced by a throwaway hash (also revoking sessions) until the partner completes the reset link
     const { error: updateError } = await supabase.from("crm_partner").update({
-      password_hash: newPasswordHash,
+      password_hash: hashPassword(generateUnusablePassword()),
       updated_at: new Date().toISOString()
     }).eq("id", partner.id);
     if (updateError) {
       console.error("Password update failed:", updateError.message);
-      return createErrorResponse(`Failed to update password: ${updateError.message}`, 500, "UPDATE_ERROR");
+      return createErrorResponse(`Failed to update password: ${updateError.message}`, 500, "UPDATE_ERROR", [], corsHeaders);
     }
-    console.log(`Password hash updated for partner: ${email}`);
+    console.log(`Password invalidated for partner: ${email}`);
+    // === Issue Reset Link ===
+    const { url: resetUrl, expiresAt } = await createPasswordToken(supabase, {
+      principalId: partner.id,
+      role: "partner",
+      purpose: "reset",
+      createdBy: payload.sub
+    });
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "partner.password_reset",
+      targetType: "partner",
+      targetId: partner.id,
+      metadata: {
+        email: email
+      }
+    });
     // === Send Email ===
-    const emailResult = await sendPartnerPasswordResetEmail(email, newPassword, partner.full_name || "Partner");
+    const emailResult = await sendPartnerPasswordResetEmail(email, resetUrl, partner.full_name || "Partner");
     if (!emailResult.success) {
       console.warn(`Email failed for partner ${email}: ${emailResult.error}`);
       return new Response(JSON.stringify({
@@ -341,11 +289,12 @@ serve(async (req)=>{
         full_name: partner.full_name,
         email_sent: false,
         email_error: emailResult.error,
-        warning: "Partner password updated in DB but email failed. Notify manually."
+        warning: "Partner password invalidated but the reset link email failed. Run the reset again to send a new link."
       }), {
         status: 207,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...corsHeaders
         }
       });
     }
@@ -353,24 +302,16 @@ serve(async (req)=>{
     return new Response(JSON.stringify({
       message: "Partner password reset and email sent",
       full_name: partner.full_name,
-      email_sent: true
+      email_sent: true,
+      link_expires_at: expiresAt.toISOString()
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401, "TOKEN_ERROR");
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400, "INVALID_JWT");
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500, "INTERNAL_ERROR");
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -1,67 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { createPasswordToken, generateUnusablePassword, passwordTokenValidity } from "../_shared/password-token.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // SendGrid Configuration
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@yourdomain.com";
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "Your CRM Team";
-const LOGIN_URL = "https://fxlabsprime.com";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details?.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path?.join(".") || "",
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Validation schema
 const resetPasswordSchema = z.object({
   email: z.string().email("Invalid email format")
 });
-/**
- * Generate 8-digit alphanumeric password
- */ function generatePassword() {
-  const charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  const array = new Uint8Array(8);
-  crypto.getRandomValues(array);
-  return Array.from(array, (byte)=>charset[byte % charset.length]).join("");
-}
 /**
  * Create password reset email HTML template
- */ function createPasswordResetEmailTemplate(email, password) {
+ */ function createPasswordResetEmailTemplate(email, resetUrl) {
   return `
 <!DOCTYPE html>
 <html>
@@ -106,36 +62,15 @@ const resetPasswordSchema = z.object({
           <table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="max-width:600px; width:90%; background-color:#ffffff; border-radius:12px; padding:30px;">
             <tr>
               <td>
-                <h2 style="margin:0 0 12px; color:#111;">Password Reset Successful</h2>
+                <h2 style="margin:0 0 12px; color:#111;">Reset Your Password</h2>
                 <p style="margin:0 0 16px;">
-                  Your password for <strong>FxLabs Prime</strong> has been reset. Below are your new login credentials.
+                  Your password for <strong>FxLabs Prime</strong> (<strong>${email}</strong>) has been reset. Choose a new password to sign in again.
                 </p>
 
-                <!-- Credentials Box -->
-                <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f7fb; border:1px solid #e6e7ec; border-radius:8px; margin:16px 0;">
-                  <tr>
-                    <td style="padding:20px; font-size:14px; line-height:1.6;">
-                      <strong style="color:#111; font-size:15px;">Your New Login Credentials</strong>
-                      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-top:12px;">
-                        <tr>
-                          <td style="padding:8px 0; color:#555; font-weight:600;">Email:</td>
-                          <td style="padding:8px 0; color:#111;">${email}</td>
-                        </tr>
-                        <tr>
-                          <td style="padding:8px 0; color:#555; font-weight:600;">New Password:</td>
-                          <td style="padding:8px 0;">
-                            <span style="font-family: 'Courier New', monospace; background-color:#fff; padding:6px 12px; border-radius:4px; font-size:16px; font-weight:bold; color:#07c05c; letter-spacing:2px; border:1px solid #e6e7ec;">${password}</span>
-                          </td>
-                        </tr>
-                      </table>
-                    </td>
-                  </tr>
-                </table>
-
                 <!-- CTA -->
                 <p style="margin:20px 0 0; text-align:center;">
-                  <a href="${LOGIN_URL}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Login to FxLabs Prime">
-                    Login to FxLabs Prime
+                  <a href="${resetUrl}" style="display:inline-block; background-color:#07c05c; color:#ffffff; text-decoration:none; padding:12px 32px; border-radius:6px; font-weight:bold; font-size:15px;" aria-label="Set a new FxLabs Prime password">
+                    Set New Password
                   </a>
                 </p>
 
@@ -143,7 +78,7 @@ const resetPasswordSchema = z.object({
                 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff7e6; border:1px solid #ffd59e; border-radius:8px; margin:20px 0 0;">
                   <tr>
                     <td style="padding:14px 16px; font-size:14px; line-height:1.6; color:#663c00;">
-                      <strong>Important:</strong> For security purposes, please change your password immediately after logging in. Go to <strong>Your Profile</strong> and update your password.
+                      <strong>Important:</strong> This link works only once and expires in ${passwordTokenValidity("reset")}. Never share it with anyone.
                     </td>
                   </tr>
                 </table>
@@ -200,7 +135,7 @@ const resetPasswordSchema = z.object({
 }
 /**
  * Send password reset email via SendGrid with 1 retry
- */ async function sendPasswordResetEmail(email, password) {
+ */ async function sendPasswordResetEmail(email, resetUrl) {
   if (!SENDGRID_API_KEY) {
     console.error("SendGrid API key not configured");
     return {
@@ -226,7 +161,7 @@ const resetPasswordSchema = z.object({
     content: [
       {
         type: "text/html",
-        value: createPasswordResetEmailTemplate(email, password)
+        value: createPasswordResetEmailTemplate(email, resetUrl)
       }
     ]
   };
@@ -280,37 +215,41 @@ const resetPasswordSchema = z.object({
   };
 }
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "POST") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token only
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "users:password:reset");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     // Parse and validate request body
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = resetPasswordSchema.parse(body);
     const normalizedEmail = validated.email.trim().toLowerCase();
@@ -319,25 +258,36 @@ serve(async (req)=>{
     const { data: user, error: fetchError } = await supabase.from("crm_user_metadata").select("user_id, email").eq("email", normalizedEmail).maybeSingle();
     if (fetchError) {
       console.error("Error fetching user:", fetchError.message);
-      return createErrorResponse(`Failed to fetch user: ${fetchError.message}`, 500, "FETCH_ERROR");
+      return createErrorResponse(`Failed to fetch user: ${fetchError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
     }
     if (!user) {
-      return createErrorResponse("User not found", 404, "USER_NOT_FOUND");
+      return createErrorResponse("User not found", 404, "USER_NOT_FOUND", [], corsHeaders);
     }
-    // Generate new password
-    const newPassword = generatePassword();
-    console.log(`Generated new password for ${user.email}: ${newPassword}`);
-    // Update password in auth
+    // Invalidate the current password until the user completes the reset link
     const { error: updatePasswordError } = await supabase.auth.admin.updateUserById(user.user_id, {
-      password: newPassword
+      password: generateUnusablePassword()
     });
     if (updatePasswordError) {
       console.error("Error updating password:", updatePasswordError.message);
-      return createErrorResponse(`Failed to update password: ${updatePasswordError.message}`, 500, "PASSWORD_UPDATE_ERROR");
+      return createErrorResponse(`Failed to update password: ${updatePasswordError.message}`, 500, "PASSWORD_UPDATE_ERROR", [], corsHeaders);
     }
-    console.log(`Password updated successfully for ${user.email}`);
-    // Send email with new password
-    const emailResult = await sendPasswordResetEmail(user.email, newPassword);
+    console.log(`Password invalidated for ${user.email}`);
+    const { url: resetUrl, expiresAt } = await createPasswordToken(supabase, {
+      principalId: user.user_id,
+      role: "user",
+      purpose: "reset",
+      createdBy: payload.sub
+    });
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "user.password_reset",
+      targetType: "user",
+      targetId: user.user_id,
+      metadata: {
+        email: user.email
+      }
+    });
+    // Send email with reset link
+    const emailResult = await sendPasswordResetEmail(user.email, resetUrl);
     if (!emailResult.success) {
       console.warn(`Password was reset but email failed for ${user.email}: ${emailResult.error}`);
       return new Response(JSON.stringify({
@@ -345,11 +295,12 @@ serve(async (req)=>{
         email: user.email,
         email_sent: false,
         email_error: emailResult.error,
-        warning: "User password has been changed but they were not notified via email"
+        warning: "User password has been invalidated but the reset link could not be emailed. Run the reset again to send a new link."
       }), {
         status: 207,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...corsHeaders
         }
       });
     }
@@ -357,24 +308,16 @@ serve(async (req)=>{
     return new Response(JSON.stringify({
       message: "Password reset successfully and email sent",
       email: user.email,
-      email_sent: true
+      email_sent: true,
+      link_expires_at: expiresAt.toISOString()
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
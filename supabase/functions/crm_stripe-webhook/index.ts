@@ -0,0 +1,382 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createErrorResponse } from "../_shared/http.ts";
+import { SubscriptionStatus, statusesAllowingTransitionTo } from "../_shared/subscription-status.ts";
+// ========== STRIPE CONFIGURATION ==========
+// The recorded events in ./fixtures can be replayed against a local secret with
+// `npm run replay:stripe-webhook` (scripts/replay-stripe-webhook.mjs)
+const STRIPE_WEBHOOK_SECRET = Deno.env.get("CRM_STRIPE_WEBHOOK_SECRET");
+// Maximum age of a signed payload in seconds; the check cannot be turned off, so 0 or
+// negative values fall back to the default like any other invalid value
+const SIGNATURE_TOLERANCE_SECONDS = (()=>{
+  const n = parseInt(Deno.env.get("CRM_STRIPE_WEBHOOK_TOLERANCE_SECONDS") ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 300;
+})();
+// Currencies Stripe reports in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "bif",
+  "clp",
+  "djf",
+  "gnf",
+  "jpy",
+  "kmf",
+  "krw",
+  "mga",
+  "pyg",
+  "rwf",
+  "ugx",
+  "vnd",
+  "vuv",
+  "xaf",
+  "xof",
+  "xpf"
+]);
+// ============================================
+function createReceivedResponse(extra = {}) {
+  return new Response(JSON.stringify({
+    received: true,
+    ...extra
+  }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json"
+    }
+  });
+}
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+/**
+ * Constant-time comparison of two hex strings
+ */ function timingSafeEqual(a, b) {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for(let i = 0; i < a.length; i++){
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+/**
+ * Verify the Stripe-Signature header (t=<timestamp>,v1=<hmac>) against the raw body
+ */ async function verifyStripeSignature(payload, signatureHeader, secret) {
+  const parts = signatureHeader.split(",").map((part)=>part.trim().split("="));
+  const timestamp = parts.find(([key])=>key === "t")?.[1];
+  const signatures = parts.filter(([key])=>key === "v1").map(([, value])=>value);
+  if (!timestamp || signatures.length === 0) return false;
+  const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), {
+    name: "HMAC",
+    hash: "SHA-256"
+  }, false, [
+    "sign"
+  ]);
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${payload}`));
+  const expected = Array.from(new Uint8Array(digest), (byte)=>byte.toString(16).padStart(2, "0")).join("");
+  return signatures.some((signature)=>timingSafeEqual(signature, expected));
+}
+/**
+ * Convert a Stripe amount (minor units) to the decimal amount stored in crm_payment
+ */ function toMajorUnits(amount, currency) {
+  const value = Number(amount ?? 0);
+  return ZERO_DECIMAL_CURRENCIES.has(currency) ? value : value / 100;
+}
+function toISOString(unixSeconds) {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+/**
+ * Resolve the CRM user for a Stripe object: explicit user id, then linked customer, then email
+ */ async function findUserId({ userId, customerId, email }) {
+  if (userId) {
+    const { data, error } = await supabase.from("crm_user_metadata").select("user_id").eq("user_id", userId).maybeSingle();
+    if (error) throw new Error(`Failed to look up user ${userId}: ${error.message}`);
+    if (data) return data.user_id;
+  }
+  if (customerId) {
+    const { data, error } = await supabase.from("crm_user_metadata").select("user_id").eq("stripe_customer_id", customerId).maybeSingle();
+    if (error) throw new Error(`Failed to look up customer ${customerId}: ${error.message}`);
+    if (data) return data.user_id;
+  }
+  if (email) {
+    const { data, error } = await supabase.from("crm_user_metadata").select("user_id").eq("email", email.trim().toLowerCase()).maybeSingle();
+    if (error) throw new Error(`Failed to look up email ${email}: ${error.message}`);
+    if (data) return data.user_id;
+  }
+  return null;
+}
+/**
+ * Store the Stripe customer id on crm_user_metadata if it is not linked yet
+ */ async function linkStripeCustomer(userId, customerId) {
+  if (!customerId) return;
+  const { error } = await supabase.from("crm_user_metadata").update({
+    stripe_customer_id: customerId
+  }).eq("user_id", userId).or(`stripe_customer_id.is.null,stripe_customer_id.neq.${customerId}`);
+  if (error) throw new Error(`Failed to link Stripe customer ${customerId}: ${error.message}`);
+}
+/**
+ * Insert a payment, ignoring duplicates of the same stripe_payment_id
+ */ async function recordPayment(payment) {
+  const { data, error } = await supabase.from("crm_payment").upsert(payment, {
+    onConflict: "stripe_payment_id",
+    ignoreDuplicates: true
+  }).select("id");
+  if (error) throw new Error(`Failed to record payment ${payment.stripe_payment_id}: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+}
+/**
+ * Push subscription_ends_at forward to the end of the billed period (never backwards)
+ */ async function extendSubscription(userId, periodEnd) {
+  const endsAt = toISOString(periodEnd);
+  const { data, error } = await supabase.from("crm_user_metadata").update({
+    subscription_ends_at: endsAt,
+    subscription_status: SubscriptionStatus.Active
+  }).eq("user_id", userId).or(`subscription_ends_at.is.null,subscription_ends_at.lt.${endsAt}`).select("user_id");
+  if (error) throw new Error(`Failed to extend subscription for ${userId}: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+}
+/**
+ * Move a user to another lifecycle status, skipping rows the transition trigger would reject
+ */ async function setSubscriptionStatus(userId, status) {
+  const { data, error } = await supabase.from("crm_user_metadata").update({
+    subscription_status: status
+  }).eq("user_id", userId).in("subscription_status", statusesAllowingTransitionTo(status)).neq("subscription_status", status).select("user_id");
+  if (error) throw new Error(`Failed to set status ${status} for ${userId}: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+}
+// === Event handlers ===
+async function handleCheckoutSessionCompleted(event) {
+  const session = event.data.object;
+  if (session.payment_status !== "paid") {
+    return {
+      ignored: "payment_not_completed"
+    };
+  }
+  const customerId = typeof session.customer === "string" ? session.customer : session.customer?.id;
+  const userId = await findUserId({
+    userId: session.client_reference_id ?? session.metadata?.user_id,
+    customerId,
+    email: session.customer_details?.email ?? session.customer_email
+  });
+  if (!userId) {
+    console.warn(`No CRM user found for checkout session ${session.id}`);
+    return {
+      ignored: "user_not_found"
+    };
+  }
+  await linkStripeCustomer(userId, customerId);
+  // Subscription checkouts are billed through invoices; invoice.paid records the payment
+  if (session.mode === "subscription") {
+    return {
+      user_id: userId,
+      customer_linked: !!customerId
+    };
+  }
+  const currency = (session.currency ?? "usd").toLowerCase();
+  const inserted = await recordPayment({
+    user_id: userId,
+    amount: toMajorUnits(session.amount_total, currency),
+    currency,
+    stripe_payment_id: session.payment_intent ?? session.id,
+    stripe_customer_id: customerId ?? null,
+    paid_at: toISOString(event.created)
+  });
+  return {
+    user_id: userId,
+    payment_recorded: inserted
+  };
+}
+async function handleInvoicePaid(event) {
+  const invoice = event.data.object;
+  const customerId = typeof invoice.customer === "string" ? invoice.customer : invoice.customer?.id;
+  const userId = await findUserId({
+    userId: invoice.subscription_details?.metadata?.user_id ?? invoice.metadata?.user_id,
+    customerId,
+    email: invoice.customer_email
+  });
+  if (!userId) {
+    console.warn(`No CRM user found for invoice ${invoice.id}`);
+    return {
+      ignored: "user_not_found"
+    };
+  }
+  await linkStripeCustomer(userId, customerId);
+  const currency = (invoice.currency ?? "usd").toLowerCase();
+  let inserted = false;
+  // Zero-amount invoices (e.g. Stripe-managed trials) extend access but are not revenue
+  if (Number(invoice.amount_paid ?? 0) > 0) {
+    inserted = await recordPayment({
+      user_id: userId,
+      amount: toMajorUnits(invoice.amount_paid, currency),
+      currency,
+      stripe_payment_id: invoice.payment_intent ?? invoice.charge ?? invoice.id,
+      stripe_customer_id: customerId ?? null,
+      stripe_invoice_id: invoice.id,
+      paid_at: toISOString(invoice.status_transitions?.paid_at ?? event.created)
+    });
+  }
+  const periodEnds = (invoice.lines?.data ?? []).map((line)=>line.period?.end).filter((end)=>Number.isFinite(end));
+  const periodEnd = periodEnds.length > 0 ? Math.max(...periodEnds) : invoice.period_end;
+  const extended = periodEnd ? await extendSubscription(userId, periodEnd) : false;
+  return {
+    user_id: userId,
+    payment_recorded: inserted,
+    subscription_extended: extended
+  };
+}
+async function handleChargeRefunded(event) {
+  const charge = event.data.object;
+  const candidateIds = [
+    charge.payment_intent,
+    charge.id,
+    charge.invoice
+  ].filter(Boolean);
+  const { data: payment, error: fetchError } = await supabase.from("crm_payment").select("id, user_id, amount, refunded_amount").in("stripe_payment_id", candidateIds).maybeSingle();
+  if (fetchError) throw new Error(`Failed to look up refunded charge ${charge.id}: ${fetchError.message}`);
+  if (!payment) {
+    console.warn(`No payment found for refunded charge ${charge.id}`);
+    return {
+      ignored: "payment_not_found"
+    };
+  }
+  // amount_refunded is cumulative, so replays converge on the same value
+  const currency = (charge.currency ?? "usd").toLowerCase();
+  const refundedAmount = Math.min(toMajorUnits(charge.amount_refunded, currency), Number(payment.amount));
+  if (refundedAmount <= Number(payment.refunded_amount)) {
+    return {
+      payment_id: payment.id,
+      refund_recorded: false
+    };
+  }
+  const { error: updateError } = await supabase.from("crm_payment").update({
+    refunded_amount: refundedAmount,
+    refunded_at: toISOString(event.created)
+  }).eq("id", payment.id);
+  if (updateError) throw new Error(`Failed to record refund for payment ${payment.id}: ${updateError.message}`);
+  // A full refund of the payment funding the current period revokes the subscription
+  let statusChanged = false;
+  if (refundedAmount >= Number(payment.amount)) {
+    const { data: latestPayment, error: latestError } = await supabase.from("crm_payment").select("id").eq("user_id", payment.user_id).order("paid_at", {
+      ascending: false
+    }).limit(1).maybeSingle();
+    if (latestError) throw new Error(`Failed to look up latest payment for ${payment.user_id}: ${latestError.message}`);
+    if (latestPayment?.id === payment.id) {
+      statusChanged = await setSubscriptionStatus(payment.user_id, SubscriptionStatus.Refunded);
+    }
+  }
+  return {
+    payment_id: payment.id,
+    refund_recorded: true,
+    subscription_refunded: statusChanged
+  };
+}
+async function handleInvoicePaymentFailed(event) {
+  const invoice = event.data.object;
+  const customerId = typeof invoice.customer === "string" ? invoice.customer : invoice.customer?.id;
+  const userId = await findUserId({
+    userId: invoice.subscription_details?.metadata?.user_id ?? invoice.metadata?.user_id,
+    customerId,
+    email: invoice.customer_email
+  });
+  if (!userId) {
+    console.warn(`No CRM user found for failed invoice ${invoice.id}`);
+    return {
+      ignored: "user_not_found"
+    };
+  }
+  return {
+    user_id: userId,
+    status_changed: await setSubscriptionStatus(userId, SubscriptionStatus.PastDue)
+  };
+}
+async function handleSubscriptionDeleted(event) {
+  const subscription = event.data.object;
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer?.id;
+  const userId = await findUserId({
+    userId: subscription.metadata?.user_id,
+    customerId,
+    email: null
+  });
+  if (!userId) {
+    console.warn(`No CRM user found for subscription ${subscription.id}`);
+    return {
+      ignored: "user_not_found"
+    };
+  }
+  // Access continues until subscription_ends_at; crm_update_expired_subscriptions expires it
+  return {
+    user_id: userId,
+    status_changed: await setSubscriptionStatus(userId, SubscriptionStatus.Cancelled)
+  };
+}
+const eventHandlers = {
+  "checkout.session.completed": handleCheckoutSessionCompleted,
+  "invoice.paid": handleInvoicePaid,
+  "invoice.payment_failed": handleInvoicePaymentFailed,
+  "customer.subscription.deleted": handleSubscriptionDeleted,
+  "charge.refunded": handleChargeRefunded
+};
+serve(async (req)=>{
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+  if (!STRIPE_WEBHOOK_SECRET) {
+    console.error("CRM_STRIPE_WEBHOOK_SECRET is not configured");
+    return createErrorResponse("Webhook secret configuration error", 500, "WEBHOOK_SECRET_ERROR");
+  }
+  // === 1. Verify signature against the raw body ===
+  const signatureHeader = req.headers.get("Stripe-Signature");
+  if (!signatureHeader) {
+    return createErrorResponse("Stripe-Signature header required", 400, "MISSING_SIGNATURE");
+  }
+  const rawBody = await req.text();
+  if (!await verifyStripeSignature(rawBody, signatureHeader, STRIPE_WEBHOOK_SECRET)) {
+    return createErrorResponse("Invalid Stripe signature", 400, "INVALID_SIGNATURE");
+  }
+  let event;
+  try {
+    event = JSON.parse(rawBody);
+  } catch  {
+    return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+  }
+  if (!event?.id || !event?.type || !event?.data?.object) {
+    return createErrorResponse("Malformed Stripe event", 400, "INVALID_EVENT");
+  }
+  const handler = eventHandlers[event.type];
+  if (!handler) {
+    return createReceivedResponse({
+      ignored: "unhandled_event_type"
+    });
+  }
+  try {
+    // === 2. Skip events that were already processed ===
+    const { data: existingEvent, error: eventFetchError } = await supabase.from("crm_stripe_event").select("processed_at").eq("id", event.id).maybeSingle();
+    if (eventFetchError) throw new Error(`Failed to check event ${event.id}: ${eventFetchError.message}`);
+    if (existingEvent?.processed_at) {
+      return createReceivedResponse({
+        duplicate: true
+      });
+    }
+    if (!existingEvent) {
+      const { error: eventInsertError } = await supabase.from("crm_stripe_event").upsert({
+        id: event.id,
+        type: event.type
+      }, {
+        onConflict: "id",
+        ignoreDuplicates: true
+      });
+      if (eventInsertError) throw new Error(`Failed to store event ${event.id}: ${eventInsertError.message}`);
+    }
+    // === 3. Apply the event ===
+    console.log(`Processing Stripe event ${event.id} (${event.type})`);
+    const result = await handler(event);
+    const { error: eventUpdateError } = await supabase.from("crm_stripe_event").update({
+      processed_at: new Date().toISOString()
+    }).eq("id", event.id);
+    if (eventUpdateError) {
+      console.error(`Failed to mark event ${event.id} processed:`, eventUpdateError.message);
+    }
+    return createReceivedResponse(result);
+  } catch (error) {
+    // Non-2xx makes Stripe retry the delivery; all handlers are idempotent
+    console.error(`Error processing Stripe event ${event.id}:`, error);
+    return createErrorResponse("Webhook processing failed", 500, "WEBHOOK_PROCESSING_FAILED");
+  }
+});
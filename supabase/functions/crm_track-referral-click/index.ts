@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { getRequestContext } from "../_shared/audit.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { retryAfterSeconds } from "../_shared/login-throttle.ts";
+import { ATTRIBUTION, findActiveReferralCode, referralCodeSchema } from "../_shared/referrals.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Configuration
+function envInt(name, fallback) {
+  const n = parseInt(Deno.env.get(name) ?? "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+const MAX_CLICKS_PER_IP = envInt("CRM_REFERRAL_CLICK_MAX_PER_IP", 60);
+const WINDOW_MINUTES = envInt("CRM_REFERRAL_CLICK_WINDOW_MINUTES", 60);
+// Public endpoint called by the landing page when a visitor arrives with ?ref=<code>.
+// The page keeps the returned visitor_id (cookie or local storage) until attribution_expires_at
+// and sends it with every later click and with crm_referral-signup.
+const trackClickSchema = z.object({
+  code: referralCodeSchema,
+  visitor_id: z.string().trim().min(1).max(64).optional(),
+  landing_url: z.string().url("Invalid landing URL").max(2048).optional(),
+  referrer: z.string().max(2048).optional()
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ],
+    allowSiteOrigins: true
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = trackClickSchema.parse(body);
+    const referralCode = await findActiveReferralCode(supabase, validated.code);
+    if (!referralCode) {
+      return createErrorResponse("Invalid referral code", 404, "INVALID_REFERRAL_CODE", [], corsHeaders);
+    }
+    const visitorId = validated.visitor_id ?? crypto.randomUUID();
+    const requestContext = getRequestContext(req);
+    // Rate-limited per IP; clicks over the limit are not recorded
+    const { data: limitRows, error: limitError } = await supabase.rpc("crm_record_referral_click", {
+      p_referral_code_id: referralCode.id,
+      p_partner_id: referralCode.partner_id,
+      p_visitor_id: visitorId,
+      p_landing_url: validated.landing_url ?? null,
+      p_referrer: validated.referrer || null,
+      p_ip_address: requestContext.ip_address,
+      p_user_agent: requestContext.user_agent,
+      p_max_per_ip: MAX_CLICKS_PER_IP,
+      p_window_minutes: WINDOW_MINUTES
+    });
+    if (limitError) {
+      console.error("Error recording referral click:", limitError.message);
+      throw new Error("Failed to record referral click");
+    }
+    const limit = limitRows?.[0];
+    if (limit && !limit.allowed) {
+      return createErrorResponse("Too many requests. Please try again later.", 429, "RATE_LIMITED", [], {
+        ...corsHeaders,
+        "Retry-After": String(retryAfterSeconds(new Date(limit.retry_after)))
+      });
+    }
+    return new Response(JSON.stringify({
+      code: referralCode.code,
+      tracked: true,
+      visitor_id: visitorId,
+      attribution_window_days: ATTRIBUTION.windowDays,
+      attribution_expires_at: new Date(Date.now() + ATTRIBUTION.windowDays * 24 * 60 * 60 * 1000).toISOString()
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Validation schema: one lockout by id, every lockout of an email+role, or of an IP
+const unlockAccountSchema = z.object({
+  lockout_id: z.string().uuid("Invalid lockout ID format").optional(),
+  email: z.string().email("Invalid email format").optional(),
+  role: z.enum([
+    "admin",
+    "partner"
+  ]).optional(),
+  ip_address: z.string().min(1).optional()
+}).refine((data)=>!!data.lockout_id || !!data.email && !!data.role || !!data.ip_address, {
+  message: "Provide lockout_id, email and role, or ip_address",
+  path: [
+    "lockout_id"
+  ]
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "POST"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "POST") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token only
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Check the admin's role grants this action
+    const permissionError = checkPermission(payload, "security:write");
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = unlockAccountSchema.parse(body);
+    // Lift every matching active lockout
+    let query = supabase.from("crm_login_lockout").update({
+      unlocked_at: new Date().toISOString(),
+      unlocked_by: payload.sub
+    }).is("unlocked_at", null).gt("locked_until", new Date().toISOString());
+    if (validated.lockout_id) {
+      query = query.eq("id", validated.lockout_id);
+    } else if (validated.email) {
+      query = query.eq("scope", "email").eq("email", validated.email.trim().toLowerCase()).eq("role", validated.role);
+    } else {
+      query = query.eq("scope", "ip").eq("ip_address", validated.ip_address);
+    }
+    const { data: unlocked, error: unlockError } = await query.select("id, scope, email, role, ip_address, locked_until");
+    if (unlockError) {
+      console.error("Error unlocking account:", unlockError.message);
+      return createErrorResponse(`Failed to unlock account: ${unlockError.message}`, 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    if (!unlocked?.length) {
+      return createErrorResponse("No active lockout found", 404, "LOCKOUT_NOT_FOUND", [], corsHeaders);
+    }
+    for (const lockout of unlocked){
+      await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+        action: "login_lockout.unlock",
+        targetType: "login_lockout",
+        targetId: lockout.id,
+        metadata: {
+          scope: lockout.scope,
+          email: lockout.email,
+          role: lockout.role,
+          ip_address: lockout.ip_address,
+          locked_until: lockout.locked_until
+        }
+      });
+    }
+    console.log(`Unlocked ${unlocked.length} lockout(s)`);
+    return new Response(JSON.stringify({
+      message: `Unlocked ${unlocked.length} lockout(s)`,
+      unlocked: unlocked.map((l)=>({
+          lockout_id: l.id,
+          scope: l.scope,
+          email: l.email,
+          role: l.role,
+          ip_address: l.ip_address
+        }))
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
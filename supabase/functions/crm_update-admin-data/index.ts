@@ -1,52 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, diffChanges, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 // ========== SENDGRID CONFIGURATION ==========
 const SENDGRID_API_KEY = Deno.env.get("CRM_SENDGRID_API_KEY");
 const FROM_EMAIL = Deno.env.get("CRM_FROM_EMAIL") || "noreply@yourdomain.com";
 const FROM_NAME = Deno.env.get("CRM_FROM_NAME") || "Your CRM Team";
 const LOGIN_URL = "https://crm.fxlabsprime.com/login/admin";
 // ============================================
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path?.join(".") || "",
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
 /**
  * Email template for email change
  */ function createEmailChangeTemplate(oldEmail, newEmail, fullName) {
@@ -236,58 +200,70 @@ function createValidationErrorResponse(zodError, status = 400) {
 }
 // Initialize Supabase
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
-// Validation schema - ONLY email & full_name allowed
+// Validation schema - ONLY email, full_name, mfa_required & admin_role allowed
 const updateAdminSchema = z.object({
   existing_email: z.string().email("Invalid existing email format"),
   email: z.string().email("Invalid new email format").optional(),
-  full_name: z.string().min(1, "Full name cannot be empty").optional()
-}).refine((data)=>data.email || data.full_name, {
-  message: "At least one field (email or full_name) must be provided",
+  full_name: z.string().min(1, "Full name cannot be empty").optional(),
+  mfa_required: z.boolean().optional(),
+  admin_role: z.string().min(1, "admin_role cannot be empty").optional()
+}).refine((data)=>data.email || data.full_name || data.mfa_required !== undefined || data.admin_role, {
+  message: "At least one field (email, full_name, mfa_required or admin_role) must be provided",
   path: [
     "email",
-    "full_name"
+    "full_name",
+    "mfa_required",
+    "admin_role"
   ]
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "PATCH",
+      "PUT"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "PATCH" && req.method !== "PUT") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // === Validate Admin-Token ===
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch  {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
     }
+    const { payload } = auth;
     // === Parse & validate body ===
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = updateAdminSchema.parse(body);
+    // Role assignment is a separate permission from editing admin details
+    const requiredPermissions = [];
+    if (validated.email || validated.full_name || validated.mfa_required !== undefined) requiredPermissions.push("admins:update");
+    if (validated.admin_role) requiredPermissions.push("admins:role:write");
+    const permissionError = checkPermission(payload, ...requiredPermissions);
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+    }
     const normalizedExistingEmail = validated.existing_email.trim().toLowerCase();
     // === Fetch admin by email ===
-    const { data: existingAdmin, error: fetchError } = await supabase.from("crm_admin").select("id, email, full_name").eq("email", normalizedExistingEmail).single();
+    const { data: existingAdmin, error: fetchError } = await supabase.from("crm_admin").select("id, email, full_name, mfa_required, admin_role").eq("email", normalizedExistingEmail).single();
     if (fetchError || !existingAdmin) {
       console.error("Admin not found or DB error:", fetchError);
-      return createErrorResponse("Admin not found with provided email", 404, "ADMIN_NOT_FOUND");
+      return createErrorResponse("Admin not found with provided email", 404, "ADMIN_NOT_FOUND", [], corsHeaders);
     }
     console.log(`Updating admin: ${existingAdmin.email} (ID: ${existingAdmin.id})`);
     // === Prepare update ===
@@ -303,7 +279,7 @@ serve(async (req)=>{
       if (normalizedNewEmail !== existingAdmin.email.toLowerCase()) {
         const { data: emailExists } = await supabase.from("crm_admin").select("id").eq("email", normalizedNewEmail).neq("id", existingAdmin.id).maybeSingle();
         if (emailExists) {
-          return createErrorResponse("New email already in use by another admin", 409, "EMAIL_EXISTS");
+          return createErrorResponse("New email already in use by another admin", 409, "EMAIL_EXISTS", [], corsHeaders);
         }
         updateData.email = normalizedNewEmail;
         emailChanged = true;
@@ -316,6 +292,32 @@ serve(async (req)=>{
       updateData.full_name = validated.full_name;
       console.log(`Full name updated: ${existingAdmin.full_name} → ${validated.full_name}`);
     }
+    // --- MFA Requirement Update ---
+    if (validated.mfa_required !== undefined && validated.mfa_required !== existingAdmin.mfa_required) {
+      updateData.mfa_required = validated.mfa_required;
+      console.log(`MFA requirement updated: ${existingAdmin.mfa_required} → ${validated.mfa_required}`);
+    }
+    // --- Role Update ---
+    if (validated.admin_role && validated.admin_role !== existingAdmin.admin_role) {
+      if (existingAdmin.id === payload.sub) {
+        return createErrorResponse("Admins cannot change their own role", 403, "SELF_ROLE_CHANGE", [], corsHeaders);
+      }
+      const { data: role } = await supabase.from("crm_role").select("key").eq("key", validated.admin_role).maybeSingle();
+      if (!role) {
+        return createErrorResponse(`Unknown admin role: ${validated.admin_role}`, 400, "INVALID_ROLE", [], corsHeaders);
+      }
+      if (existingAdmin.admin_role === "super_admin") {
+        const { count: superAdminCount } = await supabase.from("crm_admin").select("id", {
+          count: "exact",
+          head: true
+        }).eq("admin_role", "super_admin");
+        if ((superAdminCount ?? 0) <= 1) {
+          return createErrorResponse("Cannot change the role of the last super_admin", 409, "LAST_SUPER_ADMIN", [], corsHeaders);
+        }
+      }
+      updateData.admin_role = validated.admin_role;
+      console.log(`Role updated: ${existingAdmin.admin_role} → ${validated.admin_role}`);
+    }
     // === No changes? ===
     if (Object.keys(updateData).length === 1) {
       return new Response(JSON.stringify({
@@ -324,16 +326,28 @@ serve(async (req)=>{
       }), {
         status: 200,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...corsHeaders
         }
       });
     }
     // === Perform Update ===
-    const { data: updatedAdmin, error: updateError } = await supabase.from("crm_admin").update(updateData).eq("id", existingAdmin.id).select("id, email, full_name, updated_at").single();
+    const { data: updatedAdmin, error: updateError } = await supabase.from("crm_admin").update(updateData).eq("id", existingAdmin.id).select("id, email, full_name, admin_role, mfa_required, mfa_enabled, updated_at").single();
     if (updateError) {
       console.error("Update error:", updateError);
-      return createErrorResponse("Failed to update admin", 500, "UPDATE_ERROR");
+      return createErrorResponse("Failed to update admin", 500, "UPDATE_ERROR", [], corsHeaders);
     }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "admin.update",
+      targetType: "admin",
+      targetId: existingAdmin.id,
+      changes: diffChanges(existingAdmin, updateData, [
+        "email",
+        "full_name",
+        "mfa_required",
+        "admin_role"
+      ])
+    });
     // === Send Email if Email Changed ===
     let emailResult = {
       success: true,
@@ -350,24 +364,20 @@ serve(async (req)=>{
       admin: updatedAdmin,
       changes: {
         email_changed: emailChanged,
-        full_name_changed: !!updateData.full_name
+        full_name_changed: !!updateData.full_name,
+        mfa_required_changed: updateData.mfa_required !== undefined,
+        admin_role_changed: updateData.admin_role !== undefined
       },
       email_sent: emailChanged ? emailResult.success : null,
       email_error: emailChanged ? emailResult.error : null
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
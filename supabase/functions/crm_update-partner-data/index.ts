@@ -1,128 +1,137 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details?.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path?.join(".") || "",
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
+import { auditActorFromPayload, diffChanges, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Validation schema
+// Commission slabs use the same shape as crm_create-partner so the revenue trigger can resolve them
 const commissionSlabSchema = z.object({
-  min_revenue: z.number().min(0, "Minimum revenue must be non-negative"),
-  max_revenue: z.number().min(0, "Maximum revenue must be non-negative").nullable().optional(),
-  commission_percent: z.number().min(0, "Commission percent must be non-negative").max(100, "Commission percent cannot exceed 100")
+  from: z.number().int().min(0, "from must be >= 0"),
+  to: z.number().int().min(0).nullable(),
+  commission: z.number().min(0, "commission must be >= 0").max(100, "commission cannot exceed 100%")
+}).superRefine((slab, ctx)=>{
+  if (slab.to !== null && slab.to <= slab.from) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [
+        "to"
+      ],
+      message: "to must be greater than from when not null"
+    });
+  }
+});
+const commissionSlabsSchema = z.object({
+  basis: z.enum([
+    "conversions",
+    "revenue"
+  ], {
+    errorMap: ()=>({
+        message: "basis must be 'conversions' or 'revenue'"
+      })
+  }).optional().default("conversions"),
+  slabs: z.array(commissionSlabSchema).min(1, "At least one commission slab is required").refine((slabs)=>slabs[0].from === 0, {
+    message: "First slab must start at from: 0"
+  }).refine((slabs)=>{
+    for(let i = 0; i < slabs.length - 1; i++){
+      const curr = slabs[i];
+      const next = slabs[i + 1];
+      if (curr.to === null) return false;
+      if (curr.to + 1 !== next.from) return false;
+    }
+    return true;
+  }, {
+    message: "Slabs must be contiguous (no gaps)"
+  }).refine((slabs)=>slabs[slabs.length - 1].to === null, {
+    message: "Last slab must have to: null"
+  })
 });
+// Shape sent by older CRM clients: revenue tiers as min_revenue/max_revenue/commission_percent.
+// Mapped to the current document the same way 00008_commission_slabs.sql migrated stored rows,
+// then validated by commissionSlabsSchema like any other document.
+const isLegacyCommissionSlabs = (value)=>Array.isArray(value?.slabs) && value.slabs.some((slab)=>slab && typeof slab === "object" && "min_revenue" in slab);
+function normalizeCommissionSlabs(value) {
+  if (!isLegacyCommissionSlabs(value)) return value;
+  return {
+    basis: "revenue",
+    slabs: [
+      ...value.slabs
+    ].sort((a, b)=>(a?.min_revenue ?? 0) - (b?.min_revenue ?? 0)).map((slab)=>({
+        from: slab?.min_revenue,
+        to: slab?.max_revenue ?? null,
+        commission: slab?.commission_percent
+      }))
+  };
+}
 const updatePartnerSchema = z.object({
   partner_id: z.string().uuid("Invalid partner ID format"),
   email: z.string().email("Invalid email format").optional(),
   full_name: z.string().min(1, "Full name cannot be empty").optional(),
   is_active: z.boolean().optional(),
+  mfa_required: z.boolean().optional(),
   commission_percent: z.number().min(0, "Commission percent must be non-negative").max(100, "Commission percent cannot exceed 100").optional(),
-  commission_slabs: z.object({
-    slabs: z.array(commissionSlabSchema)
-  }).optional()
-}).refine((data)=>{
-  if (data.commission_slabs) {
-    const slabs = data.commission_slabs.slabs;
-    for(let i = 0; i < slabs.length; i++){
-      const slab = slabs[i];
-      if (slab.max_revenue !== null && slab.max_revenue !== undefined) {
-        if (slab.max_revenue <= slab.min_revenue) {
-          return false;
-        }
-      }
-    }
-  }
-  return true;
-}, {
-  message: "Each slab's max_revenue must be greater than min_revenue",
-  path: [
-    "commission_slabs"
-  ]
+  commission_slabs: z.preprocess(normalizeCommissionSlabs, commissionSlabsSchema).optional(),
+  // null detaches the partner from its parent
+  parent_partner_id: z.string().uuid("Invalid parent partner ID format").nullable().optional(),
+  parent_override_percent: z.number().min(0, "Override percent must be non-negative").max(100, "Override percent cannot exceed 100").optional()
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "PATCH",
+      "PUT"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "PATCH" && req.method !== "PUT") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token only
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
     }
+    const { payload } = auth;
     // Parse and validate request body
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = updatePartnerSchema.parse(body);
     // Check if at least one field to update is provided
-    if (!validated.email && !validated.full_name && validated.is_active === undefined && validated.commission_percent === undefined && !validated.commission_slabs) {
-      return createErrorResponse("At least one field must be provided for update", 400, "NO_FIELDS_TO_UPDATE");
+    if (!validated.email && !validated.full_name && validated.is_active === undefined && validated.mfa_required === undefined && validated.commission_percent === undefined && !validated.commission_slabs && validated.parent_partner_id === undefined && validated.parent_override_percent === undefined) {
+      return createErrorResponse("At least one field must be provided for update", 400, "NO_FIELDS_TO_UPDATE", [], corsHeaders);
+    }
+    // Commission changes are a separate permission from editing partner details
+    const requiredPermissions = [];
+    if (validated.email || validated.full_name || validated.is_active !== undefined || validated.mfa_required !== undefined || validated.parent_partner_id !== undefined) requiredPermissions.push("partners:update");
+    if (validated.commission_percent !== undefined || validated.commission_slabs || validated.parent_override_percent !== undefined) requiredPermissions.push("partners:commission:write");
+    const permissionError = checkPermission(payload, ...requiredPermissions);
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     console.log(`Processing update for partner_id: ${validated.partner_id}`);
     // Fetch existing partner data
-    const { data: existingPartner, error: fetchError } = await supabase.from("crm_partner").select("id, email, full_name, is_active, commission_percent, commission_slabs").eq("id", validated.partner_id).maybeSingle();
+    const { data: existingPartner, error: fetchError } = await supabase.from("crm_partner").select("id, email, full_name, is_active, mfa_required, commission_percent, commission_slabs, parent_partner_id, parent_override_percent").eq("id", validated.partner_id).maybeSingle();
     if (fetchError) {
       console.error("Error fetching partner:", fetchError.message);
-      return createErrorResponse(`Failed to fetch partner: ${fetchError.message}`, 500, "FETCH_ERROR");
+      return createErrorResponse(`Failed to fetch partner: ${fetchError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
     }
     if (!existingPartner) {
-      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND");
+      return createErrorResponse("Partner not found", 404, "PARTNER_NOT_FOUND", [], corsHeaders);
     }
     // Prepare update object
     const updateData = {
@@ -138,10 +147,10 @@ serve(async (req)=>{
         const { data: emailExists, error: emailCheckError } = await supabase.from("crm_partner").select("id").eq("email", normalizedEmail).neq("id", validated.partner_id).maybeSingle();
         if (emailCheckError) {
           console.error("Error checking email:", emailCheckError.message);
-          return createErrorResponse(`Failed to check email: ${emailCheckError.message}`, 500, "EMAIL_CHECK_ERROR");
+          return createErrorResponse(`Failed to check email: ${emailCheckError.message}`, 500, "EMAIL_CHECK_ERROR", [], corsHeaders);
         }
         if (emailExists) {
-          return createErrorResponse("Email already exists for another partner", 409, "EMAIL_EXISTS");
+          return createErrorResponse("Email already exists for another partner", 409, "EMAIL_EXISTS", [], corsHeaders);
         }
         updateData.email = normalizedEmail;
         emailChanged = true;
@@ -158,6 +167,11 @@ serve(async (req)=>{
       updateData.is_active = validated.is_active;
       console.log(`Active status updated from ${existingPartner.is_active} to ${validated.is_active}`);
     }
+    // Handle mfa_required update
+    if (validated.mfa_required !== undefined && validated.mfa_required !== existingPartner.mfa_required) {
+      updateData.mfa_required = validated.mfa_required;
+      console.log(`MFA requirement updated from ${existingPartner.mfa_required} to ${validated.mfa_required}`);
+    }
     // Handle commission_percent update
     if (validated.commission_percent !== undefined && validated.commission_percent !== existingPartner.commission_percent) {
       updateData.commission_percent = validated.commission_percent;
@@ -172,6 +186,29 @@ serve(async (req)=>{
         console.log(`Commission slabs updated`);
       }
     }
+    // Handle parent_partner_id update (cycles are rejected by trigger_prevent_partner_cycle)
+    if (validated.parent_partner_id !== undefined && validated.parent_partner_id !== existingPartner.parent_partner_id) {
+      if (validated.parent_partner_id === validated.partner_id) {
+        return createErrorResponse("A partner cannot be its own parent", 400, "PARTNER_HIERARCHY_CYCLE", [], corsHeaders);
+      }
+      if (validated.parent_partner_id) {
+        const { data: parent, error: parentError } = await supabase.from("crm_partner").select("id, is_active").eq("id", validated.parent_partner_id).maybeSingle();
+        if (parentError) {
+          console.error("Error fetching parent partner:", parentError.message);
+          return createErrorResponse(`Failed to fetch parent partner: ${parentError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+        }
+        if (!parent || !parent.is_active) {
+          return createErrorResponse("Parent partner not found or inactive", 404, "PARENT_PARTNER_NOT_FOUND", [], corsHeaders);
+        }
+      }
+      updateData.parent_partner_id = validated.parent_partner_id;
+      console.log(`Parent partner updated from ${existingPartner.parent_partner_id} to ${validated.parent_partner_id}`);
+    }
+    // Handle parent_override_percent update
+    if (validated.parent_override_percent !== undefined && validated.parent_override_percent !== Number(existingPartner.parent_override_percent)) {
+      updateData.parent_override_percent = validated.parent_override_percent;
+      console.log(`Parent override percent updated from ${existingPartner.parent_override_percent} to ${validated.parent_override_percent}`);
+    }
     // Check if there are actual changes to make
     if (Object.keys(updateData).length === 1) {
       // Only updated_at field
@@ -181,16 +218,35 @@ serve(async (req)=>{
       }), {
         status: 200,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...corsHeaders
         }
       });
     }
     // Update partner data
-    const { data: updatedPartner, error: updateError } = await supabase.from("crm_partner").update(updateData).eq("id", validated.partner_id).select("id, email, full_name, is_active, commission_percent, commission_slabs, updated_at").single();
+    const { data: updatedPartner, error: updateError } = await supabase.from("crm_partner").update(updateData).eq("id", validated.partner_id).select("id, email, full_name, is_active, mfa_required, mfa_enabled, commission_percent, commission_slabs, parent_partner_id, parent_override_percent, updated_at").single();
     if (updateError) {
       console.error("Error updating partner:", updateError.message);
-      return createErrorResponse(`Failed to update partner: ${updateError.message}`, 500, "UPDATE_ERROR");
+      if (updateError.message.includes("Partner hierarchy cycle")) {
+        return createErrorResponse("The parent partner is already below this partner", 400, "PARTNER_HIERARCHY_CYCLE", [], corsHeaders);
+      }
+      return createErrorResponse(`Failed to update partner: ${updateError.message}`, 500, "UPDATE_ERROR", [], corsHeaders);
     }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "partner.update",
+      targetType: "partner",
+      targetId: validated.partner_id,
+      changes: diffChanges(existingPartner, updateData, [
+        "email",
+        "full_name",
+        "is_active",
+        "mfa_required",
+        "commission_percent",
+        "commission_slabs",
+        "parent_partner_id",
+        "parent_override_percent"
+      ])
+    });
     console.log(`Partner ${validated.partner_id} updated successfully`);
     return new Response(JSON.stringify({
       message: "Partner updated successfully",
@@ -199,26 +255,20 @@ serve(async (req)=>{
         email_changed: emailChanged,
         full_name_changed: !!updateData.full_name,
         is_active_changed: updateData.is_active !== undefined,
+        mfa_required_changed: updateData.mfa_required !== undefined,
         commission_percent_changed: updateData.commission_percent !== undefined,
-        commission_slabs_changed: !!updateData.commission_slabs
+        commission_slabs_changed: !!updateData.commission_slabs,
+        parent_partner_id_changed: updateData.parent_partner_id !== undefined,
+        parent_override_percent_changed: updateData.parent_override_percent !== undefined
       }
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.22.4";
+import { auditActorFromPayload, diffChanges, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
+import { referralLink } from "../_shared/referrals.ts";
+const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+// Validation schema; the code itself is immutable so links already shared keep working
+const updateReferralCodeSchema = z.object({
+  referral_code_id: z.string().uuid("Invalid referral code ID format"),
+  campaign: z.string().trim().max(100, "Campaign must be at most 100 characters").nullable().optional(),
+  is_active: z.boolean().optional()
+});
+serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "PATCH",
+      "PUT"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
+  if (req.method !== "PATCH" && req.method !== "PUT") {
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
+  }
+  try {
+    // Validate Admin-Token or Partner-Token
+    const auth = await authenticate(req, {
+      roles: [
+        "admin",
+        "partner"
+      ]
+    });
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
+    }
+    const { payload } = auth;
+    // Partners always manage their own codes; admins need their role to grant it
+    if (payload.role === "admin") {
+      const permissionError = checkPermission(payload, "partners:update");
+      if (permissionError) {
+        return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
+      }
+    }
+    // Parse and validate request body
+    let body;
+    try {
+      body = await req.json();
+    } catch  {
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
+    }
+    const validated = updateReferralCodeSchema.parse(body);
+    if (validated.campaign === undefined && validated.is_active === undefined) {
+      return createErrorResponse("At least one field must be provided for update", 400, "NO_FIELDS_TO_UPDATE", [], corsHeaders);
+    }
+    const { data: existingCode, error: fetchError } = await supabase.from("crm_referral_code").select("id, partner_id, code, campaign, is_active").eq("id", validated.referral_code_id).maybeSingle();
+    if (fetchError) {
+      console.error("Error fetching referral code:", fetchError.message);
+      return createErrorResponse(`Failed to fetch referral code: ${fetchError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
+    }
+    // A partner gets the same answer for another partner's code as for a missing one
+    if (!existingCode || payload.role === "partner" && existingCode.partner_id !== payload.sub) {
+      return createErrorResponse("Referral code not found", 404, "REFERRAL_CODE_NOT_FOUND", [], corsHeaders);
+    }
+    const updateData = {};
+    if (validated.campaign !== undefined) {
+      const campaign = validated.campaign || null;
+      if (campaign !== existingCode.campaign) updateData.campaign = campaign;
+    }
+    if (validated.is_active !== undefined && validated.is_active !== existingCode.is_active) {
+      updateData.is_active = validated.is_active;
+    }
+    if (Object.keys(updateData).length === 0) {
+      return new Response(JSON.stringify({
+        message: "No changes detected",
+        referral_code_id: validated.referral_code_id
+      }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      });
+    }
+    const { data: updatedCode, error: updateError } = await supabase.from("crm_referral_code").update(updateData).eq("id", validated.referral_code_id).select("id, partner_id, code, campaign, is_active, updated_at").single();
+    if (updateError) {
+      console.error("Error updating referral code:", updateError.message);
+      return createErrorResponse(`Failed to update referral code: ${updateError.message}`, 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "referral_code.update",
+      targetType: "referral_code",
+      targetId: validated.referral_code_id,
+      changes: diffChanges(existingCode, updateData, [
+        "campaign",
+        "is_active"
+      ]),
+      metadata: {
+        partner_id: existingCode.partner_id,
+        code: existingCode.code
+      }
+    });
+    return new Response(JSON.stringify({
+      message: "Referral code updated successfully",
+      referral_code: {
+        referral_code_id: updatedCode.id,
+        code: updatedCode.code,
+        link: referralLink(updatedCode.code),
+        campaign: updatedCode.campaign,
+        is_active: updatedCode.is_active,
+        partner_id: updatedCode.partner_id,
+        updated_at: updatedCode.updated_at
+      }
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    return createUnexpectedErrorResponse(error, corsHeaders);
+  }
+});
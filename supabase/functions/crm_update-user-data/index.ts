@@ -1,46 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { jwtVerify } from "https://esm.sh/jose@4.14.4";
 import { z } from "https://esm.sh/zod@3.22.4";
-// JWT utilities
-function getJWTSecret() {
-  const secret = Deno.env.get("CRM_CUSTOM_JWT_SECRET");
-  if (!secret) {
-    throw new Error("CRM_CUSTOM_JWT_SECRET environment variable is not set");
-  }
-  return new TextEncoder().encode(secret);
-}
-function createJWTSecretErrorResponse() {
-  return new Response(JSON.stringify({
-    error: "JWT secret configuration error",
-    code: "JWT_SECRET_ERROR"
-  }), {
-    status: 500,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createErrorResponse(message, status = 500, code = null, details = []) {
-  const errorResponse = {
-    error: message
-  };
-  if (code) errorResponse.code = code;
-  if (details?.length > 0) errorResponse.details = details;
-  return new Response(JSON.stringify(errorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json"
-    }
-  });
-}
-function createValidationErrorResponse(zodError, status = 400) {
-  const details = zodError.issues.map((issue)=>({
-      field: issue.path?.join(".") || "",
-      message: issue.message
-    }));
-  return createErrorResponse("Validation error", status, "VALIDATION_ERROR", details);
-}
+import { auditActorFromPayload, diffChanges, recordAuditLog } from "../_shared/audit.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createErrorResponse, createPreflightResponse, createUnexpectedErrorResponse, getCorsHeaders } from "../_shared/http.ts";
+import { checkPermission } from "../_shared/permissions.ts";
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Validation schema
 const updateUserSchema = z.object({
@@ -62,52 +26,60 @@ const updateUserSchema = z.object({
   }).optional()
 });
 serve(async (req)=>{
+  // Get dynamic CORS headers based on request origin
+  const corsHeaders = getCorsHeaders(req, {
+    methods: [
+      "PATCH",
+      "PUT"
+    ]
+  });
+  // Handle preflight (OPTIONS) request
+  if (req.method === "OPTIONS") {
+    return createPreflightResponse(corsHeaders);
+  }
   if (req.method !== "PATCH" && req.method !== "PUT") {
-    return createErrorResponse("Method not allowed", 405);
+    return createErrorResponse("Method not allowed", 405, "METHOD_NOT_ALLOWED", [], corsHeaders);
   }
   try {
     // Validate Admin-Token only
-    const adminToken = req.headers.get("Admin-Token");
-    if (!adminToken) {
-      return createErrorResponse("Admin-Token header required", 401);
-    }
-    let secret;
-    try {
-      secret = getJWTSecret();
-    } catch (error) {
-      return createJWTSecretErrorResponse();
-    }
-    const { payload } = await jwtVerify(adminToken, secret, {
-      algorithms: [
-        "HS256"
-      ],
-      issuer: Deno.env.get("CRM_JWT_ISSUER") ?? undefined,
-      audience: Deno.env.get("CRM_JWT_AUDIENCE") ?? undefined
+    const auth = await authenticate(req, {
+      roles: [
+        "admin"
+      ]
     });
-    if (payload.role !== "admin") {
-      return createErrorResponse("Admin access required", 403);
+    if ("error" in auth) {
+      return createErrorResponse(auth.error.message, auth.error.status, auth.error.code, [], corsHeaders);
     }
+    const { payload } = auth;
     // Parse and validate request body
     let body;
     try {
       body = await req.json();
     } catch  {
-      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON");
+      return createErrorResponse("Invalid JSON in request body", 400, "INVALID_JSON", [], corsHeaders);
     }
     const validated = updateUserSchema.parse(body);
     // Check if at least one field to update is provided
     if (!validated.email && !validated.region && !validated.subscription_ends_at && validated.is_blocked === undefined) {
-      return createErrorResponse("At least one field must be provided for update", 400, "NO_FIELDS_TO_UPDATE");
+      return createErrorResponse("At least one field must be provided for update", 400, "NO_FIELDS_TO_UPDATE", [], corsHeaders);
+    }
+    // Blocking is a separate permission from editing account details
+    const requiredPermissions = [];
+    if (validated.email || validated.region || validated.subscription_ends_at) requiredPermissions.push("users:update");
+    if (validated.is_blocked !== undefined) requiredPermissions.push("users:block");
+    const permissionError = checkPermission(payload, ...requiredPermissions);
+    if (permissionError) {
+      return createErrorResponse(permissionError.message, 403, permissionError.code, [], corsHeaders);
     }
     console.log(`Processing update for user_id: ${validated.user_id}`);
     // Fetch existing user metadata
     const { data: existingUser, error: fetchError } = await supabase.from("crm_user_metadata").select("user_id, email, region, subscription_ends_at, is_blocked").eq("user_id", validated.user_id).maybeSingle();
     if (fetchError) {
       console.error("Error fetching user:", fetchError.message);
-      return createErrorResponse(`Failed to fetch user: ${fetchError.message}`, 500, "FETCH_ERROR");
+      return createErrorResponse(`Failed to fetch user: ${fetchError.message}`, 500, "FETCH_ERROR", [], corsHeaders);
     }
     if (!existingUser) {
-      return createErrorResponse("User not found", 404, "USER_NOT_FOUND");
+      return createErrorResponse("User not found", 404, "USER_NOT_FOUND", [], corsHeaders);
     }
     // Prepare update object
     const updateData = {
@@ -123,10 +95,10 @@ serve(async (req)=>{
         const { data: emailExists, error: emailCheckError } = await supabase.from("crm_user_metadata").select("user_id").eq("email", normalizedEmail).neq("user_id", validated.user_id).maybeSingle();
         if (emailCheckError) {
           console.error("Error checking email:", emailCheckError.message);
-          return createErrorResponse(`Failed to check email: ${emailCheckError.message}`, 500, "EMAIL_CHECK_ERROR");
+          return createErrorResponse(`Failed to check email: ${emailCheckError.message}`, 500, "EMAIL_CHECK_ERROR", [], corsHeaders);
         }
         if (emailExists) {
-          return createErrorResponse("Email already exists for another user", 409, "EMAIL_EXISTS");
+          return createErrorResponse("Email already exists for another user", 409, "EMAIL_EXISTS", [], corsHeaders);
         }
         // Update auth email
         const { error: authEmailError } = await supabase.auth.admin.updateUserById(validated.user_id, {
@@ -134,7 +106,7 @@ serve(async (req)=>{
         });
         if (authEmailError) {
           console.error("Error updating auth email:", authEmailError.message);
-          return createErrorResponse(`Failed to update auth email: ${authEmailError.message}`, 500, "AUTH_EMAIL_UPDATE_ERROR");
+          return createErrorResponse(`Failed to update auth email: ${authEmailError.message}`, 500, "AUTH_EMAIL_UPDATE_ERROR", [], corsHeaders);
         }
         updateData.email = normalizedEmail;
         emailChanged = true;
@@ -169,7 +141,8 @@ serve(async (req)=>{
       }), {
         status: 200,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...corsHeaders
         }
       });
     }
@@ -177,8 +150,19 @@ serve(async (req)=>{
     const { data: updatedUser, error: updateError } = await supabase.from("crm_user_metadata").update(updateData).eq("user_id", validated.user_id).select("user_id, email, region, subscription_ends_at, is_blocked, updated_at").single();
     if (updateError) {
       console.error("Error updating user metadata:", updateError.message);
-      return createErrorResponse(`Failed to update user: ${updateError.message}`, 500, "UPDATE_ERROR");
-    }
+      return createErrorResponse(`Failed to update user: ${updateError.message}`, 500, "UPDATE_ERROR", [], corsHeaders);
+    }
+    await recordAuditLog(supabase, req, auditActorFromPayload(payload), {
+      action: "user.update",
+      targetType: "user",
+      targetId: validated.user_id,
+      changes: diffChanges(existingUser, updateData, [
+        "email",
+        "region",
+        "subscription_ends_at",
+        "is_blocked"
+      ])
+    });
     console.log(`User ${validated.user_id} updated successfully`);
     return new Response(JSON.stringify({
       message: "User updated successfully",
@@ -192,20 +176,11 @@ serve(async (req)=>{
     }), {
       status: 200,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...corsHeaders
       }
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return createValidationErrorResponse(error);
-    }
-    if (error?.name === "JWTExpired" || error?.name === "JWSSignatureVerificationFailed") {
-      return createErrorResponse("Invalid or expired token", 401);
-    }
-    if (error?.code === "ERR_JWS_INVALID") {
-      return createErrorResponse("Invalid JWT format", 400);
-    }
-    console.error("Unexpected error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createUnexpectedErrorResponse(error, corsHeaders);
   }
 });
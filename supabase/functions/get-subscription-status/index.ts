@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ACCESS_GRANTING_STATUSES, SubscriptionStatus } from "../_shared/subscription-status.ts";
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -18,7 +19,7 @@ serve(async (req)=>{
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -36,7 +37,7 @@ serve(async (req)=>{
     if (authError || !user) {
       console.error("Auth verification failed:", authError);
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -52,7 +53,7 @@ serve(async (req)=>{
     if (dbError) {
       console.error("Database error:", dbError);
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -64,7 +65,7 @@ serve(async (req)=>{
     if (!metadata) {
       // No metadata found - treat as expired
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -79,7 +80,7 @@ serve(async (req)=>{
     if (is_blocked) {
       console.log(`User ${userId} is blocked - returning expired status`);
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -89,10 +90,10 @@ serve(async (req)=>{
       });
     }
     const now = new Date();
-    // Step 1: If already "expired", return immediately
-    if (subscription_status === "expired") {
+    // Step 1: If the status no longer grants access (expired, refunded), return immediately
+    if (!ACCESS_GRANTING_STATUSES.includes(subscription_status)) {
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -106,9 +107,9 @@ serve(async (req)=>{
     if (subscriptionEndDate < now) {
       // Subscription has expired - UPDATE the database with race condition prevention
       const { data: updateData, error: updateError } = await supabaseClient.from("crm_user_metadata").update({
-        subscription_status: "expired",
+        subscription_status: SubscriptionStatus.Expired,
         updated_at: now.toISOString()
-      }).eq("user_id", userId).neq("subscription_status", "expired") // Only update if not already expired
+      }).eq("user_id", userId).in("subscription_status", ACCESS_GRANTING_STATUSES) // Only update if not already expired
       .select("subscription_status").single();
       if (updateError) {
         console.error("Error updating subscription status:", updateError);
@@ -117,7 +118,7 @@ serve(async (req)=>{
         console.log(`Updated subscription status to expired for user ${userId}`);
       }
       return new Response(JSON.stringify({
-        subscription_status: "expired"
+        subscription_status: SubscriptionStatus.Expired
       }), {
         status: 200,
         headers: {
@@ -126,9 +127,9 @@ serve(async (req)=>{
         }
       });
     }
-    // Subscription is still active - return "active" regardless of trial/paid status
+    // Subscription is still active - return "active" for every access-granting status
     return new Response(JSON.stringify({
-      subscription_status: "active"
+      subscription_status: SubscriptionStatus.Active
     }), {
       status: 200,
       headers: {
@@ -139,7 +140,7 @@ serve(async (req)=>{
   } catch (error) {
     console.error("Function error:", error);
     return new Response(JSON.stringify({
-      subscription_status: "expired"
+      subscription_status: SubscriptionStatus.Expired
     }), {
       status: 200,
       headers: {
@@ -0,0 +1,36 @@
+-- Migration: Stripe Webhook Ingestion
+-- Supports the crm_stripe-webhook edge function, which is the only writer of crm_payment.
+-- Payments are inserted idempotently on stripe_payment_id (already UNIQUE), refunds are
+-- tracked on the payment row, and processed Stripe events are recorded so retries are cheap.
+
+-- Stripe event log (one row per delivered event id)
+CREATE TABLE IF NOT EXISTS public.crm_stripe_event (
+  id text NOT NULL,
+  type text NOT NULL,
+  received_at timestamp with time zone NOT NULL DEFAULT now(),
+  processed_at timestamp with time zone,
+  CONSTRAINT crm_stripe_event_pkey PRIMARY KEY (id)
+);
+
+ALTER TABLE public.crm_stripe_event ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_stripe_event"
+ON public.crm_stripe_event
+FOR ALL
+TO service_role
+USING (true);
+
+-- Payment columns populated from invoices and refunds
+ALTER TABLE public.crm_payment
+ADD COLUMN IF NOT EXISTS stripe_invoice_id text,
+ADD COLUMN IF NOT EXISTS refunded_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS refunded_at timestamp with time zone;
+
+ALTER TABLE public.crm_payment
+DROP CONSTRAINT IF EXISTS crm_payment_refunded_amount_check;
+ALTER TABLE public.crm_payment
+ADD CONSTRAINT crm_payment_refunded_amount_check CHECK (refunded_amount >= 0::numeric AND refunded_amount <= amount);
+
+-- Lookups performed by the webhook
+CREATE INDEX IF NOT EXISTS crm_payment_stripe_invoice_id_idx ON public.crm_payment USING btree (stripe_invoice_id) WHERE stripe_invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS crm_user_metadata_stripe_customer_id_idx ON public.crm_user_metadata USING btree (stripe_customer_id) WHERE stripe_customer_id IS NOT NULL;
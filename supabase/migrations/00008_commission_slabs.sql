@@ -0,0 +1,184 @@
+-- Migration: Apply Commission Slabs in Revenue Triggers
+-- crm_create-partner and crm_update-partner-data store a tiered commission_slabs document:
+--   { "basis": "conversions" | "revenue", "slabs": [{ "from": 0, "to": 10, "commission": 5 }, ...] }
+-- This migration makes update_partner_revenue resolve the applicable slab at payment time
+-- (instead of using the flat crm_partner.commission_percent) and records the slab used on
+-- the payment row, so stats can sum crm_payment.commission_amount instead of recomputing.
+
+-- ============================================================================
+-- 1. commission_slabs on crm_partner
+-- ============================================================================
+ALTER TABLE public.crm_partner
+ADD COLUMN IF NOT EXISTS commission_slabs jsonb;
+
+-- Older rows written by crm_update-partner-data used min_revenue/max_revenue/commission_percent
+UPDATE public.crm_partner p
+SET commission_slabs = jsonb_build_object(
+  'basis', 'revenue',
+  'slabs', (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'from', (s.slab->>'min_revenue')::numeric,
+        'to', COALESCE(s.slab->'max_revenue', 'null'::jsonb),
+        'commission', (s.slab->>'commission_percent')::numeric
+      )
+      ORDER BY (s.slab->>'min_revenue')::numeric
+    )
+    FROM jsonb_array_elements(p.commission_slabs->'slabs') AS s(slab)
+  )
+)
+WHERE p.commission_slabs->'slabs'->0 ? 'min_revenue';
+
+-- Partners without slabs keep their flat percentage as a single open-ended slab
+UPDATE public.crm_partner
+SET commission_slabs = jsonb_build_object(
+  'basis', 'conversions',
+  'slabs', jsonb_build_array(jsonb_build_object('from', 0, 'to', NULL, 'commission', commission_percent))
+)
+WHERE commission_slabs IS NULL
+   OR jsonb_typeof(commission_slabs->'slabs') <> 'array'
+   OR jsonb_array_length(commission_slabs->'slabs') = 0;
+
+-- Slab sets created before "basis" existed were count-based
+UPDATE public.crm_partner
+SET commission_slabs = commission_slabs || '{"basis": "conversions"}'::jsonb
+WHERE NOT commission_slabs ? 'basis';
+
+-- ============================================================================
+-- 2. Commission details recorded per payment
+-- ============================================================================
+ALTER TABLE public.crm_payment
+ADD COLUMN IF NOT EXISTS partner_id uuid REFERENCES public.crm_partner(id),
+ADD COLUMN IF NOT EXISTS commission_percent numeric,
+ADD COLUMN IF NOT EXISTS commission_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS commission_slab jsonb;
+
+CREATE INDEX IF NOT EXISTS crm_payment_partner_id_idx ON public.crm_payment USING btree (partner_id) WHERE partner_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. Slab resolution
+-- ============================================================================
+-- Returns the slab whose "from" is the highest one not exceeding p_basis_value.
+-- Slabs are contiguous (validated by the edge functions), so this also covers
+-- fractional revenue values that fall between an integer "to" and the next "from".
+CREATE OR REPLACE FUNCTION public.crm_resolve_commission_slab(p_commission_slabs jsonb, p_basis_value numeric)
+RETURNS jsonb AS $$
+  SELECT s.slab
+  FROM jsonb_array_elements(COALESCE(p_commission_slabs->'slabs', '[]'::jsonb)) AS s(slab)
+  WHERE (s.slab->>'from')::numeric <= p_basis_value
+  ORDER BY (s.slab->>'from')::numeric DESC
+  LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 4. update_partner_revenue (slab-aware)
+-- ============================================================================
+-- The legacy 00003 triggers fire before trigger_update_partner_revenue (triggers run in
+-- name order) and set converted_at first, which made the converted_at IS NULL check in the
+-- 00005 version never match. Conversion marking now lives in this single trigger.
+DROP TRIGGER IF EXISTS crm_trigger_set_converted_at ON public.crm_payment;
+DROP TRIGGER IF EXISTS crm_trigger_update_partner_revenue ON public.crm_payment;
+DROP TRIGGER IF EXISTS trigger_update_partner_revenue ON public.crm_payment;
+
+-- Commission is earned on the payment that converts a referred user, as before. The basis
+-- value is the partner's cumulative converted count (including this conversion) or cumulative
+-- net referred revenue (including this payment), depending on commission_slabs.basis.
+CREATE OR REPLACE FUNCTION public.update_partner_revenue()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_partner_id uuid;
+  v_converted boolean := false;
+  v_commission_slabs jsonb;
+  v_commission_percent numeric;
+  v_total_converted bigint;
+  v_basis text;
+  v_basis_value numeric;
+  v_slab jsonb;
+  v_commission_amount numeric;
+BEGIN
+  -- Atomically mark the user as converted; only the first payment gets a row back.
+  -- The row lock on crm_user_metadata serialises concurrent payments for the same user.
+  UPDATE public.crm_user_metadata um
+  SET converted_at = NEW.paid_at,
+      subscription_status = 'active',
+      updated_at = NOW()
+  WHERE um.user_id = NEW.user_id
+    AND um.converted_at IS NULL
+  RETURNING true
+  INTO v_converted;
+
+  v_converted := COALESCE(v_converted, false);
+
+  SELECT um.crm_partner_id
+  INTO v_partner_id
+  FROM public.crm_user_metadata um
+  WHERE um.user_id = NEW.user_id;
+
+  -- Users without a partner earn no commission
+  IF v_partner_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Commission is earned once per user, on the payment that converts them; later payments
+  -- only count towards the partner's referred revenue
+  IF NOT v_converted THEN
+    UPDATE public.crm_payment
+    SET partner_id = v_partner_id
+    WHERE id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- Lock the partner so cumulative basis values are computed one payment at a time
+  SELECT p.commission_slabs, p.commission_percent, p.total_converted
+  INTO v_commission_slabs, v_commission_percent, v_total_converted
+  FROM public.crm_partner p
+  WHERE p.id = v_partner_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Partner with id % not found during revenue update', v_partner_id;
+  END IF;
+
+  v_basis := COALESCE(v_commission_slabs->>'basis', 'conversions');
+
+  IF v_basis = 'revenue' THEN
+    SELECT COALESCE(SUM(pay.amount - pay.refunded_amount), 0) + COALESCE(NEW.amount, 0)
+    INTO v_basis_value
+    FROM public.crm_payment pay
+    WHERE pay.partner_id = v_partner_id
+      AND pay.id <> NEW.id;
+  ELSE
+    v_basis_value := v_total_converted + CASE WHEN v_converted THEN 1 ELSE 0 END;
+  END IF;
+
+  v_slab := public.crm_resolve_commission_slab(v_commission_slabs, v_basis_value);
+  v_commission_percent := COALESCE((v_slab->>'commission')::numeric, v_commission_percent, 0);
+  v_commission_amount := ROUND(COALESCE(NEW.amount, 0) * v_commission_percent / 100.0, 2);
+
+  UPDATE public.crm_partner
+  SET total_revenue = total_revenue + v_commission_amount,
+      total_converted = total_converted + CASE WHEN v_converted THEN 1 ELSE 0 END,
+      updated_at = NOW()
+  WHERE id = v_partner_id;
+
+  -- Record which slab produced this commission
+  UPDATE public.crm_payment
+  SET partner_id = v_partner_id,
+      commission_percent = v_commission_percent,
+      commission_amount = v_commission_amount,
+      commission_slab = COALESCE(v_slab, '{}'::jsonb) || jsonb_build_object('basis', v_basis, 'basis_value', v_basis_value)
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+CREATE TRIGGER trigger_update_partner_revenue
+AFTER INSERT ON public.crm_payment
+FOR EACH ROW EXECUTE FUNCTION public.update_partner_revenue();
+
+COMMENT ON FUNCTION public.update_partner_revenue() IS
+'Marks the paying user as converted and credits the referring partner with commission resolved from crm_partner.commission_slabs (conversions or revenue basis). The applied slab is stored on crm_payment.commission_slab.';
+
+COMMENT ON FUNCTION public.crm_resolve_commission_slab(jsonb, numeric) IS
+'Returns the commission slab applicable to a cumulative basis value (converted count or revenue).';
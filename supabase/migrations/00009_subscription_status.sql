@@ -0,0 +1,82 @@
+-- Migration: Canonical Subscription Status Lifecycle
+-- The original CHECK only allowed 'added','active','expired' while the edge functions wrote
+-- 'trial' and counted 'paid'. This migration settles on one lifecycle, shared with
+-- supabase/functions/_shared/subscription-status.ts:
+--
+--   trial     -> active, past_due, cancelled, expired
+--   active    -> past_due, cancelled, expired, refunded
+--   past_due  -> active, cancelled, expired, refunded
+--   cancelled -> active, expired, refunded
+--   expired   -> active, trial (re-granted by an admin), refunded
+--   refunded  -> active (a new payment)
+--
+-- Legacy values are mapped as 'added' -> 'trial' and 'paid' -> 'active'.
+
+-- ============================================================================
+-- 1. Drop the old constraint and map existing rows
+-- ============================================================================
+ALTER TABLE public.crm_user_metadata
+DROP CONSTRAINT IF EXISTS crm_user_metadata_subscription_status_check;
+
+-- Bypass the old transition trigger while legacy values are rewritten
+ALTER TABLE public.crm_user_metadata DISABLE TRIGGER crm_trigger_prevent_invalid_status_transition;
+
+UPDATE public.crm_user_metadata
+SET subscription_status = CASE
+  WHEN subscription_status = 'added' THEN 'trial'
+  WHEN subscription_status = 'paid' THEN 'active'
+  WHEN subscription_status IN ('trial', 'active', 'past_due', 'cancelled', 'expired', 'refunded') THEN subscription_status
+  ELSE 'expired'
+END
+WHERE subscription_status NOT IN ('trial', 'active', 'past_due', 'cancelled', 'expired', 'refunded');
+
+ALTER TABLE public.crm_user_metadata ENABLE TRIGGER crm_trigger_prevent_invalid_status_transition;
+
+ALTER TABLE public.crm_user_metadata
+ALTER COLUMN subscription_status SET DEFAULT 'trial';
+
+ALTER TABLE public.crm_user_metadata
+ADD CONSTRAINT crm_user_metadata_subscription_status_check
+CHECK (subscription_status = ANY (ARRAY['trial'::text, 'active'::text, 'past_due'::text, 'cancelled'::text, 'expired'::text, 'refunded'::text]));
+
+-- ============================================================================
+-- 2. crm_prevent_invalid_status_transition (full state machine)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_prevent_invalid_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.subscription_status IS NOT DISTINCT FROM OLD.subscription_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.subscription_status = 'trial' AND NEW.subscription_status IN ('active', 'past_due', 'cancelled', 'expired')) OR
+    (OLD.subscription_status = 'active' AND NEW.subscription_status IN ('past_due', 'cancelled', 'expired', 'refunded')) OR
+    (OLD.subscription_status = 'past_due' AND NEW.subscription_status IN ('active', 'cancelled', 'expired', 'refunded')) OR
+    (OLD.subscription_status = 'cancelled' AND NEW.subscription_status IN ('active', 'expired', 'refunded')) OR
+    (OLD.subscription_status = 'expired' AND NEW.subscription_status IN ('active', 'trial', 'refunded')) OR
+    (OLD.subscription_status = 'refunded' AND NEW.subscription_status IN ('active'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot transition from % to %', OLD.subscription_status, NEW.subscription_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. crm_update_expired_subscriptions (covers every access-granting status)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_update_expired_subscriptions()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.crm_user_metadata
+  SET subscription_status = 'expired',
+      updated_at = NOW()
+  WHERE subscription_ends_at < NOW()
+    AND subscription_status IN ('trial', 'active', 'past_due', 'cancelled');
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_prevent_invalid_status_transition() IS
+'Enforces the subscription lifecycle trial/active/past_due/cancelled/expired/refunded. Keep in sync with supabase/functions/_shared/subscription-status.ts.';
@@ -0,0 +1,341 @@
+-- Migration: Commission Ledger
+-- Partner earnings used to exist only as the running total crm_partner.total_revenue.
+-- Every commission movement is now an immutable row in crm_commission_entry:
+--   commission  - earned on a crm_payment (written by update_partner_revenue)
+--   reversal    - negative entry posted when a payment is refunded
+--   adjustment  - manual correction posted by an admin (crm_create-commission-adjustment)
+-- crm_partner.total_revenue is kept as a cache of SUM(commission_amount) for sorting;
+-- reporting reads crm_partner_commission_summary instead.
+
+-- ============================================================================
+-- 1. Ledger table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_commission_entry (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partner_id uuid NOT NULL,
+  payment_id uuid,
+  user_id uuid,
+  entry_type text NOT NULL CHECK (entry_type = ANY (ARRAY['commission'::text, 'reversal'::text, 'adjustment'::text])),
+  base_amount numeric NOT NULL DEFAULT 0,
+  commission_percent numeric,
+  commission_slab jsonb,
+  commission_amount numeric NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status = ANY (ARRAY['pending'::text, 'approved'::text, 'paid'::text, 'reversed'::text])),
+  reverses_entry_id uuid,
+  note text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  approved_at timestamp with time zone,
+  paid_at timestamp with time zone,
+  CONSTRAINT crm_commission_entry_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_commission_entry_partner_id_fkey FOREIGN KEY (partner_id) REFERENCES public.crm_partner(id),
+  CONSTRAINT crm_commission_entry_payment_id_fkey FOREIGN KEY (payment_id) REFERENCES public.crm_payment(id),
+  CONSTRAINT crm_commission_entry_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id),
+  CONSTRAINT crm_commission_entry_reverses_entry_id_fkey FOREIGN KEY (reverses_entry_id) REFERENCES public.crm_commission_entry(id),
+  CONSTRAINT crm_commission_entry_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.crm_admin(id)
+);
+
+-- One commission entry per payment; reversals and adjustments may repeat
+CREATE UNIQUE INDEX IF NOT EXISTS crm_commission_entry_payment_commission_key ON public.crm_commission_entry USING btree (payment_id) WHERE entry_type = 'commission';
+CREATE INDEX IF NOT EXISTS crm_commission_entry_partner_status_idx ON public.crm_commission_entry USING btree (partner_id, status);
+CREATE INDEX IF NOT EXISTS crm_commission_entry_reverses_entry_id_idx ON public.crm_commission_entry USING btree (reverses_entry_id) WHERE reverses_entry_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS crm_commission_entry_created_at_idx ON public.crm_commission_entry USING btree (created_at);
+
+ALTER TABLE public.crm_commission_entry ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_commission_entry"
+ON public.crm_commission_entry
+FOR ALL
+TO service_role
+USING (true);
+
+DROP TRIGGER IF EXISTS trigger_update_crm_commission_entry_updated_at ON public.crm_commission_entry;
+CREATE TRIGGER trigger_update_crm_commission_entry_updated_at
+BEFORE UPDATE ON public.crm_commission_entry
+FOR EACH ROW EXECUTE FUNCTION public.crm_update_updated_at();
+
+-- Adjustments and reversals can net a partner below zero until the next commission
+ALTER TABLE public.crm_partner
+DROP CONSTRAINT IF EXISTS crm_partner_total_revenue_check;
+
+-- ============================================================================
+-- 2. Backfill (before the ledger trigger exists, so totals are not double-counted)
+-- ============================================================================
+INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_slab, commission_amount, status, created_at)
+SELECT pay.partner_id, pay.id, pay.user_id, 'commission', pay.amount, pay.commission_percent, pay.commission_slab, pay.commission_amount, 'pending', pay.paid_at
+FROM public.crm_payment pay
+WHERE pay.partner_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Whatever total_revenue accumulated before the ledger becomes an explained opening balance
+INSERT INTO public.crm_commission_entry (partner_id, entry_type, commission_amount, status, note)
+SELECT p.id, 'adjustment', p.total_revenue - COALESCE(SUM(e.commission_amount), 0), 'approved', 'Opening balance carried over from crm_partner.total_revenue'
+FROM public.crm_partner p
+LEFT JOIN public.crm_commission_entry e ON e.partner_id = p.id
+GROUP BY p.id, p.total_revenue
+HAVING p.total_revenue - COALESCE(SUM(e.commission_amount), 0) <> 0;
+
+-- ============================================================================
+-- 3. Keep crm_partner.total_revenue in sync with the ledger
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_apply_commission_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.crm_partner
+  SET total_revenue = total_revenue + NEW.commission_amount,
+      updated_at = NOW()
+  WHERE id = NEW.partner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Partner with id % not found while applying commission entry', NEW.partner_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_apply_commission_entry ON public.crm_commission_entry;
+CREATE TRIGGER trigger_apply_commission_entry
+AFTER INSERT ON public.crm_commission_entry
+FOR EACH ROW EXECUTE FUNCTION public.crm_apply_commission_entry();
+
+-- Ledger rows are append-only apart from their payout status
+CREATE OR REPLACE FUNCTION public.crm_prevent_commission_entry_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Commission entries cannot be deleted; post a reversing entry instead';
+  END IF;
+  IF NEW.partner_id IS DISTINCT FROM OLD.partner_id
+     OR NEW.payment_id IS DISTINCT FROM OLD.payment_id
+     OR NEW.entry_type IS DISTINCT FROM OLD.entry_type
+     OR NEW.base_amount IS DISTINCT FROM OLD.base_amount
+     OR NEW.commission_amount IS DISTINCT FROM OLD.commission_amount THEN
+    RAISE EXCEPTION 'Commission entry amounts cannot be edited; post a reversing entry instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_prevent_commission_entry_edit ON public.crm_commission_entry;
+CREATE TRIGGER trigger_prevent_commission_entry_edit
+BEFORE UPDATE OR DELETE ON public.crm_commission_entry
+FOR EACH ROW EXECUTE FUNCTION public.crm_prevent_commission_entry_edit();
+
+-- ============================================================================
+-- 4. update_partner_revenue writes a ledger entry instead of mutating totals
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.update_partner_revenue()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_partner_id uuid;
+  v_converted boolean := false;
+  v_commission_slabs jsonb;
+  v_commission_percent numeric;
+  v_total_converted bigint;
+  v_basis text;
+  v_basis_value numeric;
+  v_slab jsonb;
+  v_commission_amount numeric;
+BEGIN
+  -- Atomically mark the user as converted; only the first payment gets a row back.
+  -- The row lock on crm_user_metadata serialises concurrent payments for the same user.
+  UPDATE public.crm_user_metadata um
+  SET converted_at = NEW.paid_at,
+      subscription_status = 'active',
+      updated_at = NOW()
+  WHERE um.user_id = NEW.user_id
+    AND um.converted_at IS NULL
+  RETURNING true
+  INTO v_converted;
+
+  v_converted := COALESCE(v_converted, false);
+
+  SELECT um.crm_partner_id
+  INTO v_partner_id
+  FROM public.crm_user_metadata um
+  WHERE um.user_id = NEW.user_id;
+
+  -- Users without a partner earn no commission
+  IF v_partner_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Commission is earned once per user, on the payment that converts them; later payments
+  -- only count towards the partner's referred revenue
+  IF NOT v_converted THEN
+    UPDATE public.crm_payment
+    SET partner_id = v_partner_id
+    WHERE id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- Lock the partner so cumulative basis values are computed one payment at a time
+  SELECT p.commission_slabs, p.commission_percent, p.total_converted
+  INTO v_commission_slabs, v_commission_percent, v_total_converted
+  FROM public.crm_partner p
+  WHERE p.id = v_partner_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Partner with id % not found during revenue update', v_partner_id;
+  END IF;
+
+  v_basis := COALESCE(v_commission_slabs->>'basis', 'conversions');
+
+  IF v_basis = 'revenue' THEN
+    SELECT COALESCE(SUM(pay.amount - pay.refunded_amount), 0) + COALESCE(NEW.amount, 0)
+    INTO v_basis_value
+    FROM public.crm_payment pay
+    WHERE pay.partner_id = v_partner_id
+      AND pay.id <> NEW.id;
+  ELSE
+    v_basis_value := v_total_converted + CASE WHEN v_converted THEN 1 ELSE 0 END;
+  END IF;
+
+  v_slab := COALESCE(public.crm_resolve_commission_slab(v_commission_slabs, v_basis_value), '{}'::jsonb)
+    || jsonb_build_object('basis', v_basis, 'basis_value', v_basis_value);
+  v_commission_percent := COALESCE((v_slab->>'commission')::numeric, v_commission_percent, 0);
+  v_commission_amount := ROUND(COALESCE(NEW.amount, 0) * v_commission_percent / 100.0, 2);
+
+  IF v_converted THEN
+    UPDATE public.crm_partner
+    SET total_converted = total_converted + 1,
+        updated_at = NOW()
+    WHERE id = v_partner_id;
+  END IF;
+
+  -- Record which slab produced this commission
+  UPDATE public.crm_payment
+  SET partner_id = v_partner_id,
+      commission_percent = v_commission_percent,
+      commission_amount = v_commission_amount,
+      commission_slab = v_slab
+  WHERE id = NEW.id;
+
+  -- Post the ledger entry; trigger_apply_commission_entry updates total_revenue
+  INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_slab, commission_amount)
+  VALUES (v_partner_id, NEW.id, NEW.user_id, 'commission', COALESCE(NEW.amount, 0), v_commission_percent, v_slab, v_commission_amount);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 5. Refunds post reversing entries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_reverse_refunded_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry public.crm_commission_entry%ROWTYPE;
+  v_already_reversed numeric;
+  v_reversal_amount numeric;
+  v_full_refund boolean;
+BEGIN
+  IF NEW.refunded_amount <= OLD.refunded_amount THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT *
+  INTO v_entry
+  FROM public.crm_commission_entry e
+  WHERE e.payment_id = NEW.id
+    AND e.entry_type = 'commission'
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_entry.commission_amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(e.commission_amount), 0)
+  INTO v_already_reversed
+  FROM public.crm_commission_entry e
+  WHERE e.reverses_entry_id = v_entry.id;
+
+  v_full_refund := NEW.refunded_amount >= NEW.amount;
+
+  -- A full refund reverses whatever remains, so rounding never leaves a residue
+  IF v_full_refund THEN
+    v_reversal_amount := -(v_entry.commission_amount + v_already_reversed);
+  ELSE
+    v_reversal_amount := -ROUND(v_entry.commission_amount * (NEW.refunded_amount - OLD.refunded_amount) / NEW.amount, 2);
+  END IF;
+
+  IF v_reversal_amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Paid commission is clawed back from the next payout; unpaid commission follows the original's status
+  INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_amount, status, reverses_entry_id, note)
+  VALUES (
+    v_entry.partner_id,
+    NEW.id,
+    NEW.user_id,
+    'reversal',
+    -(NEW.refunded_amount - OLD.refunded_amount),
+    v_entry.commission_percent,
+    v_reversal_amount,
+    CASE WHEN v_entry.status = 'paid' THEN 'approved' ELSE v_entry.status END,
+    v_entry.id,
+    'Refund of payment ' || NEW.stripe_payment_id
+  );
+
+  -- A fully refunded, unpaid commission is settled: neither side is payable
+  IF v_full_refund AND v_entry.status IN ('pending', 'approved') THEN
+    UPDATE public.crm_commission_entry
+    SET status = 'reversed'
+    WHERE (id = v_entry.id OR reverses_entry_id = v_entry.id)
+      AND status IN ('pending', 'approved');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_reverse_refunded_commission ON public.crm_payment;
+CREATE TRIGGER trigger_reverse_refunded_commission
+AFTER UPDATE OF refunded_amount ON public.crm_payment
+FOR EACH ROW EXECUTE FUNCTION public.crm_reverse_refunded_commission();
+
+-- ============================================================================
+-- 6. Approval of pending commission after the refund hold period
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_approve_pending_commissions(p_hold_days integer DEFAULT 30)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.crm_commission_entry
+  SET status = 'approved',
+      approved_at = NOW()
+  WHERE status = 'pending'
+    AND created_at < NOW() - make_interval(days => p_hold_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_approve_pending_commissions', '30 0 * * *', $$SELECT public.crm_approve_pending_commissions()$$);
+
+-- ============================================================================
+-- 7. Per-partner totals derived from the ledger
+-- ============================================================================
+CREATE OR REPLACE VIEW public.crm_partner_commission_summary
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS partner_id,
+  COALESCE(SUM(e.commission_amount), 0) AS total_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'pending'), 0) AS pending_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'approved'), 0) AS approved_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'paid'), 0) AS paid_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.entry_type = 'reversal'), 0) AS reversed_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.entry_type = 'adjustment'), 0) AS adjusted_commission,
+  COUNT(e.id) AS entry_count
+FROM public.crm_partner p
+LEFT JOIN public.crm_commission_entry e ON e.partner_id = p.id
+GROUP BY p.id;
+
+COMMENT ON TABLE public.crm_commission_entry IS
+'Append-only commission ledger. Totals are SUM(commission_amount); status only controls payability.';
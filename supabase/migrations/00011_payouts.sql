@@ -0,0 +1,183 @@
+-- Migration: Partner Payout Runs
+-- A payout run settles approved commission (crm_commission_entry.status = 'approved') for every
+-- active partner up to the end of a period. Partners whose approved balance is below the run's
+-- minimum are carried over to the next run. Each paid partner gets one crm_payout row holding a
+-- JSON and CSV statement of the entries it settles; those entries move to status 'paid'.
+
+-- ============================================================================
+-- 1. Tables
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_payout_run (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  period_start timestamp with time zone NOT NULL,
+  period_end timestamp with time zone NOT NULL,
+  minimum_payout numeric NOT NULL DEFAULT 0 CHECK (minimum_payout >= 0::numeric),
+  partner_count integer NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL DEFAULT 0,
+  note text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_payout_run_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_payout_run_period_check CHECK (period_end > period_start),
+  CONSTRAINT crm_payout_run_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.crm_admin(id)
+);
+
+CREATE TABLE IF NOT EXISTS public.crm_payout (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  payout_run_id uuid NOT NULL,
+  partner_id uuid NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0::numeric),
+  currency text NOT NULL DEFAULT 'usd'::text,
+  entry_count integer NOT NULL,
+  statement jsonb NOT NULL,
+  statement_csv text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_payout_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_payout_run_partner_key UNIQUE (payout_run_id, partner_id),
+  CONSTRAINT crm_payout_payout_run_id_fkey FOREIGN KEY (payout_run_id) REFERENCES public.crm_payout_run(id),
+  CONSTRAINT crm_payout_partner_id_fkey FOREIGN KEY (partner_id) REFERENCES public.crm_partner(id)
+);
+
+CREATE INDEX IF NOT EXISTS crm_payout_partner_created_idx ON public.crm_payout USING btree (partner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_payout_run_created_at_idx ON public.crm_payout_run USING btree (created_at DESC);
+
+ALTER TABLE public.crm_commission_entry
+ADD COLUMN IF NOT EXISTS payout_id uuid REFERENCES public.crm_payout(id);
+
+CREATE INDEX IF NOT EXISTS crm_commission_entry_payout_id_idx ON public.crm_commission_entry USING btree (payout_id) WHERE payout_id IS NOT NULL;
+
+ALTER TABLE public.crm_payout_run ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_payout ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_payout_run"
+ON public.crm_payout_run
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to crm_payout"
+ON public.crm_payout
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. crm_create_payout_run
+-- ============================================================================
+-- Approved entries created before p_period_end are included, so balances carried over from
+-- earlier runs (below the minimum at the time) are settled once they reach the threshold.
+CREATE OR REPLACE FUNCTION public.crm_create_payout_run(
+  p_period_start timestamp with time zone,
+  p_period_end timestamp with time zone,
+  p_minimum_payout numeric,
+  p_created_by uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_run_id uuid;
+  v_partner record;
+  v_payout_id uuid;
+  v_entries jsonb;
+  v_csv text;
+BEGIN
+  -- Only one payout run at a time
+  PERFORM pg_advisory_xact_lock(hashtext('crm_create_payout_run'));
+
+  INSERT INTO public.crm_payout_run (period_start, period_end, minimum_payout, note, created_by)
+  VALUES (p_period_start, p_period_end, COALESCE(p_minimum_payout, 0), p_note, p_created_by)
+  RETURNING id INTO v_run_id;
+
+  FOR v_partner IN
+    SELECT p.id, p.email, p.full_name,
+           SUM(e.commission_amount) AS amount,
+           COUNT(e.id) AS entry_count,
+           COALESCE(SUM(e.commission_amount) FILTER (WHERE e.created_at < p_period_start), 0) AS carried_over
+    FROM public.crm_partner p
+    JOIN public.crm_commission_entry e ON e.partner_id = p.id
+    WHERE p.is_active
+      AND e.status = 'approved'
+      AND e.payout_id IS NULL
+      AND e.created_at < p_period_end
+    GROUP BY p.id, p.email, p.full_name
+    HAVING SUM(e.commission_amount) >= GREATEST(COALESCE(p_minimum_payout, 0), 0.01)
+  LOOP
+    SELECT
+      jsonb_agg(jsonb_build_object(
+        'entry_id', e.id,
+        'created_at', e.created_at,
+        'entry_type', e.entry_type,
+        'payment_id', e.payment_id,
+        'base_amount', e.base_amount,
+        'commission_percent', e.commission_percent,
+        'commission_amount', e.commission_amount,
+        'note', e.note
+      ) ORDER BY e.created_at, e.id),
+      'entry_id,created_at,entry_type,payment_id,base_amount,commission_percent,commission_amount,note' || E'\n' ||
+      string_agg(
+        concat_ws(',',
+          e.id,
+          to_char(e.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+          e.entry_type,
+          COALESCE(e.payment_id::text, ''),
+          e.base_amount,
+          COALESCE(e.commission_percent::text, ''),
+          e.commission_amount,
+          '"' || replace(COALESCE(e.note, ''), '"', '""') || '"'
+        ),
+        E'\n' ORDER BY e.created_at, e.id
+      )
+    INTO v_entries, v_csv
+    FROM public.crm_commission_entry e
+    WHERE e.partner_id = v_partner.id
+      AND e.status = 'approved'
+      AND e.payout_id IS NULL
+      AND e.created_at < p_period_end;
+
+    INSERT INTO public.crm_payout (payout_run_id, partner_id, amount, entry_count, statement, statement_csv)
+    VALUES (
+      v_run_id,
+      v_partner.id,
+      v_partner.amount,
+      v_partner.entry_count,
+      jsonb_build_object(
+        'payout_run_id', v_run_id,
+        'partner', jsonb_build_object('id', v_partner.id, 'email', v_partner.email, 'full_name', v_partner.full_name),
+        'period', jsonb_build_object('start', p_period_start, 'end', p_period_end),
+        'totals', jsonb_build_object(
+          'payout', v_partner.amount,
+          'carried_over', v_partner.carried_over,
+          'entry_count', v_partner.entry_count
+        ),
+        'entries', v_entries
+      ),
+      v_csv
+    )
+    RETURNING id INTO v_payout_id;
+
+    UPDATE public.crm_commission_entry
+    SET status = 'paid',
+        paid_at = NOW(),
+        payout_id = v_payout_id
+    WHERE partner_id = v_partner.id
+      AND status = 'approved'
+      AND payout_id IS NULL
+      AND created_at < p_period_end;
+  END LOOP;
+
+  UPDATE public.crm_payout_run r
+  SET partner_count = totals.partner_count,
+      total_amount = totals.total_amount
+  FROM (
+    SELECT COUNT(*) AS partner_count, COALESCE(SUM(amount), 0) AS total_amount
+    FROM public.crm_payout
+    WHERE payout_run_id = v_run_id
+  ) totals
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_create_payout_run(timestamp with time zone, timestamp with time zone, numeric, uuid, text) IS
+'Creates a payout run: settles approved, unpaid commission per active partner above the minimum, writes statements and marks entries paid.';
@@ -0,0 +1,54 @@
+-- Migration: Audit Log
+-- Every admin and partner mutation made through the edge functions records one row here
+-- (via supabase/functions/_shared/audit.ts): who did it (JWT sub/role), what they did,
+-- which entity it targeted, a before/after diff of the changed fields and where the request
+-- came from. Rows are append-only.
+
+-- ============================================================================
+-- 1. Table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  actor_role text NOT NULL CHECK (actor_role = ANY (ARRAY['admin'::text, 'partner'::text, 'user'::text, 'system'::text])),
+  action text NOT NULL,
+  target_type text NOT NULL,
+  target_id text,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_audit_log_pkey PRIMARY KEY (id)
+);
+
+COMMENT ON COLUMN public.crm_audit_log.changes IS
+'Changed fields as {"field": {"from": old, "to": new}}. Secrets (passwords, hashes) are never stored.';
+
+CREATE INDEX IF NOT EXISTS crm_audit_log_created_at_idx ON public.crm_audit_log USING btree (created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_audit_log_actor_idx ON public.crm_audit_log USING btree (actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_audit_log_target_idx ON public.crm_audit_log USING btree (target_type, target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_audit_log_action_idx ON public.crm_audit_log USING btree (action, created_at DESC);
+
+ALTER TABLE public.crm_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_audit_log"
+ON public.crm_audit_log
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. Append-only
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_prevent_audit_log_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_prevent_audit_log_edit ON public.crm_audit_log;
+CREATE TRIGGER trigger_prevent_audit_log_edit
+BEFORE UPDATE OR DELETE ON public.crm_audit_log
+FOR EACH ROW EXECUTE FUNCTION public.crm_prevent_audit_log_edit();
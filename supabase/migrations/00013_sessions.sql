@@ -0,0 +1,115 @@
+-- Migration: CRM Sessions & Token Revocation
+-- crm_custom-login records one crm_session row per issued Admin-Token/Partner-Token, keyed
+-- on the token's jti claim. Every crm_* function looks the jti up during verification
+-- (supabase/functions/_shared/session.ts), so a token stops working as soon as its session
+-- is revoked: by crm_logout, or automatically when the principal is deactivated, has their
+-- password reset or their email changed.
+--
+-- Tokens issued before this migration have no session row and are rejected; users sign in again.
+
+-- ============================================================================
+-- 1. Table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_session (
+  jti uuid NOT NULL,
+  principal_id uuid NOT NULL,
+  principal_role text NOT NULL CHECK (principal_role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  issued_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  revoked_at timestamp with time zone,
+  revoked_reason text,
+  ip_address text,
+  user_agent text,
+  CONSTRAINT crm_session_pkey PRIMARY KEY (jti)
+);
+
+CREATE INDEX IF NOT EXISTS crm_session_principal_active_idx ON public.crm_session USING btree (principal_role, principal_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS crm_session_expires_at_idx ON public.crm_session USING btree (expires_at);
+
+ALTER TABLE public.crm_session ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_session"
+ON public.crm_session
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. crm_revoke_sessions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_revoke_sessions(
+  p_principal_role text,
+  p_principal_id uuid,
+  p_reason text
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.crm_session
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason
+  WHERE principal_role = p_principal_role
+    AND principal_id = p_principal_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_revoke_sessions(text, uuid, text) IS
+'Revokes every live session of an admin or partner. Returns the number of sessions revoked.';
+
+-- ============================================================================
+-- 3. Automatic revocation on deactivation, password and email changes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_revoke_sessions_on_credential_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role text := CASE TG_TABLE_NAME WHEN 'crm_admin' THEN 'admin' ELSE 'partner' END;
+BEGIN
+  IF NEW.password_hash IS DISTINCT FROM OLD.password_hash THEN
+    PERFORM public.crm_revoke_sessions(v_role, NEW.id, 'password_changed');
+  ELSIF NEW.email IS DISTINCT FROM OLD.email THEN
+    PERFORM public.crm_revoke_sessions(v_role, NEW.id, 'email_changed');
+  ELSIF TG_TABLE_NAME = 'crm_partner' THEN
+    -- Nested so crm_admin rows (no is_active column) never evaluate it
+    IF OLD.is_active AND NOT NEW.is_active THEN
+      PERFORM public.crm_revoke_sessions(v_role, NEW.id, 'deactivated');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_revoke_admin_sessions ON public.crm_admin;
+CREATE TRIGGER trigger_revoke_admin_sessions
+AFTER UPDATE OF password_hash, email ON public.crm_admin
+FOR EACH ROW EXECUTE FUNCTION public.crm_revoke_sessions_on_credential_change();
+
+DROP TRIGGER IF EXISTS trigger_revoke_partner_sessions ON public.crm_partner;
+CREATE TRIGGER trigger_revoke_partner_sessions
+AFTER UPDATE OF password_hash, email, is_active ON public.crm_partner
+FOR EACH ROW EXECUTE FUNCTION public.crm_revoke_sessions_on_credential_change();
+
+-- ============================================================================
+-- 4. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_expired_sessions(p_retention_days integer DEFAULT 30)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_session
+  WHERE expires_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_expired_sessions', '15 3 * * *', $$SELECT public.crm_purge_expired_sessions()$$);
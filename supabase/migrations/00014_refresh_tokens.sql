@@ -0,0 +1,139 @@
+-- Migration: Refresh Tokens
+-- Login now issues a short-lived access token (CRM_ACCESS_TOKEN_TTL_SECONDS) plus an opaque
+-- refresh token. Only the SHA-256 hash of a refresh token is stored. Every login starts a
+-- token family; crm_refresh-token rotates the refresh token on each use and issues a new
+-- access token (and crm_session row) in the same family. Presenting an already-used refresh
+-- token is treated as theft and revokes the whole family, including its live access tokens.
+
+-- ============================================================================
+-- 1. Sessions belong to a family
+-- ============================================================================
+ALTER TABLE public.crm_session
+ADD COLUMN IF NOT EXISTS family_id uuid;
+
+CREATE INDEX IF NOT EXISTS crm_session_family_id_idx ON public.crm_session USING btree (family_id) WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- 2. crm_refresh_token
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_refresh_token (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  family_id uuid NOT NULL,
+  token_hash text NOT NULL,
+  principal_id uuid NOT NULL,
+  principal_role text NOT NULL CHECK (principal_role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  session_jti uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  used_at timestamp with time zone,
+  replaced_by uuid,
+  revoked_at timestamp with time zone,
+  revoked_reason text,
+  ip_address text,
+  user_agent text,
+  CONSTRAINT crm_refresh_token_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_refresh_token_token_hash_key UNIQUE (token_hash),
+  CONSTRAINT crm_refresh_token_replaced_by_fkey FOREIGN KEY (replaced_by) REFERENCES public.crm_refresh_token(id)
+);
+
+CREATE INDEX IF NOT EXISTS crm_refresh_token_family_id_idx ON public.crm_refresh_token USING btree (family_id);
+CREATE INDEX IF NOT EXISTS crm_refresh_token_principal_active_idx ON public.crm_refresh_token USING btree (principal_role, principal_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS crm_refresh_token_expires_at_idx ON public.crm_refresh_token USING btree (expires_at);
+
+ALTER TABLE public.crm_refresh_token ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_refresh_token"
+ON public.crm_refresh_token
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 3. Family revocation
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_revoke_token_family(
+  p_family_id uuid,
+  p_reason text
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.crm_refresh_token
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason
+  WHERE family_id = p_family_id
+    AND revoked_at IS NULL;
+
+  UPDATE public.crm_session
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason
+  WHERE family_id = p_family_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_revoke_token_family(uuid, text) IS
+'Revokes every refresh token and live session of a token family. Returns the number of sessions revoked.';
+
+-- Revoking a principal's sessions (logout everywhere, deactivation, credential change)
+-- must also stop their refresh tokens from minting new ones.
+CREATE OR REPLACE FUNCTION public.crm_revoke_sessions(
+  p_principal_role text,
+  p_principal_id uuid,
+  p_reason text
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.crm_refresh_token
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason
+  WHERE principal_role = p_principal_role
+    AND principal_id = p_principal_id
+    AND revoked_at IS NULL;
+
+  UPDATE public.crm_session
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason
+  WHERE principal_role = p_principal_role
+    AND principal_id = p_principal_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 4. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_expired_sessions(p_retention_days integer DEFAULT 30)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  -- Unlink rotated rows first so replaced_by never points at a deleted token
+  UPDATE public.crm_refresh_token
+  SET replaced_by = NULL
+  WHERE replaced_by IN (
+    SELECT id FROM public.crm_refresh_token
+    WHERE expires_at < NOW() - make_interval(days => p_retention_days)
+  );
+
+  DELETE FROM public.crm_refresh_token
+  WHERE expires_at < NOW() - make_interval(days => p_retention_days);
+
+  DELETE FROM public.crm_session
+  WHERE expires_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
@@ -0,0 +1,214 @@
+-- Migration: Login Brute-Force Protection
+-- crm_custom-login records every attempt in crm_login_attempt and consults
+-- crm_check_login_lockout before verifying a password. Failures are counted per email+role
+-- and per IP inside a sliding window (reset by a successful login or an admin unlock);
+-- reaching the threshold opens a temporary lockout in crm_login_lockout. Thresholds come
+-- from CRM_LOGIN_* env vars and are passed in by the edge function.
+
+-- ============================================================================
+-- 1. Tables
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_login_attempt (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  email citext NOT NULL,
+  role text NOT NULL CHECK (role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  ip_address text,
+  user_agent text,
+  success boolean NOT NULL,
+  attempted_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_login_attempt_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS crm_login_attempt_email_idx ON public.crm_login_attempt USING btree (email, role, attempted_at DESC);
+CREATE INDEX IF NOT EXISTS crm_login_attempt_ip_idx ON public.crm_login_attempt USING btree (ip_address, attempted_at DESC) WHERE ip_address IS NOT NULL;
+
+-- scope 'email' locks one email+role; scope 'ip' locks every login from one address
+CREATE TABLE IF NOT EXISTS public.crm_login_lockout (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope = ANY (ARRAY['email'::text, 'ip'::text])),
+  email citext,
+  role text CHECK (role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  ip_address text,
+  failed_count integer NOT NULL,
+  locked_at timestamp with time zone NOT NULL DEFAULT now(),
+  locked_until timestamp with time zone NOT NULL,
+  unlocked_at timestamp with time zone,
+  unlocked_by uuid,
+  CONSTRAINT crm_login_lockout_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_login_lockout_unlocked_by_fkey FOREIGN KEY (unlocked_by) REFERENCES public.crm_admin(id),
+  CONSTRAINT crm_login_lockout_target_check CHECK (
+    (scope = 'email' AND email IS NOT NULL AND role IS NOT NULL) OR
+    (scope = 'ip' AND ip_address IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS crm_login_lockout_email_idx ON public.crm_login_lockout USING btree (email, role, locked_until DESC) WHERE scope = 'email';
+CREATE INDEX IF NOT EXISTS crm_login_lockout_ip_idx ON public.crm_login_lockout USING btree (ip_address, locked_until DESC) WHERE scope = 'ip';
+
+ALTER TABLE public.crm_login_attempt ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_login_lockout ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_login_attempt"
+ON public.crm_login_attempt
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to crm_login_lockout"
+ON public.crm_login_lockout
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. Failure counting & lockout check
+-- ============================================================================
+-- Failures since the later of: window start, last successful login, last lockout (opened or lifted)
+CREATE OR REPLACE FUNCTION public.crm_count_login_failures(
+  p_scope text,
+  p_email citext,
+  p_role text,
+  p_ip_address text,
+  p_window_minutes integer
+)
+RETURNS integer AS $$
+DECLARE
+  v_since timestamp with time zone := NOW() - make_interval(mins => p_window_minutes);
+  v_count integer;
+BEGIN
+  IF p_scope = 'email' THEN
+    SELECT GREATEST(
+      v_since,
+      (SELECT MAX(a.attempted_at) FROM public.crm_login_attempt a WHERE a.email = p_email AND a.role = p_role AND a.success),
+      (SELECT MAX(COALESCE(l.unlocked_at, l.locked_at)) FROM public.crm_login_lockout l WHERE l.scope = 'email' AND l.email = p_email AND l.role = p_role)
+    ) INTO v_since;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.crm_login_attempt a
+    WHERE a.email = p_email AND a.role = p_role AND NOT a.success AND a.attempted_at > v_since;
+  ELSE
+    SELECT GREATEST(
+      v_since,
+      (SELECT MAX(COALESCE(l.unlocked_at, l.locked_at)) FROM public.crm_login_lockout l WHERE l.scope = 'ip' AND l.ip_address = p_ip_address)
+    ) INTO v_since;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.crm_login_attempt a
+    WHERE a.ip_address = p_ip_address AND NOT a.success AND a.attempted_at > v_since;
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Returns the latest active lockout end for the email+role or IP (NULL when not locked)
+-- and the number of failures counted so far for the email, used for progressive delays.
+CREATE OR REPLACE FUNCTION public.crm_check_login_lockout(
+  p_email citext,
+  p_role text,
+  p_ip_address text,
+  p_window_minutes integer
+)
+RETURNS TABLE (locked_until timestamp with time zone, email_failures integer) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (
+      SELECT MAX(l.locked_until)
+      FROM public.crm_login_lockout l
+      WHERE l.unlocked_at IS NULL
+        AND l.locked_until > NOW()
+        AND (
+          (l.scope = 'email' AND l.email = p_email AND l.role = p_role) OR
+          (l.scope = 'ip' AND p_ip_address IS NOT NULL AND l.ip_address = p_ip_address)
+        )
+    ),
+    public.crm_count_login_failures('email', p_email, p_role, NULL, p_window_minutes);
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. crm_record_login_attempt
+-- ============================================================================
+-- Records an attempt; on failure opens a lockout for the email and/or IP once its
+-- threshold is reached. Returns the failure count for the email and the lockout end if one
+-- was opened by this attempt.
+CREATE OR REPLACE FUNCTION public.crm_record_login_attempt(
+  p_email citext,
+  p_role text,
+  p_ip_address text,
+  p_user_agent text,
+  p_success boolean,
+  p_max_email_failures integer,
+  p_max_ip_failures integer,
+  p_window_minutes integer,
+  p_lockout_minutes integer
+)
+RETURNS TABLE (email_failures integer, locked_until timestamp with time zone) AS $$
+DECLARE
+  v_email_failures integer := 0;
+  v_ip_failures integer := 0;
+  v_locked_until timestamp with time zone;
+BEGIN
+  -- Serialise attempts for the same email so two failures cannot both miss the threshold
+  PERFORM pg_advisory_xact_lock(hashtext('crm_login:' || lower(p_email::text) || ':' || p_role));
+
+  INSERT INTO public.crm_login_attempt (email, role, ip_address, user_agent, success)
+  VALUES (p_email, p_role, p_ip_address, p_user_agent, p_success);
+
+  IF p_success THEN
+    RETURN QUERY SELECT 0, NULL::timestamp with time zone;
+    RETURN;
+  END IF;
+
+  v_email_failures := public.crm_count_login_failures('email', p_email, p_role, NULL, p_window_minutes);
+  IF v_email_failures >= p_max_email_failures THEN
+    v_locked_until := NOW() + make_interval(mins => p_lockout_minutes);
+    INSERT INTO public.crm_login_lockout (scope, email, role, failed_count, locked_until)
+    VALUES ('email', p_email, p_role, v_email_failures, v_locked_until);
+  END IF;
+
+  IF p_ip_address IS NOT NULL THEN
+    v_ip_failures := public.crm_count_login_failures('ip', NULL, NULL, p_ip_address, p_window_minutes);
+    IF v_ip_failures >= p_max_ip_failures THEN
+      v_locked_until := GREATEST(v_locked_until, NOW() + make_interval(mins => p_lockout_minutes));
+      INSERT INTO public.crm_login_lockout (scope, ip_address, failed_count, locked_until)
+      VALUES ('ip', p_ip_address, v_ip_failures, NOW() + make_interval(mins => p_lockout_minutes));
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_email_failures, v_locked_until;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_record_login_attempt(citext, text, text, text, boolean, integer, integer, integer, integer) IS
+'Records a crm_custom-login attempt and opens email/IP lockouts when failure thresholds are reached.';
+
+-- ============================================================================
+-- 4. Active lockouts (admin visibility)
+-- ============================================================================
+CREATE OR REPLACE VIEW public.crm_active_login_lockout
+WITH (security_invoker = true) AS
+SELECT id, scope, email, role, ip_address, failed_count, locked_at, locked_until
+FROM public.crm_login_lockout
+WHERE unlocked_at IS NULL
+  AND locked_until > NOW();
+
+-- ============================================================================
+-- 5. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_login_attempts(p_retention_days integer DEFAULT 90)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_login_attempt
+  WHERE attempted_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_login_attempts', '45 3 * * *', $$SELECT public.crm_purge_login_attempts()$$);
@@ -0,0 +1,93 @@
+-- Migration: TOTP Two-Factor Authentication
+-- Admins and partners can enrol a TOTP authenticator (crm_mfa-enroll, then crm_mfa-confirm).
+-- Once enabled, crm_custom-login answers a correct password with a short-lived MFA challenge
+-- token that crm_mfa-verify exchanges, together with a TOTP or recovery code, for the
+-- Admin-Token/Partner-Token. Admins can require MFA per account (mfa_required); such accounts
+-- only get an enrolment challenge until they enrol.
+--
+-- TOTP secrets are stored AES-GCM encrypted with CRM_MFA_ENCRYPTION_KEY; recovery codes are
+-- stored as SHA-256 hashes and are single-use.
+
+-- ============================================================================
+-- 1. MFA columns
+-- ============================================================================
+ALTER TABLE public.crm_admin
+ADD COLUMN IF NOT EXISTS mfa_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS mfa_required boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS mfa_secret text,
+ADD COLUMN IF NOT EXISTS mfa_pending_secret text,
+ADD COLUMN IF NOT EXISTS mfa_enabled_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS mfa_last_used_step bigint;
+
+ALTER TABLE public.crm_partner
+ADD COLUMN IF NOT EXISTS mfa_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS mfa_required boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS mfa_secret text,
+ADD COLUMN IF NOT EXISTS mfa_pending_secret text,
+ADD COLUMN IF NOT EXISTS mfa_enabled_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS mfa_last_used_step bigint;
+
+ALTER TABLE public.crm_admin
+DROP CONSTRAINT IF EXISTS crm_admin_mfa_secret_check;
+ALTER TABLE public.crm_admin
+ADD CONSTRAINT crm_admin_mfa_secret_check CHECK (NOT mfa_enabled OR mfa_secret IS NOT NULL);
+
+ALTER TABLE public.crm_partner
+DROP CONSTRAINT IF EXISTS crm_partner_mfa_secret_check;
+ALTER TABLE public.crm_partner
+ADD CONSTRAINT crm_partner_mfa_secret_check CHECK (NOT mfa_enabled OR mfa_secret IS NOT NULL);
+
+-- ============================================================================
+-- 2. Recovery codes
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_mfa_recovery_code (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  principal_id uuid NOT NULL,
+  principal_role text NOT NULL CHECK (principal_role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  code_hash text NOT NULL,
+  used_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_mfa_recovery_code_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_mfa_recovery_code_code_hash_key UNIQUE (principal_role, principal_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS crm_mfa_recovery_code_principal_idx ON public.crm_mfa_recovery_code USING btree (principal_role, principal_id) WHERE used_at IS NULL;
+
+ALTER TABLE public.crm_mfa_recovery_code ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_mfa_recovery_code"
+ON public.crm_mfa_recovery_code
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 3. Replay protection
+-- ============================================================================
+-- Accepts a TOTP time step only if it is newer than the last one used, so a code cannot be
+-- replayed within its validity window. Returns false when the step was already consumed.
+CREATE OR REPLACE FUNCTION public.crm_consume_mfa_step(
+  p_principal_role text,
+  p_principal_id uuid,
+  p_step bigint
+)
+RETURNS boolean AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF p_principal_role = 'admin' THEN
+    UPDATE public.crm_admin
+    SET mfa_last_used_step = p_step
+    WHERE id = p_principal_id
+      AND (mfa_last_used_step IS NULL OR mfa_last_used_step < p_step);
+  ELSE
+    UPDATE public.crm_partner
+    SET mfa_last_used_step = p_step
+    WHERE id = p_principal_id
+      AND (mfa_last_used_step IS NULL OR mfa_last_used_step < p_step);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated = 1;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
@@ -0,0 +1,22 @@
+-- Migration: Self-Service Password Change
+-- Admins and partners change their own password through crm_change-password. Accounts whose
+-- password was generated by the system (crm_create-admin, crm_create-partner and the reset
+-- functions) are flagged must_change_password; crm_custom-login then answers with a
+-- password-change token instead of Admin-Token/Partner-Token until a new password is set.
+
+-- ============================================================================
+-- 1. Forced-change flag
+-- ============================================================================
+ALTER TABLE public.crm_admin
+ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS password_changed_at timestamp with time zone;
+
+ALTER TABLE public.crm_partner
+ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS password_changed_at timestamp with time zone;
+
+COMMENT ON COLUMN public.crm_admin.must_change_password IS
+'Set when the password was system-generated; cleared by crm_change-password.';
+
+COMMENT ON COLUMN public.crm_partner.must_change_password IS
+'Set when the password was system-generated; cleared by crm_change-password.';
@@ -0,0 +1,103 @@
+-- Migration: Password Setup / Reset Tokens
+-- Account creation and admin-initiated resets no longer email a generated password. Instead
+-- they issue a single-use, expiring token in crm_password_token and email a link to it;
+-- crm_complete-password-setup exchanges the token for a password chosen by the account owner.
+-- Only the SHA-256 hash of the token is stored.
+
+-- ============================================================================
+-- 1. Tokens
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_password_token (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  token_hash text NOT NULL,
+  principal_id uuid NOT NULL,
+  principal_role text NOT NULL CHECK (principal_role = ANY (ARRAY['admin'::text, 'partner'::text, 'user'::text])),
+  purpose text NOT NULL CHECK (purpose = ANY (ARRAY['invite'::text, 'reset'::text])),
+  expires_at timestamp with time zone NOT NULL,
+  used_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_password_token_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_password_token_token_hash_key UNIQUE (token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS crm_password_token_principal_idx ON public.crm_password_token USING btree (principal_role, principal_id) WHERE used_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.crm_password_token ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_password_token"
+ON public.crm_password_token
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. Issue & consume
+-- ============================================================================
+-- Issues a token, revoking any still-open token for the same account so only the newest
+-- emailed link works.
+CREATE OR REPLACE FUNCTION public.crm_issue_password_token(
+  p_token_hash text,
+  p_principal_id uuid,
+  p_principal_role text,
+  p_purpose text,
+  p_expires_at timestamp with time zone,
+  p_created_by uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  UPDATE public.crm_password_token
+  SET revoked_at = NOW()
+  WHERE principal_role = p_principal_role
+    AND principal_id = p_principal_id
+    AND used_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO public.crm_password_token (token_hash, principal_id, principal_role, purpose, expires_at, created_by)
+  VALUES (p_token_hash, p_principal_id, p_principal_role, p_purpose, p_expires_at, p_created_by)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Marks the token used and returns its account; no row when the token is unknown, expired,
+-- revoked or already used. The single UPDATE makes concurrent redemptions race-free.
+CREATE OR REPLACE FUNCTION public.crm_consume_password_token(p_token_hash text)
+RETURNS TABLE (principal_id uuid, principal_role text, purpose text) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.crm_password_token t
+  SET used_at = NOW()
+  WHERE t.token_hash = p_token_hash
+    AND t.used_at IS NULL
+    AND t.revoked_at IS NULL
+    AND t.expires_at > NOW()
+  RETURNING t.principal_id, t.principal_role, t.purpose;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_consume_password_token(text) IS
+'Atomically redeems a crm_password_token for crm_complete-password-setup.';
+
+-- ============================================================================
+-- 3. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_password_tokens(p_retention_days integer DEFAULT 30)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_password_token
+  WHERE expires_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_password_tokens', '50 3 * * *', $$SELECT public.crm_purge_password_tokens()$$);
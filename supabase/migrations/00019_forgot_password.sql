@@ -0,0 +1,105 @@
+-- Migration: Self-Service Forgot Password
+-- crm_forgot-password lets admins and partners request a reset link (crm_password_token,
+-- purpose 'reset') without admin involvement; crm_complete-password-setup redeems it.
+-- Every request is recorded in crm_password_reset_request, whether or not the account exists,
+-- and crm_record_password_reset_request enforces per-email and per-IP limits from the
+-- CRM_FORGOT_PASSWORD_* env vars passed in by the edge function.
+
+-- ============================================================================
+-- 1. Requests
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_password_reset_request (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  email citext NOT NULL,
+  role text NOT NULL CHECK (role = ANY (ARRAY['admin'::text, 'partner'::text])),
+  ip_address text,
+  user_agent text,
+  allowed boolean NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_password_reset_request_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS crm_password_reset_request_email_idx ON public.crm_password_reset_request USING btree (email, role, requested_at DESC);
+CREATE INDEX IF NOT EXISTS crm_password_reset_request_ip_idx ON public.crm_password_reset_request USING btree (ip_address, requested_at DESC) WHERE ip_address IS NOT NULL;
+
+ALTER TABLE public.crm_password_reset_request ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_password_reset_request"
+ON public.crm_password_reset_request
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. crm_record_password_reset_request
+-- ============================================================================
+-- Records a request and reports whether it is within limits. 'ip' means the caller's address
+-- exceeded its limit, 'email' that the email+role did; NULL means allowed.
+CREATE OR REPLACE FUNCTION public.crm_record_password_reset_request(
+  p_email citext,
+  p_role text,
+  p_ip_address text,
+  p_user_agent text,
+  p_max_per_email integer,
+  p_max_per_ip integer,
+  p_window_minutes integer
+)
+RETURNS TABLE (limited_by text, retry_after timestamp with time zone) AS $$
+DECLARE
+  v_since timestamp with time zone := NOW() - make_interval(mins => p_window_minutes);
+  v_email_count integer;
+  v_ip_count integer := 0;
+  v_oldest timestamp with time zone;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('crm_forgot_password:' || lower(p_email::text) || ':' || p_role));
+
+  IF p_ip_address IS NOT NULL THEN
+    SELECT COUNT(*), MIN(r.requested_at) INTO v_ip_count, v_oldest
+    FROM public.crm_password_reset_request r
+    WHERE r.ip_address = p_ip_address AND r.requested_at > v_since;
+
+    IF v_ip_count >= p_max_per_ip THEN
+      INSERT INTO public.crm_password_reset_request (email, role, ip_address, user_agent, allowed)
+      VALUES (p_email, p_role, p_ip_address, p_user_agent, false);
+      RETURN QUERY SELECT 'ip'::text, v_oldest + make_interval(mins => p_window_minutes);
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COUNT(*), MIN(r.requested_at) INTO v_email_count, v_oldest
+  FROM public.crm_password_reset_request r
+  WHERE r.email = p_email AND r.role = p_role AND r.allowed AND r.requested_at > v_since;
+
+  INSERT INTO public.crm_password_reset_request (email, role, ip_address, user_agent, allowed)
+  VALUES (p_email, p_role, p_ip_address, p_user_agent, v_email_count < p_max_per_email);
+
+  IF v_email_count >= p_max_per_email THEN
+    RETURN QUERY SELECT 'email'::text, v_oldest + make_interval(mins => p_window_minutes);
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT NULL::text, NULL::timestamp with time zone;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_record_password_reset_request(citext, text, text, text, integer, integer, integer) IS
+'Records a crm_forgot-password request and applies per-email and per-IP rate limits.';
+
+-- ============================================================================
+-- 3. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_password_reset_requests(p_retention_days integer DEFAULT 30)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_password_reset_request
+  WHERE requested_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_password_reset_requests', '55 3 * * *', $$SELECT public.crm_purge_password_reset_requests()$$);
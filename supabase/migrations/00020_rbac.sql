@@ -0,0 +1,174 @@
+-- Migration: Admin Roles & Permissions
+-- Admins get a role (crm_admin.admin_role) that maps to a set of granular permissions in
+-- crm_role_permission. issueTokens embeds the admin's role and permissions in the Admin-Token,
+-- and every admin function checks the permission it needs. Existing admins become super_admin
+-- so nobody loses access when this migration runs.
+--
+-- Tokens carry a snapshot of the permissions: role changes revoke the admin's sessions, while
+-- edits to a role's permission set apply at the next token refresh (CRM_ACCESS_TOKEN_TTL_SECONDS).
+
+-- ============================================================================
+-- 1. Roles & permissions
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_role (
+  key text NOT NULL,
+  name text NOT NULL,
+  description text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_role_pkey PRIMARY KEY (key)
+);
+
+CREATE TABLE IF NOT EXISTS public.crm_permission (
+  key text NOT NULL,
+  description text NOT NULL,
+  CONSTRAINT crm_permission_pkey PRIMARY KEY (key)
+);
+
+CREATE TABLE IF NOT EXISTS public.crm_role_permission (
+  role_key text NOT NULL,
+  permission_key text NOT NULL,
+  CONSTRAINT crm_role_permission_pkey PRIMARY KEY (role_key, permission_key),
+  CONSTRAINT crm_role_permission_role_key_fkey FOREIGN KEY (role_key) REFERENCES public.crm_role(key) ON DELETE CASCADE,
+  CONSTRAINT crm_role_permission_permission_key_fkey FOREIGN KEY (permission_key) REFERENCES public.crm_permission(key) ON DELETE CASCADE
+);
+
+ALTER TABLE public.crm_role ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_permission ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_role_permission ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_role"
+ON public.crm_role
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to crm_permission"
+ON public.crm_permission
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to crm_role_permission"
+ON public.crm_role_permission
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 2. Seed data
+-- ============================================================================
+INSERT INTO public.crm_permission (key, description) VALUES
+  ('admins:read', 'List admins'),
+  ('admins:create', 'Create admins'),
+  ('admins:update', 'Update admin details'),
+  ('admins:role:write', 'Assign admin roles'),
+  ('admins:password:reset', 'Reset admin passwords'),
+  ('partners:read', 'List partners and their users'),
+  ('partners:create', 'Create partners'),
+  ('partners:update', 'Update partner details and status'),
+  ('partners:commission:write', 'Change partner commission rates and slabs'),
+  ('partners:password:reset', 'Reset partner passwords'),
+  ('users:read', 'List users'),
+  ('users:create', 'Create users'),
+  ('users:update', 'Update user details and subscriptions'),
+  ('users:block', 'Block and unblock users'),
+  ('users:password:reset', 'Reset user passwords'),
+  ('stats:read', 'View revenue and growth statistics'),
+  ('commissions:write', 'Create commission adjustments'),
+  ('payouts:read', 'View payout runs and statements'),
+  ('payouts:write', 'Create payout runs'),
+  ('audit:read', 'View the audit log'),
+  ('security:read', 'View locked accounts'),
+  ('security:write', 'Unlock accounts')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.crm_role (key, name, description) VALUES
+  ('super_admin', 'Super Admin', 'Full access, including admin management'),
+  ('finance', 'Finance', 'Commissions, payouts and revenue'),
+  ('support', 'Support', 'User and partner account support'),
+  ('read_only', 'Read Only', 'View-only access to CRM data')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO public.crm_role_permission (role_key, permission_key)
+SELECT 'super_admin', key FROM public.crm_permission
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.crm_role_permission (role_key, permission_key) VALUES
+  ('finance', 'partners:read'),
+  ('finance', 'partners:commission:write'),
+  ('finance', 'users:read'),
+  ('finance', 'stats:read'),
+  ('finance', 'commissions:write'),
+  ('finance', 'payouts:read'),
+  ('finance', 'payouts:write'),
+  ('finance', 'audit:read'),
+  ('support', 'partners:read'),
+  ('support', 'partners:password:reset'),
+  ('support', 'users:read'),
+  ('support', 'users:create'),
+  ('support', 'users:update'),
+  ('support', 'users:block'),
+  ('support', 'users:password:reset'),
+  ('support', 'security:read'),
+  ('support', 'security:write'),
+  ('read_only', 'admins:read'),
+  ('read_only', 'partners:read'),
+  ('read_only', 'users:read'),
+  ('read_only', 'stats:read'),
+  ('read_only', 'payouts:read'),
+  ('read_only', 'audit:read')
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- 3. Admin role column
+-- ============================================================================
+ALTER TABLE public.crm_admin
+ADD COLUMN IF NOT EXISTS admin_role text NOT NULL DEFAULT 'super_admin';
+
+ALTER TABLE public.crm_admin
+DROP CONSTRAINT IF EXISTS crm_admin_admin_role_fkey;
+ALTER TABLE public.crm_admin
+ADD CONSTRAINT crm_admin_admin_role_fkey FOREIGN KEY (admin_role) REFERENCES public.crm_role(key);
+
+-- New admins start with the least privilege unless crm_create-admin says otherwise
+ALTER TABLE public.crm_admin
+ALTER COLUMN admin_role SET DEFAULT 'read_only';
+
+-- ============================================================================
+-- 4. Lookup
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_get_admin_permissions(p_admin_id uuid)
+RETURNS TABLE (admin_role text, permissions text[]) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.admin_role,
+    COALESCE(ARRAY(
+      SELECT rp.permission_key
+      FROM public.crm_role_permission rp
+      WHERE rp.role_key = a.admin_role
+      ORDER BY rp.permission_key
+    ), ARRAY[]::text[])
+  FROM public.crm_admin a
+  WHERE a.id = p_admin_id;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 5. Role changes end the admin's sessions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_revoke_sessions_on_admin_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.admin_role IS DISTINCT FROM OLD.admin_role THEN
+    PERFORM public.crm_revoke_sessions('admin', NEW.id, 'role_changed');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS crm_admin_role_change_revoke_sessions ON public.crm_admin;
+CREATE TRIGGER crm_admin_role_change_revoke_sessions
+AFTER UPDATE OF admin_role ON public.crm_admin
+FOR EACH ROW
+EXECUTE FUNCTION public.crm_revoke_sessions_on_admin_role_change();
@@ -0,0 +1,251 @@
+-- Migration: Partner Referral Codes & Attributed Self-Signup
+-- Each partner owns one or more referral codes (crm_referral_code), optionally labelled with a
+-- campaign. Visits to a referral link are recorded in crm_referral_click by
+-- crm_track-referral-click, and crm_referral-signup creates the auth user plus
+-- crm_user_metadata with the code's partner, so users no longer need a partner to add them.
+-- crm_referral_code_funnel turns clicks, signups and conversions into per-code funnel numbers.
+
+-- ============================================================================
+-- 1. Referral codes
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_referral_code (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partner_id uuid NOT NULL,
+  code citext NOT NULL CHECK (code ~ '^[A-Za-z0-9_-]{4,32}$'),
+  campaign text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_referral_code_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_referral_code_code_key UNIQUE (code),
+  CONSTRAINT crm_referral_code_partner_id_fkey FOREIGN KEY (partner_id) REFERENCES public.crm_partner(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS crm_referral_code_partner_idx ON public.crm_referral_code USING btree (partner_id, created_at DESC);
+
+ALTER TABLE public.crm_referral_code ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_referral_code"
+ON public.crm_referral_code
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_crm_referral_code_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_update_crm_referral_code_updated_at ON public.crm_referral_code;
+CREATE TRIGGER trigger_update_crm_referral_code_updated_at
+BEFORE UPDATE ON public.crm_referral_code
+FOR EACH ROW EXECUTE FUNCTION public.update_crm_referral_code_updated_at();
+
+-- ============================================================================
+-- 2. Code generation
+-- ============================================================================
+-- Random 8-character code without look-alike characters (0/O, 1/I/L), retried on collision
+CREATE OR REPLACE FUNCTION public.crm_generate_referral_code()
+RETURNS text AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code text;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::integer, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.crm_referral_code WHERE code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Every partner starts with one code, so their referral link works from day one
+CREATE OR REPLACE FUNCTION public.crm_create_default_referral_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.crm_referral_code (partner_id, code)
+  VALUES (NEW.id, public.crm_generate_referral_code());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS crm_partner_default_referral_code ON public.crm_partner;
+CREATE TRIGGER crm_partner_default_referral_code
+AFTER INSERT ON public.crm_partner
+FOR EACH ROW EXECUTE FUNCTION public.crm_create_default_referral_code();
+
+-- Backfill existing partners
+INSERT INTO public.crm_referral_code (partner_id, code)
+SELECT p.id, public.crm_generate_referral_code()
+FROM public.crm_partner p
+WHERE NOT EXISTS (SELECT 1 FROM public.crm_referral_code rc WHERE rc.partner_id = p.id);
+
+-- ============================================================================
+-- 3. Clicks / landings
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_referral_click (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  referral_code_id uuid NOT NULL,
+  partner_id uuid NOT NULL,
+  visitor_id text,
+  landing_url text,
+  referrer text,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_referral_click_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_referral_click_referral_code_id_fkey FOREIGN KEY (referral_code_id) REFERENCES public.crm_referral_code(id) ON DELETE CASCADE,
+  CONSTRAINT crm_referral_click_partner_id_fkey FOREIGN KEY (partner_id) REFERENCES public.crm_partner(id) ON DELETE CASCADE
+);
+
+COMMENT ON COLUMN public.crm_referral_click.visitor_id IS
+'Anonymous id the landing page keeps in first-party storage; counts unique visitors per code.';
+
+CREATE INDEX IF NOT EXISTS crm_referral_click_code_idx ON public.crm_referral_click USING btree (referral_code_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_referral_click_partner_idx ON public.crm_referral_click USING btree (partner_id, created_at DESC);
+
+ALTER TABLE public.crm_referral_click ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_referral_click"
+ON public.crm_referral_click
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 4. Attributed users
+-- ============================================================================
+ALTER TABLE public.crm_user_metadata
+ADD COLUMN IF NOT EXISTS referral_code_id uuid;
+
+ALTER TABLE public.crm_user_metadata
+DROP CONSTRAINT IF EXISTS crm_user_metadata_referral_code_id_fkey;
+ALTER TABLE public.crm_user_metadata
+ADD CONSTRAINT crm_user_metadata_referral_code_id_fkey FOREIGN KEY (referral_code_id) REFERENCES public.crm_referral_code(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS crm_user_metadata_referral_code_idx ON public.crm_user_metadata USING btree (referral_code_id) WHERE referral_code_id IS NOT NULL;
+
+-- Self-signup attempts, allowed or not; the per-IP signup limit counts these
+CREATE TABLE IF NOT EXISTS public.crm_referral_signup (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  email citext NOT NULL,
+  referral_code_id uuid,
+  ip_address text,
+  user_agent text,
+  allowed boolean NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_referral_signup_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_referral_signup_referral_code_id_fkey FOREIGN KEY (referral_code_id) REFERENCES public.crm_referral_code(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS crm_referral_signup_ip_idx ON public.crm_referral_signup USING btree (ip_address, requested_at DESC) WHERE ip_address IS NOT NULL;
+
+ALTER TABLE public.crm_referral_signup ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_referral_signup"
+ON public.crm_referral_signup
+FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================================================
+-- 5. crm_record_referral_signup
+-- ============================================================================
+-- Records a signup attempt and reports whether the caller's IP is within its limit
+-- (CRM_SIGNUP_* env vars passed in by crm_referral-signup). retry_after is NULL when allowed.
+CREATE OR REPLACE FUNCTION public.crm_record_referral_signup(
+  p_email citext,
+  p_referral_code_id uuid,
+  p_ip_address text,
+  p_user_agent text,
+  p_max_per_ip integer,
+  p_window_minutes integer
+)
+RETURNS TABLE (allowed boolean, retry_after timestamp with time zone) AS $$
+DECLARE
+  v_since timestamp with time zone := NOW() - make_interval(mins => p_window_minutes);
+  v_ip_count integer := 0;
+  v_oldest timestamp with time zone;
+BEGIN
+  IF p_ip_address IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('crm_referral_signup:' || p_ip_address));
+
+    SELECT COUNT(*), MIN(s.requested_at) INTO v_ip_count, v_oldest
+    FROM public.crm_referral_signup s
+    WHERE s.ip_address = p_ip_address AND s.requested_at > v_since;
+  END IF;
+
+  INSERT INTO public.crm_referral_signup (email, referral_code_id, ip_address, user_agent, allowed)
+  VALUES (p_email, p_referral_code_id, p_ip_address, p_user_agent, v_ip_count < p_max_per_ip);
+
+  IF v_ip_count >= p_max_per_ip THEN
+    RETURN QUERY SELECT false, v_oldest + make_interval(mins => p_window_minutes);
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::timestamp with time zone;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_record_referral_signup(citext, uuid, text, text, integer, integer) IS
+'Records a crm_referral-signup attempt and applies the per-IP rate limit.';
+
+-- ============================================================================
+-- 6. Funnel
+-- ============================================================================
+CREATE OR REPLACE VIEW public.crm_referral_code_funnel
+WITH (security_invoker = true) AS
+SELECT
+  rc.id AS referral_code_id,
+  rc.partner_id,
+  COALESCE(c.clicks, 0) AS clicks,
+  COALESCE(c.unique_visitors, 0) AS unique_visitors,
+  COALESCE(u.signups, 0) AS signups,
+  COALESCE(u.conversions, 0) AS conversions
+FROM public.crm_referral_code rc
+LEFT JOIN (
+  SELECT
+    referral_code_id,
+    COUNT(*) AS clicks,
+    COUNT(DISTINCT COALESCE(visitor_id, ip_address)) AS unique_visitors
+  FROM public.crm_referral_click
+  GROUP BY referral_code_id
+) c ON c.referral_code_id = rc.id
+LEFT JOIN (
+  SELECT
+    referral_code_id,
+    COUNT(*) AS signups,
+    COUNT(*) FILTER (WHERE converted_at IS NOT NULL) AS conversions
+  FROM public.crm_user_metadata
+  WHERE referral_code_id IS NOT NULL
+  GROUP BY referral_code_id
+) u ON u.referral_code_id = rc.id;
+
+COMMENT ON VIEW public.crm_referral_code_funnel IS
+'Per referral code: clicks, unique visitors (visitor_id, else IP), signups and converted signups.';
+
+-- ============================================================================
+-- 7. Housekeeping
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_purge_referral_signups(p_retention_days integer DEFAULT 90)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_referral_signup
+  WHERE requested_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_referral_signups', '0 4 * * *', $$SELECT public.crm_purge_referral_signups()$$);
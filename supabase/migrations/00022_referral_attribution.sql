@@ -0,0 +1,173 @@
+-- Migration: Referral Attribution Rules
+-- Decides which partner gets credit for a user. crm_track-referral-click hands the landing page a
+-- visitor_id to keep for CRM_ATTRIBUTION_WINDOW_DAYS; at signup crm_resolve_referral_attribution
+-- picks the first or last click of that visitor inside the window (CRM_ATTRIBUTION_MODEL).
+-- Every attribution decision, rejected re-attribution and admin override is stored in
+-- crm_attribution_event. Attributed users only change partner through crm_reassign_user_partner,
+-- and crm_partner.total_added follows crm_user_metadata.crm_partner_id on every change.
+
+-- ============================================================================
+-- 1. Attribution events
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.crm_attribution_event (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  event_type text NOT NULL CHECK (event_type = ANY (ARRAY['signup'::text, 'partner_added'::text, 'admin_added'::text, 'duplicate_rejected'::text, 'reassigned'::text])),
+  user_id uuid,
+  email citext NOT NULL,
+  partner_id uuid,
+  previous_partner_id uuid,
+  referral_code_id uuid,
+  referral_click_id uuid,
+  attribution_model text CHECK (attribution_model = ANY (ARRAY['first_touch'::text, 'last_touch'::text])),
+  actor_id uuid,
+  actor_role text NOT NULL CHECK (actor_role = ANY (ARRAY['admin'::text, 'partner'::text, 'user'::text, 'system'::text])),
+  reason text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT crm_attribution_event_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_attribution_event_partner_id_fkey FOREIGN KEY (partner_id) REFERENCES public.crm_partner(id) ON DELETE SET NULL,
+  CONSTRAINT crm_attribution_event_previous_partner_id_fkey FOREIGN KEY (previous_partner_id) REFERENCES public.crm_partner(id) ON DELETE SET NULL,
+  CONSTRAINT crm_attribution_event_referral_code_id_fkey FOREIGN KEY (referral_code_id) REFERENCES public.crm_referral_code(id) ON DELETE SET NULL,
+  CONSTRAINT crm_attribution_event_referral_click_id_fkey FOREIGN KEY (referral_click_id) REFERENCES public.crm_referral_click(id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.crm_attribution_event IS
+'Which partner was credited for a user and why: signup (referral link), partner_added / admin_added (crm_create-user), duplicate_rejected (an already registered email was presented again), reassigned (admin override).';
+
+CREATE INDEX IF NOT EXISTS crm_attribution_event_email_idx ON public.crm_attribution_event USING btree (email, created_at DESC);
+CREATE INDEX IF NOT EXISTS crm_attribution_event_partner_idx ON public.crm_attribution_event USING btree (partner_id, created_at DESC) WHERE partner_id IS NOT NULL;
+
+ALTER TABLE public.crm_attribution_event ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_attribution_event"
+ON public.crm_attribution_event
+FOR ALL
+TO service_role
+USING (true);
+
+CREATE INDEX IF NOT EXISTS crm_referral_click_visitor_idx ON public.crm_referral_click USING btree (visitor_id, created_at DESC) WHERE visitor_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. crm_resolve_referral_attribution
+-- ============================================================================
+-- The visitor's first or last click inside the window whose code and partner are still active.
+-- No row means the visitor has no usable click.
+CREATE OR REPLACE FUNCTION public.crm_resolve_referral_attribution(
+  p_visitor_id text,
+  p_window_days integer,
+  p_model text
+)
+RETURNS TABLE (referral_click_id uuid, referral_code_id uuid, partner_id uuid, code citext, clicked_at timestamp with time zone) AS $$
+BEGIN
+  IF p_model NOT IN ('first_touch', 'last_touch') THEN
+    RAISE EXCEPTION 'Unknown attribution model %', p_model;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.referral_code_id, c.partner_id, rc.code, c.created_at
+  FROM public.crm_referral_click c
+  JOIN public.crm_referral_code rc ON rc.id = c.referral_code_id AND rc.is_active
+  JOIN public.crm_partner p ON p.id = c.partner_id AND p.is_active
+  WHERE c.visitor_id = p_visitor_id
+    AND c.created_at > NOW() - make_interval(days => p_window_days)
+  ORDER BY
+    CASE WHEN p_model = 'first_touch' THEN c.created_at END ASC,
+    CASE WHEN p_model = 'last_touch' THEN c.created_at END DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. Keep crm_partner.total_added in sync with reassignments
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_move_total_added()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.crm_partner_id IS NOT NULL THEN
+    UPDATE public.crm_partner
+    SET total_added = GREATEST(total_added - 1, 0),
+        updated_at = NOW()
+    WHERE id = OLD.crm_partner_id;
+  END IF;
+
+  IF NEW.crm_partner_id IS NOT NULL THEN
+    UPDATE public.crm_partner
+    SET total_added = total_added + 1,
+        updated_at = NOW()
+    WHERE id = NEW.crm_partner_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Partner with id % not found during total_added increment', NEW.crm_partner_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_move_total_added ON public.crm_user_metadata;
+CREATE TRIGGER trigger_move_total_added
+AFTER UPDATE OF crm_partner_id ON public.crm_user_metadata
+FOR EACH ROW
+WHEN (OLD.crm_partner_id IS DISTINCT FROM NEW.crm_partner_id)
+EXECUTE FUNCTION public.crm_move_total_added();
+
+-- ============================================================================
+-- 4. crm_reassign_user_partner
+-- ============================================================================
+-- Admin override: moves a user to another partner (or to none) and records the event.
+-- Commission entries and total_converted already earned stay with the previous partner.
+CREATE OR REPLACE FUNCTION public.crm_reassign_user_partner(
+  p_user_id uuid,
+  p_partner_id uuid,
+  p_actor_id uuid,
+  p_reason text
+)
+RETURNS TABLE (email citext, previous_partner_id uuid, partner_id uuid, changed boolean) AS $$
+DECLARE
+  v_user public.crm_user_metadata%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user
+  FROM public.crm_user_metadata m
+  WHERE m.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF p_partner_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.crm_partner p WHERE p.id = p_partner_id AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'Partner % not found or inactive', p_partner_id;
+  END IF;
+
+  IF v_user.crm_partner_id IS NOT DISTINCT FROM p_partner_id THEN
+    RETURN QUERY SELECT v_user.email, v_user.crm_partner_id, p_partner_id, false;
+    RETURN;
+  END IF;
+
+  UPDATE public.crm_user_metadata m
+  SET crm_partner_id = p_partner_id,
+      updated_at = NOW()
+  WHERE m.user_id = p_user_id;
+
+  INSERT INTO public.crm_attribution_event (event_type, user_id, email, partner_id, previous_partner_id, actor_id, actor_role, reason)
+  VALUES ('reassigned', p_user_id, v_user.email, p_partner_id, v_user.crm_partner_id, p_actor_id, 'admin', p_reason);
+
+  RETURN QUERY SELECT v_user.email, v_user.crm_partner_id, p_partner_id, true;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_reassign_user_partner(uuid, uuid, uuid, text) IS
+'Admin override of crm_user_metadata.crm_partner_id; trigger_move_total_added keeps partner counters consistent.';
+
+-- ============================================================================
+-- 5. Permissions
+-- ============================================================================
+INSERT INTO public.crm_permission (key, description) VALUES
+  ('users:reassign', 'Reassign users to another partner')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.crm_role_permission (role_key, permission_key) VALUES
+  ('super_admin', 'users:reassign')
+ON CONFLICT DO NOTHING;
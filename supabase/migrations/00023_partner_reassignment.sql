@@ -0,0 +1,137 @@
+-- Migration: Partner Reassignment
+-- Users move between partners only through crm_reassign_users_partner (single or bulk).
+-- Counters follow the user: trigger_move_total_added becomes trigger_move_partner_counters and
+-- moves total_added, and total_converted for converted users. Commission already earned follows
+-- the chosen policy (CRM_REASSIGN_COMMISSION_POLICY or per request):
+--   stay     - the ledger is untouched; the previous partner keeps everything earned so far
+--   transfer - unpaid (pending/approved) commission of the user is moved with a pair of
+--              adjustment entries, so total_revenue follows through crm_apply_commission_entry.
+--              Paid commission always stays with the partner it was paid to.
+
+-- ============================================================================
+-- 1. Counters
+-- ============================================================================
+DROP TRIGGER IF EXISTS trigger_move_total_added ON public.crm_user_metadata;
+DROP FUNCTION IF EXISTS public.crm_move_total_added();
+
+CREATE OR REPLACE FUNCTION public.crm_move_partner_counters()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_converted integer := CASE WHEN NEW.converted_at IS NOT NULL THEN 1 ELSE 0 END;
+BEGIN
+  IF OLD.crm_partner_id IS NOT NULL THEN
+    UPDATE public.crm_partner
+    SET total_added = GREATEST(total_added - 1, 0),
+        total_converted = GREATEST(total_converted - v_converted, 0),
+        updated_at = NOW()
+    WHERE id = OLD.crm_partner_id;
+  END IF;
+
+  IF NEW.crm_partner_id IS NOT NULL THEN
+    UPDATE public.crm_partner
+    SET total_added = total_added + 1,
+        total_converted = total_converted + v_converted,
+        updated_at = NOW()
+    WHERE id = NEW.crm_partner_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Partner with id % not found while moving partner counters', NEW.crm_partner_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_move_partner_counters ON public.crm_user_metadata;
+CREATE TRIGGER trigger_move_partner_counters
+AFTER UPDATE OF crm_partner_id ON public.crm_user_metadata
+FOR EACH ROW
+WHEN (OLD.crm_partner_id IS DISTINCT FROM NEW.crm_partner_id)
+EXECUTE FUNCTION public.crm_move_partner_counters();
+
+-- ============================================================================
+-- 2. crm_reassign_users_partner
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.crm_reassign_user_partner(uuid, uuid, uuid, text);
+
+-- One row per requested user: outcome is 'reassigned', 'unchanged' or 'not_found'.
+-- transferred_amount is the unpaid commission moved under the 'transfer' policy.
+CREATE OR REPLACE FUNCTION public.crm_reassign_users_partner(
+  p_user_ids uuid[],
+  p_partner_id uuid,
+  p_actor_id uuid,
+  p_reason text,
+  p_commission_policy text DEFAULT 'stay'
+)
+RETURNS TABLE (user_id uuid, email citext, previous_partner_id uuid, outcome text, transferred_amount numeric) AS $$
+DECLARE
+  v_user_id uuid;
+  v_user public.crm_user_metadata%ROWTYPE;
+  v_status text;
+  v_amount numeric;
+  v_transferred numeric;
+BEGIN
+  IF p_commission_policy NOT IN ('stay', 'transfer') THEN
+    RAISE EXCEPTION 'Unknown commission policy %', p_commission_policy;
+  END IF;
+
+  IF p_partner_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.crm_partner p WHERE p.id = p_partner_id AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'Partner % not found or inactive', p_partner_id;
+  END IF;
+
+  FOREACH v_user_id IN ARRAY COALESCE((SELECT array_agg(DISTINCT u) FROM unnest(p_user_ids) u), ARRAY[]::uuid[])
+  LOOP
+    SELECT * INTO v_user
+    FROM public.crm_user_metadata m
+    WHERE m.user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT v_user_id, NULL::citext, NULL::uuid, 'not_found'::text, 0::numeric;
+      CONTINUE;
+    END IF;
+
+    IF v_user.crm_partner_id IS NOT DISTINCT FROM p_partner_id THEN
+      RETURN QUERY SELECT v_user_id, v_user.email, v_user.crm_partner_id, 'unchanged'::text, 0::numeric;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.crm_user_metadata m
+    SET crm_partner_id = p_partner_id,
+        updated_at = NOW()
+    WHERE m.user_id = v_user_id;
+
+    v_transferred := 0;
+    IF p_commission_policy = 'transfer' AND v_user.crm_partner_id IS NOT NULL AND p_partner_id IS NOT NULL THEN
+      -- Net unpaid commission per status, moved as an adjustment pair so the ledger stays append-only
+      FOR v_status, v_amount IN
+        SELECT e.status, SUM(e.commission_amount)
+        FROM public.crm_commission_entry e
+        WHERE e.partner_id = v_user.crm_partner_id
+          AND e.user_id = v_user_id
+          AND e.status IN ('pending', 'approved')
+          AND e.payout_id IS NULL
+        GROUP BY e.status
+        HAVING SUM(e.commission_amount) <> 0
+      LOOP
+        INSERT INTO public.crm_commission_entry (partner_id, user_id, entry_type, commission_amount, status, note, created_by)
+        VALUES
+          (v_user.crm_partner_id, v_user_id, 'adjustment', -v_amount, v_status, 'Commission transferred out on user reassignment', p_actor_id),
+          (p_partner_id, v_user_id, 'adjustment', v_amount, v_status, 'Commission transferred in on user reassignment', p_actor_id);
+        v_transferred := v_transferred + v_amount;
+      END LOOP;
+    END IF;
+
+    INSERT INTO public.crm_attribution_event (event_type, user_id, email, partner_id, previous_partner_id, actor_id, actor_role, reason, metadata)
+    VALUES ('reassigned', v_user_id, v_user.email, p_partner_id, v_user.crm_partner_id, p_actor_id, 'admin', p_reason,
+            jsonb_build_object('commission_policy', p_commission_policy, 'transferred_amount', v_transferred));
+
+    RETURN QUERY SELECT v_user_id, v_user.email, v_user.crm_partner_id, 'reassigned'::text, v_transferred;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_reassign_users_partner(uuid[], uuid, uuid, text, text) IS
+'Admin override of crm_user_metadata.crm_partner_id for one or more users in one transaction; counters move via trigger_move_partner_counters and unpaid commission per p_commission_policy.';
@@ -0,0 +1,236 @@
+-- Migration: Partner Hierarchy & Override Commission
+-- A partner can recruit sub-partners (crm_partner.parent_partner_id). For every commission a
+-- sub-partner earns on a payment, the parent earns an override of parent_override_percent of the
+-- same payment, posted as its own 'override' ledger entry (source_partner_id = the sub-partner)
+-- so direct and override earnings are reported separately. Overrides go one level up only;
+-- crm_partner_downline lists the whole tree below a partner for reporting.
+
+-- ============================================================================
+-- 1. Hierarchy columns
+-- ============================================================================
+ALTER TABLE public.crm_partner
+ADD COLUMN IF NOT EXISTS parent_partner_id uuid,
+ADD COLUMN IF NOT EXISTS parent_override_percent numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.crm_partner
+DROP CONSTRAINT IF EXISTS crm_partner_parent_partner_id_fkey;
+ALTER TABLE public.crm_partner
+ADD CONSTRAINT crm_partner_parent_partner_id_fkey FOREIGN KEY (parent_partner_id) REFERENCES public.crm_partner(id) ON DELETE SET NULL;
+
+ALTER TABLE public.crm_partner
+DROP CONSTRAINT IF EXISTS crm_partner_parent_not_self_check;
+ALTER TABLE public.crm_partner
+ADD CONSTRAINT crm_partner_parent_not_self_check CHECK (parent_partner_id IS NULL OR parent_partner_id <> id);
+
+ALTER TABLE public.crm_partner
+DROP CONSTRAINT IF EXISTS crm_partner_parent_override_percent_check;
+ALTER TABLE public.crm_partner
+ADD CONSTRAINT crm_partner_parent_override_percent_check CHECK (parent_override_percent >= 0 AND parent_override_percent <= 100);
+
+COMMENT ON COLUMN public.crm_partner.parent_override_percent IS
+'Percent of each commissionable payment from this partner''s users that is paid to parent_partner_id as an override.';
+
+CREATE INDEX IF NOT EXISTS crm_partner_parent_partner_idx ON public.crm_partner USING btree (parent_partner_id) WHERE parent_partner_id IS NOT NULL;
+
+-- A partner cannot become its own ancestor
+CREATE OR REPLACE FUNCTION public.crm_prevent_partner_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_partner_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT p.id, p.parent_partner_id
+      FROM public.crm_partner p
+      WHERE p.id = NEW.parent_partner_id
+      UNION
+      SELECT p.id, p.parent_partner_id
+      FROM public.crm_partner p
+      JOIN ancestors a ON p.id = a.parent_partner_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Partner hierarchy cycle: % cannot be placed under %', NEW.id, NEW.parent_partner_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_prevent_partner_cycle ON public.crm_partner;
+CREATE TRIGGER trigger_prevent_partner_cycle
+BEFORE INSERT OR UPDATE OF parent_partner_id ON public.crm_partner
+FOR EACH ROW EXECUTE FUNCTION public.crm_prevent_partner_cycle();
+
+-- ============================================================================
+-- 2. crm_partner_downline
+-- ============================================================================
+-- Every partner below p_partner_id with its depth (1 = direct sub-partner)
+CREATE OR REPLACE FUNCTION public.crm_partner_downline(p_partner_id uuid)
+RETURNS TABLE (partner_id uuid, parent_partner_id uuid, depth integer) AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE downline AS (
+    SELECT p.id, p.parent_partner_id, 1 AS depth
+    FROM public.crm_partner p
+    WHERE p.parent_partner_id = p_partner_id
+    UNION ALL
+    SELECT p.id, p.parent_partner_id, d.depth + 1
+    FROM public.crm_partner p
+    JOIN downline d ON p.parent_partner_id = d.id
+  )
+  SELECT d.id, d.parent_partner_id, d.depth FROM downline d;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. Override ledger entries
+-- ============================================================================
+ALTER TABLE public.crm_commission_entry
+DROP CONSTRAINT IF EXISTS crm_commission_entry_entry_type_check;
+ALTER TABLE public.crm_commission_entry
+ADD CONSTRAINT crm_commission_entry_entry_type_check CHECK (entry_type = ANY (ARRAY['commission'::text, 'override'::text, 'reversal'::text, 'adjustment'::text]));
+
+ALTER TABLE public.crm_commission_entry
+ADD COLUMN IF NOT EXISTS source_partner_id uuid;
+
+ALTER TABLE public.crm_commission_entry
+DROP CONSTRAINT IF EXISTS crm_commission_entry_source_partner_id_fkey;
+ALTER TABLE public.crm_commission_entry
+ADD CONSTRAINT crm_commission_entry_source_partner_id_fkey FOREIGN KEY (source_partner_id) REFERENCES public.crm_partner(id);
+
+COMMENT ON COLUMN public.crm_commission_entry.source_partner_id IS
+'For override entries (and their reversals): the sub-partner whose user made the payment.';
+
+-- One override per payment, like commissions
+CREATE UNIQUE INDEX IF NOT EXISTS crm_commission_entry_payment_override_key ON public.crm_commission_entry USING btree (payment_id) WHERE entry_type = 'override';
+
+-- Posted next to every direct commission of a sub-partner with an active parent
+CREATE OR REPLACE FUNCTION public.crm_post_override_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent_id uuid;
+  v_override_percent numeric;
+BEGIN
+  SELECT p.parent_partner_id, p.parent_override_percent
+  INTO v_parent_id, v_override_percent
+  FROM public.crm_partner p
+  JOIN public.crm_partner parent ON parent.id = p.parent_partner_id AND parent.is_active
+  WHERE p.id = NEW.partner_id;
+
+  IF v_parent_id IS NULL OR COALESCE(v_override_percent, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_amount, source_partner_id, note)
+  VALUES (
+    v_parent_id,
+    NEW.payment_id,
+    NEW.user_id,
+    'override',
+    NEW.base_amount,
+    v_override_percent,
+    ROUND(NEW.base_amount * v_override_percent / 100.0, 2),
+    NEW.partner_id,
+    'Override on sub-partner commission'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_post_override_commission ON public.crm_commission_entry;
+CREATE TRIGGER trigger_post_override_commission
+AFTER INSERT ON public.crm_commission_entry
+FOR EACH ROW
+WHEN (NEW.entry_type = 'commission')
+EXECUTE FUNCTION public.crm_post_override_commission();
+
+-- ============================================================================
+-- 4. Refunds reverse overrides as well
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_reverse_refunded_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry public.crm_commission_entry%ROWTYPE;
+  v_already_reversed numeric;
+  v_reversal_amount numeric;
+  v_full_refund boolean;
+BEGIN
+  IF NEW.refunded_amount <= OLD.refunded_amount THEN
+    RETURN NEW;
+  END IF;
+
+  v_full_refund := NEW.refunded_amount >= NEW.amount;
+
+  FOR v_entry IN
+    SELECT *
+    FROM public.crm_commission_entry e
+    WHERE e.payment_id = NEW.id
+      AND e.entry_type IN ('commission', 'override')
+      AND e.commission_amount <> 0
+    ORDER BY e.created_at, e.id
+    FOR UPDATE
+  LOOP
+    SELECT COALESCE(SUM(e.commission_amount), 0)
+    INTO v_already_reversed
+    FROM public.crm_commission_entry e
+    WHERE e.reverses_entry_id = v_entry.id;
+
+    -- A full refund reverses whatever remains, so rounding never leaves a residue
+    IF v_full_refund THEN
+      v_reversal_amount := -(v_entry.commission_amount + v_already_reversed);
+    ELSE
+      v_reversal_amount := -ROUND(v_entry.commission_amount * (NEW.refunded_amount - OLD.refunded_amount) / NEW.amount, 2);
+    END IF;
+
+    IF v_reversal_amount <> 0 THEN
+      -- Paid commission is clawed back from the next payout; unpaid commission follows the original's status
+      INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_amount, status, reverses_entry_id, source_partner_id, note)
+      VALUES (
+        v_entry.partner_id,
+        NEW.id,
+        NEW.user_id,
+        'reversal',
+        -(NEW.refunded_amount - OLD.refunded_amount),
+        v_entry.commission_percent,
+        v_reversal_amount,
+        CASE WHEN v_entry.status = 'paid' THEN 'approved' ELSE v_entry.status END,
+        v_entry.id,
+        v_entry.source_partner_id,
+        'Refund of payment ' || NEW.stripe_payment_id
+      );
+    END IF;
+
+    -- A fully refunded, unpaid commission is settled: neither side is payable
+    IF v_full_refund AND v_entry.status IN ('pending', 'approved') THEN
+      UPDATE public.crm_commission_entry
+      SET status = 'reversed'
+      WHERE (id = v_entry.id OR reverses_entry_id = v_entry.id)
+        AND status IN ('pending', 'approved');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 5. Summary view: override earnings reported separately
+-- ============================================================================
+CREATE OR REPLACE VIEW public.crm_partner_commission_summary
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS partner_id,
+  COALESCE(SUM(e.commission_amount), 0) AS total_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'pending'), 0) AS pending_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'approved'), 0) AS approved_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.status = 'paid'), 0) AS paid_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.entry_type = 'reversal'), 0) AS reversed_commission,
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.entry_type = 'adjustment'), 0) AS adjusted_commission,
+  COUNT(e.id) AS entry_count,
+  -- Overrides net of their reversals; direct commission is the rest
+  COALESCE(SUM(e.commission_amount) FILTER (WHERE e.entry_type = 'override' OR e.entry_type = 'reversal' AND e.source_partner_id IS NOT NULL), 0) AS override_commission
+FROM public.crm_partner p
+LEFT JOIN public.crm_commission_entry e ON e.partner_id = p.id
+GROUP BY p.id;
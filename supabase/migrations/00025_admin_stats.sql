@@ -0,0 +1,86 @@
+-- Migration: Admin Stats Aggregation
+-- crm_get-admin-stats used to load every payment, user, partner and commission entry into the
+-- edge function and sum them there, which truncates silently at the PostgREST row limit.
+-- Postgres now does the aggregation; the function only shapes the response.
+--   crm_admin_stats_totals    - one row of revenue, user, partner and commission totals
+--   crm_admin_user_breakdown  - user counts per (subscription_status, region), a handful of rows
+
+-- ============================================================================
+-- 1. crm_admin_stats_totals
+-- ============================================================================
+-- p_since bounds the "last month" figures (revenue by paid_at, users and commission by created_at)
+CREATE OR REPLACE FUNCTION public.crm_admin_stats_totals(p_since timestamptz, p_currency text DEFAULT 'usd')
+RETURNS TABLE (
+  total_revenue numeric,
+  period_revenue numeric,
+  total_users bigint,
+  blocked_users bigint,
+  recent_users bigint,
+  total_partners bigint,
+  active_partners bigint,
+  total_commission numeric,
+  period_commission numeric
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.total_revenue,
+    r.period_revenue,
+    u.total_users,
+    u.blocked_users,
+    u.recent_users,
+    p.total_partners,
+    p.active_partners,
+    c.total_commission,
+    c.period_commission
+  FROM (
+    SELECT
+      COALESCE(SUM(pay.amount), 0) AS total_revenue,
+      COALESCE(SUM(pay.amount) FILTER (WHERE pay.paid_at >= p_since), 0) AS period_revenue
+    FROM public.crm_payment pay
+    WHERE pay.currency = p_currency
+  ) r
+  CROSS JOIN (
+    SELECT
+      COUNT(*) AS total_users,
+      COUNT(*) FILTER (WHERE m.is_blocked) AS blocked_users,
+      COUNT(*) FILTER (WHERE m.created_at >= p_since) AS recent_users
+    FROM public.crm_user_metadata m
+  ) u
+  CROSS JOIN (
+    SELECT
+      COUNT(*) AS total_partners,
+      COUNT(*) FILTER (WHERE cp.is_active) AS active_partners
+    FROM public.crm_partner cp
+  ) p
+  CROSS JOIN (
+    SELECT
+      COALESCE(SUM(e.commission_amount), 0) AS total_commission,
+      COALESCE(SUM(e.commission_amount) FILTER (WHERE e.created_at >= p_since), 0) AS period_commission
+    FROM public.crm_commission_entry e
+  ) c;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_admin_stats_totals(timestamptz, text) IS
+'Dashboard totals for crm_get-admin-stats; p_since is the start of the "last month" window.';
+
+-- ============================================================================
+-- 2. crm_admin_user_breakdown
+-- ============================================================================
+-- Status and region counts in one pass; the edge function folds them into both breakdowns
+CREATE OR REPLACE FUNCTION public.crm_admin_user_breakdown()
+RETURNS TABLE (subscription_status text, region text, user_count bigint) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT m.subscription_status, m.region, COUNT(*)
+  FROM public.crm_user_metadata m
+  GROUP BY m.subscription_status, m.region;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. Supporting index
+-- ============================================================================
+-- Revenue totals filter by currency and window by paid_at
+CREATE INDEX IF NOT EXISTS crm_payment_currency_paid_at_idx ON public.crm_payment USING btree (currency, paid_at);
@@ -0,0 +1,92 @@
+-- Migration: Stats Time Series
+-- crm_get-admin-stats and crm_get-partner-stats accept from/to/granularity/timezone and return
+-- signups, conversions, revenue and commission per day, week or month. Buckets are calendar
+-- periods in the requested IANA timezone (weeks start on Monday); empty periods are returned as zeros.
+
+-- ============================================================================
+-- 1. crm_stats_time_series
+-- ============================================================================
+-- p_from inclusive, p_to exclusive. p_partner_id limits everything to one partner (users currently
+-- assigned to it, its own ledger entries); p_currency limits revenue to one currency.
+CREATE OR REPLACE FUNCTION public.crm_stats_time_series(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_granularity text DEFAULT 'day',
+  p_timezone text DEFAULT 'UTC',
+  p_partner_id uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS TABLE (period_start timestamptz, signups bigint, conversions bigint, revenue numeric, commission numeric) AS $$
+BEGIN
+  IF p_granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown granularity %', p_granularity;
+  END IF;
+
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'p_from must be before p_to';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT b AS local_start
+    FROM generate_series(
+      date_trunc(p_granularity, p_from AT TIME ZONE p_timezone),
+      (p_to AT TIME ZONE p_timezone) - interval '1 microsecond',
+      ('1 ' || p_granularity)::interval
+    ) b
+  ),
+  signup_counts AS (
+    SELECT date_trunc(p_granularity, m.created_at AT TIME ZONE p_timezone) AS local_start, COUNT(*) AS n
+    FROM public.crm_user_metadata m
+    WHERE m.created_at >= p_from AND m.created_at < p_to
+      AND (p_partner_id IS NULL OR m.crm_partner_id = p_partner_id)
+    GROUP BY 1
+  ),
+  conversion_counts AS (
+    SELECT date_trunc(p_granularity, m.converted_at AT TIME ZONE p_timezone) AS local_start, COUNT(*) AS n
+    FROM public.crm_user_metadata m
+    WHERE m.converted_at >= p_from AND m.converted_at < p_to
+      AND (p_partner_id IS NULL OR m.crm_partner_id = p_partner_id)
+    GROUP BY 1
+  ),
+  revenue_sums AS (
+    SELECT date_trunc(p_granularity, pay.paid_at AT TIME ZONE p_timezone) AS local_start, SUM(pay.amount) AS amount
+    FROM public.crm_payment pay
+    WHERE pay.paid_at >= p_from AND pay.paid_at < p_to
+      AND (p_currency IS NULL OR pay.currency = p_currency)
+      AND (p_partner_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.crm_user_metadata m
+        WHERE m.user_id = pay.user_id AND m.crm_partner_id = p_partner_id
+      ))
+    GROUP BY 1
+  ),
+  commission_sums AS (
+    SELECT date_trunc(p_granularity, e.created_at AT TIME ZONE p_timezone) AS local_start, SUM(e.commission_amount) AS amount
+    FROM public.crm_commission_entry e
+    WHERE e.created_at >= p_from AND e.created_at < p_to
+      AND (p_partner_id IS NULL OR e.partner_id = p_partner_id)
+    GROUP BY 1
+  )
+  SELECT
+    b.local_start AT TIME ZONE p_timezone,
+    COALESCE(s.n, 0),
+    COALESCE(c.n, 0),
+    COALESCE(r.amount, 0),
+    COALESCE(cs.amount, 0)
+  FROM buckets b
+  LEFT JOIN signup_counts s ON s.local_start = b.local_start
+  LEFT JOIN conversion_counts c ON c.local_start = b.local_start
+  LEFT JOIN revenue_sums r ON r.local_start = b.local_start
+  LEFT JOIN commission_sums cs ON cs.local_start = b.local_start
+  ORDER BY b.local_start;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_stats_time_series(timestamptz, timestamptz, text, text, uuid, text) IS
+'Signups, conversions, revenue and commission per calendar day/week/month in p_timezone, for all partners or one.';
+
+-- ============================================================================
+-- 2. Supporting indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS crm_user_metadata_created_at_idx ON public.crm_user_metadata USING btree (created_at);
+CREATE INDEX IF NOT EXISTS crm_commission_entry_partner_created_at_idx ON public.crm_commission_entry USING btree (partner_id, created_at);
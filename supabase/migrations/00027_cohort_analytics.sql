@@ -0,0 +1,155 @@
+-- Migration: Cohort Analytics
+-- Signup cohorts for crm_get-cohort-analytics. Users are grouped by the calendar week or month of
+-- crm_user_metadata.created_at (in p_timezone), optionally split by region or partner.
+-- There is no subscription status history, so:
+--   conversion - converted_at within N days of signup; "eligible" users signed up at least N days ago
+--   retention  - users with a crm_payment in month k after their own signup (k = 0 is the signup month)
+--   churn      - converted users now cancelled/expired/refunded, in the month their access ended
+--                (subscription_ends_at, else the last update) counted from signup
+
+-- ============================================================================
+-- 1. crm_cohort_analytics
+-- ============================================================================
+-- One row per cohort (and group when p_group_by is 'region' or 'partner'). conversion, retention
+-- and churn are JSON arrays ordered by days / month offset.
+CREATE OR REPLACE FUNCTION public.crm_cohort_analytics(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_granularity text DEFAULT 'month',
+  p_timezone text DEFAULT 'UTC',
+  p_group_by text DEFAULT 'none',
+  p_conversion_days integer[] DEFAULT ARRAY[7, 15, 30, 60, 90],
+  p_retention_months integer DEFAULT 6
+)
+RETURNS TABLE (
+  cohort_start timestamptz,
+  group_key text,
+  cohort_size bigint,
+  converted bigint,
+  paying bigint,
+  churned bigint,
+  conversion jsonb,
+  retention jsonb,
+  churn jsonb
+) AS $$
+BEGIN
+  IF p_granularity NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Unknown granularity %', p_granularity;
+  END IF;
+
+  IF p_group_by NOT IN ('none', 'region', 'partner') THEN
+    RAISE EXCEPTION 'Unknown grouping %', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  WITH cohort_users AS (
+    SELECT
+      m.user_id,
+      m.created_at,
+      m.converted_at,
+      m.subscription_status,
+      COALESCE(m.subscription_ends_at, m.updated_at) AS ended_at,
+      date_trunc(p_granularity, m.created_at AT TIME ZONE p_timezone) AS local_start,
+      CASE p_group_by
+        WHEN 'region' THEN COALESCE(m.region, 'null')
+        WHEN 'partner' THEN m.crm_partner_id::text
+      END AS grp
+    FROM public.crm_user_metadata m
+    WHERE m.created_at >= p_from AND m.created_at < p_to
+  ),
+  conversion_rows AS (
+    SELECT
+      d.local_start,
+      d.grp,
+      jsonb_agg(jsonb_build_object('days', d.days, 'converted', d.converted, 'eligible', d.eligible) ORDER BY d.days) AS data
+    FROM (
+      SELECT
+        cu.local_start,
+        cu.grp,
+        n.days,
+        COUNT(*) FILTER (WHERE cu.converted_at IS NOT NULL AND cu.converted_at <= cu.created_at + make_interval(days => n.days)) AS converted,
+        COUNT(*) FILTER (WHERE cu.created_at + make_interval(days => n.days) <= NOW()) AS eligible
+      FROM cohort_users cu
+      CROSS JOIN (SELECT DISTINCT unnest(p_conversion_days) AS days) n
+      GROUP BY cu.local_start, cu.grp, n.days
+    ) d
+    GROUP BY d.local_start, d.grp
+  ),
+  payment_months AS (
+    SELECT DISTINCT
+      cu.local_start,
+      cu.grp,
+      cu.user_id,
+      (EXTRACT(YEAR FROM age(pay.paid_at, cu.created_at)) * 12 + EXTRACT(MONTH FROM age(pay.paid_at, cu.created_at)))::integer AS month_offset
+    FROM cohort_users cu
+    JOIN public.crm_payment pay ON pay.user_id = cu.user_id
+    WHERE pay.paid_at >= cu.created_at
+  ),
+  retention_rows AS (
+    SELECT
+      r.local_start,
+      r.grp,
+      jsonb_agg(jsonb_build_object('month', r.month_offset, 'paying', r.paying, 'eligible', r.eligible) ORDER BY r.month_offset) AS data
+    FROM (
+      SELECT
+        cu.local_start,
+        cu.grp,
+        k.month_offset,
+        COUNT(DISTINCT pm.user_id) AS paying,
+        COUNT(DISTINCT cu.user_id) FILTER (WHERE cu.created_at + make_interval(months => k.month_offset) <= NOW()) AS eligible
+      FROM cohort_users cu
+      CROSS JOIN generate_series(0, GREATEST(p_retention_months, 0)) AS k(month_offset)
+      LEFT JOIN payment_months pm ON pm.user_id = cu.user_id AND pm.month_offset = k.month_offset
+      GROUP BY cu.local_start, cu.grp, k.month_offset
+    ) r
+    GROUP BY r.local_start, r.grp
+  ),
+  churn_rows AS (
+    SELECT
+      c.local_start,
+      c.grp,
+      jsonb_agg(jsonb_build_object('month', c.month_offset, 'churned', c.churned) ORDER BY c.month_offset) AS data
+    FROM (
+      SELECT
+        cu.local_start,
+        cu.grp,
+        (EXTRACT(YEAR FROM age(cu.ended_at, cu.created_at)) * 12 + EXTRACT(MONTH FROM age(cu.ended_at, cu.created_at)))::integer AS month_offset,
+        COUNT(*) AS churned
+      FROM cohort_users cu
+      WHERE cu.converted_at IS NOT NULL
+        AND cu.subscription_status IN ('cancelled', 'expired', 'refunded')
+      GROUP BY 1, 2, 3
+    ) c
+    GROUP BY c.local_start, c.grp
+  ),
+  cohort_rows AS (
+    SELECT
+      cu.local_start,
+      cu.grp,
+      COUNT(*) AS cohort_size,
+      COUNT(*) FILTER (WHERE cu.converted_at IS NOT NULL) AS converted,
+      COUNT(*) FILTER (WHERE cu.subscription_status IN ('active', 'past_due')) AS paying,
+      COUNT(*) FILTER (WHERE cu.converted_at IS NOT NULL AND cu.subscription_status IN ('cancelled', 'expired', 'refunded')) AS churned
+    FROM cohort_users cu
+    GROUP BY cu.local_start, cu.grp
+  )
+  SELECT
+    co.local_start AT TIME ZONE p_timezone,
+    co.grp,
+    co.cohort_size,
+    co.converted,
+    co.paying,
+    co.churned,
+    COALESCE(cv.data, '[]'::jsonb),
+    COALESCE(rt.data, '[]'::jsonb),
+    COALESCE(ch.data, '[]'::jsonb)
+  FROM cohort_rows co
+  LEFT JOIN conversion_rows cv ON cv.local_start = co.local_start AND cv.grp IS NOT DISTINCT FROM co.grp
+  LEFT JOIN retention_rows rt ON rt.local_start = co.local_start AND rt.grp IS NOT DISTINCT FROM co.grp
+  LEFT JOIN churn_rows ch ON ch.local_start = co.local_start AND ch.grp IS NOT DISTINCT FROM co.grp
+  ORDER BY co.local_start, co.grp NULLS FIRST;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_cohort_analytics(timestamptz, timestamptz, text, text, text, integer[], integer) IS
+'Signup cohorts with conversion within N days, monthly payment retention and churn, optionally per region or partner.';
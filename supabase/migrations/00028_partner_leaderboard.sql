@@ -0,0 +1,151 @@
+-- Migration: Partner Leaderboard
+-- Period-scoped partner metrics and ranking for crm_get-partner-leaderboard. Every active partner
+-- is ranked for [p_from, p_to) and for the previous period of the same length, so rank movement
+-- is previous_rank - rank (positive = moved up).
+--   signups             - users of the partner created in the period
+--   conversions         - users of the partner converted in the period
+--   conversion_rate     - share of the period's signups that have converted since
+--   revenue             - payments in the period by the partner's users
+--   commission          - ledger entries of the partner created in the period (net of reversals)
+--   avg_days_to_convert - mean signup-to-conversion time of the period's conversions
+-- Users count for the partner they are assigned to now, as in crm_get-partner-stats.
+
+-- ============================================================================
+-- 1. crm_partner_period_metrics
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_partner_period_metrics(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  partner_id uuid,
+  signups bigint,
+  conversions bigint,
+  conversion_rate numeric,
+  revenue numeric,
+  commission numeric,
+  avg_days_to_convert numeric
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    COALESCE(s.signups, 0),
+    COALESCE(c.conversions, 0),
+    CASE WHEN COALESCE(s.signups, 0) > 0 THEN ROUND(s.converted_signups * 100.0 / s.signups, 2) ELSE 0 END,
+    COALESCE(r.revenue, 0),
+    COALESCE(e.commission, 0),
+    c.avg_days_to_convert
+  FROM public.crm_partner p
+  LEFT JOIN (
+    SELECT
+      m.crm_partner_id,
+      COUNT(*) AS signups,
+      COUNT(*) FILTER (WHERE m.converted_at IS NOT NULL) AS converted_signups
+    FROM public.crm_user_metadata m
+    WHERE m.created_at >= p_from AND m.created_at < p_to
+    GROUP BY m.crm_partner_id
+  ) s ON s.crm_partner_id = p.id
+  LEFT JOIN (
+    SELECT
+      m.crm_partner_id,
+      COUNT(*) AS conversions,
+      ROUND((AVG(EXTRACT(EPOCH FROM (m.converted_at - m.created_at))) / 86400)::numeric, 1) AS avg_days_to_convert
+    FROM public.crm_user_metadata m
+    WHERE m.converted_at >= p_from AND m.converted_at < p_to
+    GROUP BY m.crm_partner_id
+  ) c ON c.crm_partner_id = p.id
+  LEFT JOIN (
+    SELECT m.crm_partner_id, SUM(pay.amount) AS revenue
+    FROM public.crm_payment pay
+    JOIN public.crm_user_metadata m ON m.user_id = pay.user_id
+    WHERE pay.paid_at >= p_from AND pay.paid_at < p_to
+    GROUP BY m.crm_partner_id
+  ) r ON r.crm_partner_id = p.id
+  LEFT JOIN (
+    SELECT ce.partner_id, SUM(ce.commission_amount) AS commission
+    FROM public.crm_commission_entry ce
+    WHERE ce.created_at >= p_from AND ce.created_at < p_to
+    GROUP BY ce.partner_id
+  ) e ON e.partner_id = p.id
+  WHERE p.is_active;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 2. crm_partner_leaderboard
+-- ============================================================================
+-- p_metric: conversions, revenue, commission, conversion_rate or signups. Ties share a rank;
+-- percentile is the share of other partners ranked strictly below (100 = top, 0 = bottom).
+CREATE OR REPLACE FUNCTION public.crm_partner_leaderboard(p_from timestamptz, p_to timestamptz, p_metric text DEFAULT 'conversions')
+RETURNS TABLE (
+  partner_id uuid,
+  signups bigint,
+  conversions bigint,
+  conversion_rate numeric,
+  revenue numeric,
+  commission numeric,
+  avg_days_to_convert numeric,
+  metric_value numeric,
+  rank bigint,
+  previous_metric_value numeric,
+  previous_rank bigint,
+  percentile numeric,
+  partner_count bigint
+) AS $$
+BEGIN
+  IF p_metric NOT IN ('conversions', 'revenue', 'commission', 'conversion_rate', 'signups') THEN
+    RAISE EXCEPTION 'Unknown leaderboard metric %', p_metric;
+  END IF;
+
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'p_from must be before p_to';
+  END IF;
+
+  RETURN QUERY
+  WITH cur AS (
+    SELECT
+      m.*,
+      CASE p_metric
+        WHEN 'conversions' THEN m.conversions::numeric
+        WHEN 'revenue' THEN m.revenue
+        WHEN 'commission' THEN m.commission
+        WHEN 'conversion_rate' THEN m.conversion_rate
+        ELSE m.signups::numeric
+      END AS value
+    FROM public.crm_partner_period_metrics(p_from, p_to) m
+  ),
+  prev AS (
+    SELECT
+      m.partner_id,
+      CASE p_metric
+        WHEN 'conversions' THEN m.conversions::numeric
+        WHEN 'revenue' THEN m.revenue
+        WHEN 'commission' THEN m.commission
+        WHEN 'conversion_rate' THEN m.conversion_rate
+        ELSE m.signups::numeric
+      END AS value
+    FROM public.crm_partner_period_metrics(p_from - (p_to - p_from), p_from) m
+  ),
+  prev_ranked AS (
+    SELECT pv.partner_id, pv.value, RANK() OVER (ORDER BY pv.value DESC) AS prev_rank
+    FROM prev pv
+  )
+  SELECT
+    c.partner_id,
+    c.signups,
+    c.conversions,
+    c.conversion_rate,
+    c.revenue,
+    c.commission,
+    c.avg_days_to_convert,
+    c.value,
+    RANK() OVER (ORDER BY c.value DESC),
+    pr.value,
+    pr.prev_rank,
+    ROUND((PERCENT_RANK() OVER (ORDER BY c.value ASC) * 100)::numeric, 2),
+    COUNT(*) OVER ()
+  FROM cur c
+  LEFT JOIN prev_ranked pr ON pr.partner_id = c.partner_id;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_partner_leaderboard(timestamptz, timestamptz, text) IS
+'Active partners ranked by p_metric over [p_from, p_to) with their rank over the previous period of the same length.';
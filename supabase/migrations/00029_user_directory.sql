@@ -0,0 +1,45 @@
+-- Migration: User Directory Search
+-- crm_get-all-users filtered partner_email / partner_name after pagination, so pages came back
+-- short and total_users ignored the search. crm_user_directory joins each user to their partner
+-- so every filter, the count and the pagination run in one query. Substring search (ILIKE '%term%')
+-- on user email, partner email and partner name is served by pg_trgm indexes.
+-- email_search / partner_email_search are the citext emails as text: the trigram indexes are built
+-- on email::text, which plain citext ILIKE would not use.
+
+-- ============================================================================
+-- 1. Trigram indexes
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS crm_user_metadata_email_trgm_idx ON public.crm_user_metadata USING gin ((email::text) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS crm_partner_email_trgm_idx ON public.crm_partner USING gin ((email::text) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS crm_partner_full_name_trgm_idx ON public.crm_partner USING gin (full_name gin_trgm_ops);
+
+-- Stable pagination for the default sort
+CREATE INDEX IF NOT EXISTS crm_user_metadata_created_at_user_id_idx ON public.crm_user_metadata USING btree (created_at DESC, user_id);
+
+-- ============================================================================
+-- 2. crm_user_directory
+-- ============================================================================
+CREATE OR REPLACE VIEW public.crm_user_directory
+WITH (security_invoker = true) AS
+SELECT
+  m.user_id,
+  m.email,
+  m.email::text AS email_search,
+  m.region,
+  m.subscription_status,
+  m.subscription_ends_at,
+  m.stripe_customer_id,
+  m.converted_at,
+  m.created_at,
+  m.is_blocked,
+  m.crm_partner_id,
+  p.email AS partner_email,
+  p.email::text AS partner_email_search,
+  p.full_name AS partner_full_name
+FROM public.crm_user_metadata m
+LEFT JOIN public.crm_partner p ON p.id = m.crm_partner_id;
+
+COMMENT ON VIEW public.crm_user_directory IS
+'Users with their partner''s email and name, for filtering and searching crm_get-all-users in one query.';
@@ -0,0 +1,131 @@
+-- Migration: Payout Run Approval
+-- Payout runs settle only approved commission, and the only thing that approved pending entries
+-- was crm_approve_pending_commissions, whose pg_cron schedule is optional. Without it every run
+-- came back empty. crm_create_payout_run now approves entries past the refund hold itself
+-- (p_hold_days, CRM_COMMISSION_HOLD_DAYS in crm_create-payout-run) before gathering balances.
+
+-- ============================================================================
+-- 1. crm_create_payout_run
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.crm_create_payout_run(timestamp with time zone, timestamp with time zone, numeric, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.crm_create_payout_run(
+  p_period_start timestamp with time zone,
+  p_period_end timestamp with time zone,
+  p_minimum_payout numeric,
+  p_created_by uuid,
+  p_note text DEFAULT NULL,
+  p_hold_days integer DEFAULT 30
+)
+RETURNS uuid AS $$
+DECLARE
+  v_run_id uuid;
+  v_partner record;
+  v_payout_id uuid;
+  v_entries jsonb;
+  v_csv text;
+BEGIN
+  -- Only one payout run at a time
+  PERFORM pg_advisory_xact_lock(hashtext('crm_create_payout_run'));
+
+  -- Pending commission past the refund hold becomes payable in this run, whether or not the
+  -- optional crm_approve_pending_commissions cron job is scheduled
+  PERFORM public.crm_approve_pending_commissions(p_hold_days);
+
+  INSERT INTO public.crm_payout_run (period_start, period_end, minimum_payout, note, created_by)
+  VALUES (p_period_start, p_period_end, COALESCE(p_minimum_payout, 0), p_note, p_created_by)
+  RETURNING id INTO v_run_id;
+
+  FOR v_partner IN
+    SELECT p.id, p.email, p.full_name,
+           SUM(e.commission_amount) AS amount,
+           COUNT(e.id) AS entry_count,
+           COALESCE(SUM(e.commission_amount) FILTER (WHERE e.created_at < p_period_start), 0) AS carried_over
+    FROM public.crm_partner p
+    JOIN public.crm_commission_entry e ON e.partner_id = p.id
+    WHERE p.is_active
+      AND e.status = 'approved'
+      AND e.payout_id IS NULL
+      AND e.created_at < p_period_end
+    GROUP BY p.id, p.email, p.full_name
+    HAVING SUM(e.commission_amount) >= GREATEST(COALESCE(p_minimum_payout, 0), 0.01)
+  LOOP
+    SELECT
+      jsonb_agg(jsonb_build_object(
+        'entry_id', e.id,
+        'created_at', e.created_at,
+        'entry_type', e.entry_type,
+        'payment_id', e.payment_id,
+        'base_amount', e.base_amount,
+        'commission_percent', e.commission_percent,
+        'commission_amount', e.commission_amount,
+        'note', e.note
+      ) ORDER BY e.created_at, e.id),
+      'entry_id,created_at,entry_type,payment_id,base_amount,commission_percent,commission_amount,note' || E'\n' ||
+      string_agg(
+        concat_ws(',',
+          e.id,
+          to_char(e.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+          e.entry_type,
+          COALESCE(e.payment_id::text, ''),
+          e.base_amount,
+          COALESCE(e.commission_percent::text, ''),
+          e.commission_amount,
+          '"' || replace(COALESCE(e.note, ''), '"', '""') || '"'
+        ),
+        E'\n' ORDER BY e.created_at, e.id
+      )
+    INTO v_entries, v_csv
+    FROM public.crm_commission_entry e
+    WHERE e.partner_id = v_partner.id
+      AND e.status = 'approved'
+      AND e.payout_id IS NULL
+      AND e.created_at < p_period_end;
+
+    INSERT INTO public.crm_payout (payout_run_id, partner_id, amount, entry_count, statement, statement_csv)
+    VALUES (
+      v_run_id,
+      v_partner.id,
+      v_partner.amount,
+      v_partner.entry_count,
+      jsonb_build_object(
+        'payout_run_id', v_run_id,
+        'partner', jsonb_build_object('id', v_partner.id, 'email', v_partner.email, 'full_name', v_partner.full_name),
+        'period', jsonb_build_object('start', p_period_start, 'end', p_period_end),
+        'totals', jsonb_build_object(
+          'payout', v_partner.amount,
+          'carried_over', v_partner.carried_over,
+          'entry_count', v_partner.entry_count
+        ),
+        'entries', v_entries
+      ),
+      v_csv
+    )
+    RETURNING id INTO v_payout_id;
+
+    UPDATE public.crm_commission_entry
+    SET status = 'paid',
+        paid_at = NOW(),
+        payout_id = v_payout_id
+    WHERE partner_id = v_partner.id
+      AND status = 'approved'
+      AND payout_id IS NULL
+      AND created_at < p_period_end;
+  END LOOP;
+
+  UPDATE public.crm_payout_run r
+  SET partner_count = totals.partner_count,
+      total_amount = totals.total_amount
+  FROM (
+    SELECT COUNT(*) AS partner_count, COALESCE(SUM(amount), 0) AS total_amount
+    FROM public.crm_payout
+    WHERE payout_run_id = v_run_id
+  ) totals
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_create_payout_run(timestamp with time zone, timestamp with time zone, numeric, uuid, text, integer) IS
+'Creates a payout run: approves pending commission past the hold period, settles approved, unpaid commission per active partner above the minimum, writes statements and marks entries paid.';
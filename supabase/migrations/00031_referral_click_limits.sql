@@ -0,0 +1,76 @@
+-- Migration: Referral Click Rate Limit & Retention
+-- crm_track-referral-click is public and inserted a crm_referral_click row per request, so one
+-- client could inflate a code's funnel and grow the table without bound. Clicks are now recorded
+-- through crm_record_referral_click, which applies a per-IP limit (CRM_REFERRAL_CLICK_* env vars
+-- passed in by the edge function) the way crm_record_referral_signup does for signups; rejected
+-- clicks are not stored. crm_purge_referral_clicks removes clicks past their retention period.
+
+-- ============================================================================
+-- 1. Index
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS crm_referral_click_ip_idx ON public.crm_referral_click USING btree (ip_address, created_at DESC) WHERE ip_address IS NOT NULL;
+
+-- ============================================================================
+-- 2. crm_record_referral_click
+-- ============================================================================
+-- Records a click when the caller's IP is within its limit. retry_after is NULL when allowed.
+CREATE OR REPLACE FUNCTION public.crm_record_referral_click(
+  p_referral_code_id uuid,
+  p_partner_id uuid,
+  p_visitor_id text,
+  p_landing_url text,
+  p_referrer text,
+  p_ip_address text,
+  p_user_agent text,
+  p_max_per_ip integer,
+  p_window_minutes integer
+)
+RETURNS TABLE (allowed boolean, retry_after timestamp with time zone) AS $$
+DECLARE
+  v_since timestamp with time zone := NOW() - make_interval(mins => p_window_minutes);
+  v_ip_count integer := 0;
+  v_oldest timestamp with time zone;
+BEGIN
+  IF p_ip_address IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('crm_referral_click:' || p_ip_address));
+
+    SELECT COUNT(*), MIN(c.created_at) INTO v_ip_count, v_oldest
+    FROM public.crm_referral_click c
+    WHERE c.ip_address = p_ip_address AND c.created_at > v_since;
+  END IF;
+
+  IF v_ip_count >= p_max_per_ip THEN
+    RETURN QUERY SELECT false, v_oldest + make_interval(mins => p_window_minutes);
+    RETURN;
+  END IF;
+
+  INSERT INTO public.crm_referral_click (referral_code_id, partner_id, visitor_id, landing_url, referrer, ip_address, user_agent)
+  VALUES (p_referral_code_id, p_partner_id, p_visitor_id, p_landing_url, p_referrer, p_ip_address, p_user_agent);
+
+  RETURN QUERY SELECT true, NULL::timestamp with time zone;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+COMMENT ON FUNCTION public.crm_record_referral_click(uuid, uuid, text, text, text, text, text, integer, integer) IS
+'Records a crm_track-referral-click visit and applies the per-IP rate limit.';
+
+-- ============================================================================
+-- 3. Housekeeping
+-- ============================================================================
+-- Clicks drive visitor_id attribution and the funnel's click counts, so keep the retention
+-- well above CRM_ATTRIBUTION_WINDOW_DAYS; purged clicks drop out of crm_referral_code_funnel.
+CREATE OR REPLACE FUNCTION public.crm_purge_referral_clicks(p_retention_days integer DEFAULT 365)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.crm_referral_click
+  WHERE created_at < NOW() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- Optional: Schedule with pg_cron (run once)
+-- SELECT cron.schedule('crm_purge_referral_clicks', '5 4 * * *', $$SELECT public.crm_purge_referral_clicks()$$);
@@ -0,0 +1,219 @@
+-- Migration: Refunds Follow Transferred Commission
+-- Under the 'transfer' reassignment policy (00023) unpaid commission moves to the new partner as an
+-- adjustment pair, but a later refund of the payment still reversed against the original partner:
+-- the original ended up negative and the new partner kept commission for a refunded payment.
+-- Transfer adjustments now record the entry they move (transfers_entry_id), transfers are made per
+-- entry, and crm_reverse_refunded_commission posts the reversal to whichever partner currently
+-- holds the entry. A full refund of unpaid commission settles the transfer adjustments as well.
+-- The transferred-out side is settled immediately and the transferred-in entry keeps the source's
+-- created_at, so a payout run cannot pay the previous partner before the out-adjustment approves.
+-- Transfers made before this migration have no link and keep the previous behaviour.
+
+-- ============================================================================
+-- 1. Transfer link
+-- ============================================================================
+ALTER TABLE public.crm_commission_entry
+ADD COLUMN IF NOT EXISTS transfers_entry_id uuid;
+
+ALTER TABLE public.crm_commission_entry
+DROP CONSTRAINT IF EXISTS crm_commission_entry_transfers_entry_id_fkey;
+ALTER TABLE public.crm_commission_entry
+ADD CONSTRAINT crm_commission_entry_transfers_entry_id_fkey FOREIGN KEY (transfers_entry_id) REFERENCES public.crm_commission_entry(id);
+
+COMMENT ON COLUMN public.crm_commission_entry.transfers_entry_id IS
+'For adjustments posted by crm_reassign_users_partner: the commission (or override) entry whose unpaid balance was moved.';
+
+CREATE INDEX IF NOT EXISTS crm_commission_entry_transfers_entry_id_idx ON public.crm_commission_entry USING btree (transfers_entry_id) WHERE transfers_entry_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. crm_reassign_users_partner: transfers per entry
+-- ============================================================================
+-- One row per requested user: outcome is 'reassigned', 'unchanged' or 'not_found'.
+-- transferred_amount is the unpaid commission moved under the 'transfer' policy.
+CREATE OR REPLACE FUNCTION public.crm_reassign_users_partner(
+  p_user_ids uuid[],
+  p_partner_id uuid,
+  p_actor_id uuid,
+  p_reason text,
+  p_commission_policy text DEFAULT 'stay'
+)
+RETURNS TABLE (user_id uuid, email citext, previous_partner_id uuid, outcome text, transferred_amount numeric) AS $$
+DECLARE
+  v_user_id uuid;
+  v_user public.crm_user_metadata%ROWTYPE;
+  v_source_id uuid;
+  v_status text;
+  v_amount numeric;
+  v_created_at timestamptz;
+  v_transferred numeric;
+BEGIN
+  IF p_commission_policy NOT IN ('stay', 'transfer') THEN
+    RAISE EXCEPTION 'Unknown commission policy %', p_commission_policy;
+  END IF;
+
+  IF p_partner_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.crm_partner p WHERE p.id = p_partner_id AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'Partner % not found or inactive', p_partner_id;
+  END IF;
+
+  FOREACH v_user_id IN ARRAY COALESCE((SELECT array_agg(DISTINCT u) FROM unnest(p_user_ids) u), ARRAY[]::uuid[])
+  LOOP
+    SELECT * INTO v_user
+    FROM public.crm_user_metadata m
+    WHERE m.user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT v_user_id, NULL::citext, NULL::uuid, 'not_found'::text, 0::numeric;
+      CONTINUE;
+    END IF;
+
+    IF v_user.crm_partner_id IS NOT DISTINCT FROM p_partner_id THEN
+      RETURN QUERY SELECT v_user_id, v_user.email, v_user.crm_partner_id, 'unchanged'::text, 0::numeric;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.crm_user_metadata m
+    SET crm_partner_id = p_partner_id,
+        updated_at = NOW()
+    WHERE m.user_id = v_user_id;
+
+    v_transferred := 0;
+    IF p_commission_policy = 'transfer' AND v_user.crm_partner_id IS NOT NULL AND p_partner_id IS NOT NULL THEN
+      -- Net unpaid commission per source entry and status, moved as an adjustment pair so the
+      -- ledger stays append-only; reversals and earlier transfers count towards the entry they follow.
+      -- The previous partner's side is settled at once ('reversed') rather than left to approve a
+      -- hold period after the transfer, and the new partner's entry keeps the source's created_at
+      -- so it approves when the original would have.
+      FOR v_source_id, v_status, v_amount, v_created_at IN
+        SELECT COALESCE(e.transfers_entry_id, e.reverses_entry_id, e.id), e.status, SUM(e.commission_amount), MIN(e.created_at)
+        FROM public.crm_commission_entry e
+        WHERE e.partner_id = v_user.crm_partner_id
+          AND e.user_id = v_user_id
+          AND e.status IN ('pending', 'approved')
+          AND e.payout_id IS NULL
+        GROUP BY 1, 2
+        HAVING SUM(e.commission_amount) <> 0
+      LOOP
+        UPDATE public.crm_commission_entry e
+        SET status = 'reversed'
+        WHERE e.partner_id = v_user.crm_partner_id
+          AND e.user_id = v_user_id
+          AND e.status = v_status
+          AND e.payout_id IS NULL
+          AND COALESCE(e.transfers_entry_id, e.reverses_entry_id, e.id) = v_source_id;
+
+        INSERT INTO public.crm_commission_entry (partner_id, user_id, entry_type, commission_amount, status, transfers_entry_id, note, created_by, created_at)
+        VALUES
+          (v_user.crm_partner_id, v_user_id, 'adjustment', -v_amount, 'reversed', v_source_id, 'Commission transferred out on user reassignment', p_actor_id, NOW()),
+          (p_partner_id, v_user_id, 'adjustment', v_amount, v_status, v_source_id, 'Commission transferred in on user reassignment', p_actor_id, v_created_at);
+        v_transferred := v_transferred + v_amount;
+      END LOOP;
+    END IF;
+
+    INSERT INTO public.crm_attribution_event (event_type, user_id, email, partner_id, previous_partner_id, actor_id, actor_role, reason, metadata)
+    VALUES ('reassigned', v_user_id, v_user.email, p_partner_id, v_user.crm_partner_id, p_actor_id, 'admin', p_reason,
+            jsonb_build_object('commission_policy', p_commission_policy, 'transferred_amount', v_transferred));
+
+    RETURN QUERY SELECT v_user_id, v_user.email, v_user.crm_partner_id, 'reassigned'::text, v_transferred;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. Refunds reverse against the current holder
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.crm_reverse_refunded_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry public.crm_commission_entry%ROWTYPE;
+  v_already_reversed numeric;
+  v_reversal_amount numeric;
+  v_full_refund boolean;
+  v_holder_id uuid;
+  v_holder_status text;
+BEGIN
+  IF NEW.refunded_amount <= OLD.refunded_amount THEN
+    RETURN NEW;
+  END IF;
+
+  v_full_refund := NEW.refunded_amount >= NEW.amount;
+
+  FOR v_entry IN
+    SELECT *
+    FROM public.crm_commission_entry e
+    WHERE e.payment_id = NEW.id
+      AND e.entry_type IN ('commission', 'override')
+      AND e.commission_amount <> 0
+    ORDER BY e.created_at, e.id
+    FOR UPDATE
+  LOOP
+    SELECT COALESCE(SUM(e.commission_amount), 0)
+    INTO v_already_reversed
+    FROM public.crm_commission_entry e
+    WHERE e.reverses_entry_id = v_entry.id;
+
+    -- A full refund reverses whatever remains, so rounding never leaves a residue
+    IF v_full_refund THEN
+      v_reversal_amount := -(v_entry.commission_amount + v_already_reversed);
+    ELSE
+      v_reversal_amount := -ROUND(v_entry.commission_amount * (NEW.refunded_amount - OLD.refunded_amount) / NEW.amount, 2);
+    END IF;
+
+    -- The latest partner the entry was transferred to that still holds a balance of it; otherwise
+    -- the partner it was posted to
+    SELECT t.partner_id, t.status
+    INTO v_holder_id, v_holder_status
+    FROM public.crm_commission_entry t
+    WHERE t.transfers_entry_id = v_entry.id
+      AND t.commission_amount > 0
+      AND (
+        SELECT SUM(h.commission_amount)
+        FROM public.crm_commission_entry h
+        WHERE h.partner_id = t.partner_id
+          AND (h.id = v_entry.id OR h.reverses_entry_id = v_entry.id OR h.transfers_entry_id = v_entry.id)
+      ) > 0
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_holder_id := v_entry.partner_id;
+      v_holder_status := v_entry.status;
+    END IF;
+
+    IF v_reversal_amount <> 0 THEN
+      -- Paid commission is clawed back from the next payout; unpaid commission follows the holder's status
+      INSERT INTO public.crm_commission_entry (partner_id, payment_id, user_id, entry_type, base_amount, commission_percent, commission_amount, status, reverses_entry_id, source_partner_id, note)
+      VALUES (
+        v_holder_id,
+        NEW.id,
+        NEW.user_id,
+        'reversal',
+        -(NEW.refunded_amount - OLD.refunded_amount),
+        v_entry.commission_percent,
+        v_reversal_amount,
+        CASE WHEN v_holder_status = 'paid' THEN 'approved' ELSE v_holder_status END,
+        v_entry.id,
+        v_entry.source_partner_id,
+        'Refund of payment ' || NEW.stripe_payment_id
+      );
+    END IF;
+
+    -- A fully refunded commission of which nothing was paid out is settled: no side is payable
+    IF v_full_refund AND NOT EXISTS (
+      SELECT 1
+      FROM public.crm_commission_entry e
+      WHERE (e.id = v_entry.id OR e.reverses_entry_id = v_entry.id OR e.transfers_entry_id = v_entry.id)
+        AND e.status = 'paid'
+    ) THEN
+      UPDATE public.crm_commission_entry
+      SET status = 'reversed'
+      WHERE (id = v_entry.id OR reverses_entry_id = v_entry.id OR transfers_entry_id = v_entry.id)
+        AND status IN ('pending', 'approved');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;